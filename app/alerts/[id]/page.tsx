@@ -0,0 +1,238 @@
+'use client';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import {
+  ArrowLeftIcon,
+  PauseIcon,
+  PlayIcon,
+  RefreshCwIcon,
+  Trash2Icon,
+} from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { describeAlertCondition } from '@/lib/alert-conditions';
+import type { AlertEvent, AlertRule } from '@/lib/alert-rules';
+
+const eventFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'medium',
+});
+
+const STATE_LABELS: Record<AlertEvent['state'], string> = {
+  ok: 'OK',
+  triggered: 'Firing',
+  error: 'Failing',
+};
+
+const NOTIFICATION_LABELS: Record<AlertEvent['notification'], string> = {
+  sent: 'notified',
+  suppressed: 'held back by the cool-down',
+  none: 'no notification',
+};
+
+const AlertPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const [alert, setAlert] = useState<AlertRule | undefined>();
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [cooldownMinutes, setCooldownMinutes] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+
+  const load = useCallback(async () => {
+    const response = await fetch(`/api/alerts/${encodeURIComponent(id)}`);
+    if (!response.ok) {
+      throw new Error(
+        response.status === 404
+          ? 'This alert does not exist.'
+          : `Request failed with status ${response.status}.`,
+      );
+    }
+    const payload: { alert: AlertRule; events: AlertEvent[] } =
+      await response.json();
+    setAlert(payload.alert);
+    setCooldownMinutes(String(payload.alert.cooldownMinutes));
+    setEvents(payload.events);
+  }, [id]);
+
+  useEffect(() => {
+    load().catch((loadError) => {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    });
+  }, [load]);
+
+  const update = async (changes: Partial<AlertRule>) => {
+    const response = await fetch(`/api/alerts/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+    const payload = await response.json();
+    if (!response.ok) {
+      setError(
+        payload?.error?.message ?? `Request failed with status ${response.status}.`,
+      );
+      return;
+    }
+    setAlert(payload as AlertRule);
+    setError(undefined);
+  };
+
+  const checkNow = async () => {
+    setIsChecking(true);
+    try {
+      const response = await fetch(
+        `/api/alerts/${encodeURIComponent(id)}/check`,
+        { method: 'POST' },
+      );
+      if (!response.ok) {
+        setError(`Request failed with status ${response.status}.`);
+        return;
+      }
+      await load();
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const deleteAlert = async () => {
+    if (!window.confirm(`Delete the alert "${alert?.name}"?`)) {
+      return;
+    }
+    const response = await fetch(`/api/alerts/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    });
+    if (response.ok || response.status === 404) {
+      router.push('/alerts');
+    }
+  };
+
+  if (!alert) {
+    return (
+      <div className="max-w-4xl mx-auto p-6 text-sm text-muted-foreground">
+        {error ?? 'Loading alert…'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button asChild size="icon" variant="ghost">
+          <Link aria-label="All alerts" href="/alerts">
+            <ArrowLeftIcon />
+          </Link>
+        </Button>
+        <h1 className="font-semibold text-lg">{alert.name}</h1>
+        {alert.state ? (
+          <Badge
+            variant={alert.state === 'triggered' ? 'destructive' : 'secondary'}
+          >
+            {STATE_LABELS[alert.state]}
+          </Badge>
+        ) : null}
+        {alert.enabled ? null : <Badge variant="outline">Paused</Badge>}
+        <div className="ml-auto flex items-center gap-2">
+          <Button
+            onClick={() => update({ enabled: !alert.enabled })}
+            size="sm"
+            variant="outline"
+          >
+            {alert.enabled ? <PauseIcon /> : <PlayIcon />}
+            {alert.enabled ? 'Pause' : 'Resume'}
+          </Button>
+          <Button disabled={isChecking} onClick={checkNow} size="sm">
+            <RefreshCwIcon />
+            {isChecking ? 'Checking…' : 'Check now'}
+          </Button>
+          <Button
+            aria-label="Delete alert"
+            onClick={deleteAlert}
+            size="icon-sm"
+            variant="ghost"
+          >
+            <Trash2Icon />
+          </Button>
+        </div>
+      </div>
+      <div className="space-y-2 text-sm">
+        <p>
+          Notifies when <strong>{describeAlertCondition(alert.condition)}</strong>
+          , checked on <code>{alert.cron}</code>.
+        </p>
+        <label className="flex items-center gap-2">
+          <span className="text-muted-foreground">Cool-down (minutes)</span>
+          <Input
+            className="h-8 w-24"
+            min={0}
+            onBlur={() => {
+              const minutes = Number(cooldownMinutes);
+              if (cooldownMinutes.trim() && minutes !== alert.cooldownMinutes) {
+                void update({ cooldownMinutes: minutes });
+              } else {
+                setCooldownMinutes(String(alert.cooldownMinutes));
+              }
+            }}
+            onChange={(event) => setCooldownMinutes(event.target.value)}
+            type="number"
+            value={cooldownMinutes}
+          />
+        </label>
+        <p className="text-muted-foreground">
+          {alert.lastCheckedAt
+            ? `Last checked ${eventFormatter.format(alert.lastCheckedAt)}`
+            : 'Not checked yet'}
+          {alert.state === 'error' && alert.lastError
+            ? ` (failed: ${alert.lastError.replace(/\.$/, '')})`
+            : alert.lastValue === undefined
+              ? ''
+              : ` (value ${alert.lastValue})`}
+          .{' '}
+          {alert.notifiers.length > 0
+            ? `Notifies by ${alert.notifiers.map((notifier) => notifier.kind).join(', ')}.`
+            : 'No notifiers; changes are only recorded below.'}
+        </p>
+      </div>
+      {error ? <p className="text-destructive text-sm">{error}</p> : null}
+      <div className="space-y-2">
+        <h2 className="font-medium text-sm">History</h2>
+        {events.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No state changes yet.</p>
+        ) : (
+          <ul className="divide-y rounded-md border text-sm">
+            {events.map((event) => (
+              <li className="space-y-1 p-3" key={event.id}>
+                <div className="flex items-center gap-2">
+                  <Badge
+                    variant={
+                      event.state === 'triggered' ? 'destructive' : 'secondary'
+                    }
+                  >
+                    {STATE_LABELS[event.state]}
+                  </Badge>
+                  <span className="flex-1">{event.message}</span>
+                  <span className="text-muted-foreground text-xs">
+                    {eventFormatter.format(event.at)}
+                  </span>
+                </div>
+                <p className="text-muted-foreground text-xs">
+                  {NOTIFICATION_LABELS[event.notification]}
+                  {event.deliveries
+                    .filter((delivery) => !delivery.ok)
+                    .map(
+                      (delivery) =>
+                        ` · ${delivery.notifier} failed: ${delivery.error}`,
+                    )}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertPage;
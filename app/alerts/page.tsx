@@ -0,0 +1,308 @@
+'use client';
+import { useEffect, useState, type FormEvent } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { BellIcon, MessageSquareIcon, PlusIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ALERT_OPERATORS,
+  type AlertCondition,
+  type AlertOperator,
+} from '@/lib/alert-conditions';
+import type { AlertRule } from '@/lib/alert-rules';
+import type { NotifierConfig } from '@/lib/notifiers';
+import type { SavedQuery } from '@/lib/query-library';
+
+const CHECK_INTERVALS = [
+  { label: 'Every minute', cron: '* * * * *' },
+  { label: 'Every 5 minutes', cron: '*/5 * * * *' },
+  { label: 'Every 15 minutes', cron: '*/15 * * * *' },
+  { label: 'Every hour', cron: '0 * * * *' },
+  { label: 'Every day at 8:00', cron: '0 8 * * *' },
+];
+
+const STATE_BADGES: Record<
+  NonNullable<AlertRule['state']>,
+  { label: string; variant: 'default' | 'destructive' | 'secondary' }
+> = {
+  ok: { label: 'OK', variant: 'secondary' },
+  triggered: { label: 'Firing', variant: 'destructive' },
+  error: { label: 'Failing', variant: 'default' },
+};
+
+const AlertsPage = () => {
+  const router = useRouter();
+  const [alerts, setAlerts] = useState<AlertRule[]>([]);
+  const [queries, setQueries] = useState<SavedQuery[]>([]);
+  const [name, setName] = useState('');
+  const [queryId, setQueryId] = useState('');
+  const [conditionKind, setConditionKind] =
+    useState<AlertCondition['kind']>('threshold');
+  const [column, setColumn] = useState('');
+  const [operator, setOperator] = useState<AlertOperator>('>');
+  const [threshold, setThreshold] = useState('');
+  const [cron, setCron] = useState(CHECK_INTERVALS[1].cron);
+  const [cooldownMinutes, setCooldownMinutes] = useState('60');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [emails, setEmails] = useState('');
+  const [error, setError] = useState<string | undefined>();
+
+  useEffect(() => {
+    fetch('/api/alerts')
+      .then((response) => response.json())
+      .then((payload: { alerts: AlertRule[] }) => {
+        setAlerts(payload.alerts);
+      })
+      .catch((loadError) => {
+        console.error('Unable to load alerts:', loadError);
+        setError('Alerts could not be loaded.');
+      });
+    fetch('/api/queries')
+      .then((response) => response.json())
+      .then((payload: { queries: SavedQuery[] }) => {
+        setQueries(payload.queries);
+      })
+      .catch((loadError) => {
+        console.error('Unable to load saved queries:', loadError);
+      });
+  }, []);
+
+  const create = async (event: FormEvent) => {
+    event.preventDefault();
+    const value = Number(threshold);
+    const condition: AlertCondition =
+      conditionKind === 'row-count-change'
+        ? { kind: 'row-count-change' }
+        : conditionKind === 'row-count'
+          ? { kind: 'row-count', operator, value }
+          : { kind: 'threshold', column, operator, value };
+    const recipients = emails
+      .split(/[,\s]+/)
+      .map((email) => email.trim())
+      .filter(Boolean);
+    const notifiers: NotifierConfig[] = [
+      ...(webhookUrl.trim()
+        ? [{ kind: 'webhook' as const, url: webhookUrl.trim() }]
+        : []),
+      ...(recipients.length > 0 ? [{ kind: 'smtp' as const, to: recipients }] : []),
+    ];
+    const response = await fetch('/api/alerts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name,
+        queryId,
+        condition,
+        cron,
+        cooldownMinutes: Number(cooldownMinutes),
+        notifiers,
+      }),
+    });
+    const payload = await response.json();
+    if (!response.ok) {
+      setError(
+        payload?.error?.message ?? `Request failed with status ${response.status}.`,
+      );
+      return;
+    }
+    router.push(`/alerts/${(payload as AlertRule).id}`);
+  };
+
+  const canCreate =
+    name.trim() &&
+    queryId &&
+    (conditionKind === 'row-count-change' ||
+      (threshold.trim() &&
+        (conditionKind === 'row-count' || column.trim())));
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="font-semibold text-xl">Alerts</h1>
+        <Button asChild variant="ghost">
+          <Link href="/">
+            <MessageSquareIcon />
+            Back to chat
+          </Link>
+        </Button>
+      </div>
+      {alerts.length === 0 ? (
+        <p className="text-muted-foreground text-sm">
+          No alerts yet. Watch a saved query below.
+        </p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {alerts.map((alert) => (
+            <li key={alert.id}>
+              <Link
+                className="flex items-center gap-3 p-3 hover:bg-muted"
+                href={`/alerts/${alert.id}`}
+              >
+                <BellIcon className="size-4 text-muted-foreground" />
+                <span className="flex-1 font-medium text-sm">{alert.name}</span>
+                {alert.enabled ? null : <Badge variant="outline">Paused</Badge>}
+                {alert.state ? (
+                  <Badge variant={STATE_BADGES[alert.state].variant}>
+                    {STATE_BADGES[alert.state].label}
+                  </Badge>
+                ) : (
+                  <Badge variant="outline">Not checked yet</Badge>
+                )}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form className="space-y-4 rounded-md border p-4" onSubmit={create}>
+        <h2 className="font-medium">New alert</h2>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Name</span>
+            <Input
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Failed payments spike"
+              value={name}
+            />
+          </label>
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Saved query</span>
+            <Select onValueChange={setQueryId} value={queryId}>
+              <SelectTrigger className="w-full">
+                <SelectValue
+                  placeholder={
+                    queries.length > 0
+                      ? 'Choose a saved query'
+                      : 'Save a query from the chat first'
+                  }
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {queries.map((query) => (
+                  <SelectItem key={query.id} value={query.id}>
+                    {query.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+        </div>
+        <div className="flex flex-wrap items-end gap-2 text-sm">
+          <label className="block space-y-1">
+            <span className="font-medium">Notify when</span>
+            <Select
+              onValueChange={(value) =>
+                setConditionKind(value as AlertCondition['kind'])
+              }
+              value={conditionKind}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="threshold">A column of the first row</SelectItem>
+                <SelectItem value="row-count">The row count</SelectItem>
+                <SelectItem value="row-count-change">
+                  The row count changes
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </label>
+          {conditionKind === 'threshold' ? (
+            <Input
+              aria-label="Column"
+              className="w-48 font-mono"
+              onChange={(event) => setColumn(event.target.value)}
+              placeholder="failed_payments"
+              value={column}
+            />
+          ) : null}
+          {conditionKind === 'row-count-change' ? null : (
+            <>
+              <Select
+                onValueChange={(value) => setOperator(value as AlertOperator)}
+                value={operator}
+              >
+                <SelectTrigger aria-label="Operator">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ALERT_OPERATORS.map((entry) => (
+                    <SelectItem key={entry} value={entry}>
+                      {entry}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                aria-label="Threshold"
+                className="w-28"
+                onChange={(event) => setThreshold(event.target.value)}
+                placeholder="20"
+                type="number"
+                value={threshold}
+              />
+            </>
+          )}
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Check</span>
+            <Select onValueChange={setCron} value={cron}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CHECK_INTERVALS.map((interval) => (
+                  <SelectItem key={interval.cron} value={interval.cron}>
+                    {interval.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Cool-down (minutes)</span>
+            <Input
+              min={0}
+              onChange={(event) => setCooldownMinutes(event.target.value)}
+              type="number"
+              value={cooldownMinutes}
+            />
+          </label>
+        </div>
+        <fieldset className="space-y-2 text-sm">
+          <legend className="font-medium">Notify</legend>
+          <Input
+            aria-label="Webhook URL"
+            onChange={(event) => setWebhookUrl(event.target.value)}
+            placeholder="Webhook URL (optional)"
+            type="url"
+            value={webhookUrl}
+          />
+          <Input
+            aria-label="Email recipients"
+            onChange={(event) => setEmails(event.target.value)}
+            placeholder="Email recipients, comma separated (optional)"
+            value={emails}
+          />
+        </fieldset>
+        {error ? <p className="text-destructive text-sm">{error}</p> : null}
+        <Button disabled={!canCreate} type="submit">
+          <PlusIcon />
+          Create alert
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default AlertsPage;
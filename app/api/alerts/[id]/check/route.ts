@@ -0,0 +1,18 @@
+import { loadAlertRule } from '@/lib/alert-rules';
+import { checkAlertRule } from '@/lib/alert-runner';
+
+type AlertRouteContext = { params: Promise<{ id: string }> };
+
+// Checks a rule now, with the same de-duplication and cool-down as the runner.
+export async function POST(_req: Request, { params }: AlertRouteContext) {
+  const { id } = await params;
+  const alert = await loadAlertRule(id);
+  if (!alert) {
+    return Response.json(
+      { error: { message: `Alert "${id}" does not exist.` } },
+      { status: 404 },
+    );
+  }
+  const event = await checkAlertRule(alert);
+  return Response.json({ alert: await loadAlertRule(id), event: event ?? null });
+}
@@ -0,0 +1,75 @@
+import {
+  AlertRuleError,
+  deleteAlertRule,
+  listAlertEvents,
+  loadAlertRule,
+  updateAlertRule,
+  type AlertRuleChanges,
+} from '@/lib/alert-rules';
+import { rejectUnknownProject } from '@/lib/supabase-mcp';
+
+type AlertRouteContext = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) =>
+  Response.json(
+    { error: { message: `Alert "${id}" does not exist.` } },
+    { status: 404 },
+  );
+
+// Returns the rule with its state history, newest first.
+export async function GET(_req: Request, { params }: AlertRouteContext) {
+  const { id } = await params;
+  const alert = await loadAlertRule(id);
+  if (!alert) {
+    return notFound(id);
+  }
+  return Response.json({ alert, events: await listAlertEvents(id) });
+}
+
+export async function PATCH(req: Request, { params }: AlertRouteContext) {
+  const { id } = await params;
+  const changes: AlertRuleChanges = await req.json();
+  const unknownProject = rejectUnknownProject(changes.project);
+  if (unknownProject) {
+    return unknownProject;
+  }
+
+  try {
+    const alert = await updateAlertRule(id, {
+      name: typeof changes.name === 'string' ? changes.name : undefined,
+      queryId: typeof changes.queryId === 'string' ? changes.queryId : undefined,
+      condition:
+        typeof changes.condition === 'object' && changes.condition !== null
+          ? changes.condition
+          : undefined,
+      project:
+        typeof changes.project === 'string' || changes.project === null
+          ? changes.project
+          : undefined,
+      cron: typeof changes.cron === 'string' ? changes.cron : undefined,
+      cooldownMinutes:
+        typeof changes.cooldownMinutes === 'number'
+          ? changes.cooldownMinutes
+          : undefined,
+      notifiers: Array.isArray(changes.notifiers) ? changes.notifiers : undefined,
+      enabled:
+        typeof changes.enabled === 'boolean' ? changes.enabled : undefined,
+    });
+    return alert ? Response.json(alert) : notFound(id);
+  } catch (error) {
+    if (error instanceof AlertRuleError) {
+      return Response.json(
+        { error: { message: error.message } },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(_req: Request, { params }: AlertRouteContext) {
+  const { id } = await params;
+  return (await deleteAlertRule(id))
+    ? new Response(null, { status: 204 })
+    : notFound(id);
+}
@@ -0,0 +1,55 @@
+import {
+  AlertRuleError,
+  createAlertRule,
+  listAlertRules,
+  type AlertRuleInput,
+} from '@/lib/alert-rules';
+import { rejectUnknownProject } from '@/lib/supabase-mcp';
+
+export async function GET() {
+  return Response.json({ alerts: await listAlertRules() });
+}
+
+export async function POST(req: Request) {
+  const input: Partial<AlertRuleInput> = await req.json();
+  if (
+    typeof input.name !== 'string' ||
+    typeof input.queryId !== 'string' ||
+    typeof input.condition !== 'object' ||
+    input.condition === null
+  ) {
+    return Response.json(
+      { error: { message: 'A name, saved query and condition are required.' } },
+      { status: 400 },
+    );
+  }
+  const unknownProject = rejectUnknownProject(input.project);
+  if (unknownProject) {
+    return unknownProject;
+  }
+
+  try {
+    const alert = await createAlertRule({
+      name: input.name,
+      queryId: input.queryId,
+      condition: input.condition,
+      project: typeof input.project === 'string' ? input.project : undefined,
+      cron: typeof input.cron === 'string' ? input.cron : undefined,
+      cooldownMinutes:
+        typeof input.cooldownMinutes === 'number'
+          ? input.cooldownMinutes
+          : undefined,
+      notifiers: Array.isArray(input.notifiers) ? input.notifiers : undefined,
+      enabled: input.enabled !== false,
+    });
+    return Response.json(alert, { status: 201 });
+  } catch (error) {
+    if (error instanceof AlertRuleError) {
+      return Response.json(
+        { error: { message: error.message } },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
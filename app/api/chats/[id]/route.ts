@@ -0,0 +1,59 @@
+import {
+  ChatStoreError,
+  deleteChat,
+  loadChat,
+  renameChat,
+  summarizeChat,
+} from '@/lib/chat-store';
+
+type ChatRouteContext = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) =>
+  Response.json(
+    { error: { message: `Chat "${id}" does not exist.` } },
+    { status: 404 },
+  );
+
+const withChatErrors = async (run: () => Promise<Response>) => {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof ChatStoreError) {
+      return Response.json(
+        { error: { message: error.message } },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+};
+
+export async function GET(_req: Request, { params }: ChatRouteContext) {
+  const { id } = await params;
+  return withChatErrors(async () => {
+    const chat = await loadChat(id);
+    return chat ? Response.json(chat) : notFound(id);
+  });
+}
+
+export async function PATCH(req: Request, { params }: ChatRouteContext) {
+  const { id } = await params;
+  const { title }: { title?: unknown } = await req.json();
+  if (typeof title !== 'string' || !title.trim()) {
+    return Response.json(
+      { error: { message: 'A title is required.' } },
+      { status: 400 },
+    );
+  }
+  return withChatErrors(async () => {
+    const chat = await renameChat(id, title);
+    return chat ? Response.json(summarizeChat(chat)) : notFound(id);
+  });
+}
+
+export async function DELETE(_req: Request, { params }: ChatRouteContext) {
+  const { id } = await params;
+  return withChatErrors(async () =>
+    (await deleteChat(id)) ? new Response(null, { status: 204 }) : notFound(id),
+  );
+}
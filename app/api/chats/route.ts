@@ -0,0 +1,7 @@
+import { listChats } from '@/lib/chat-store';
+
+// Lists stored chats for the history sidebar, optionally filtered by ?q=.
+export async function GET(req: Request) {
+  const query = new URL(req.url).searchParams.get('q') ?? undefined;
+  return Response.json({ chats: await listChats(query) });
+}
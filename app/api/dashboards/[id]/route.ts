@@ -0,0 +1,71 @@
+import {
+  DashboardError,
+  deleteDashboard,
+  loadDashboard,
+  TILE_WIDTHS,
+  updateDashboard,
+  type TileWidth,
+} from '@/lib/dashboards';
+
+type DashboardRouteContext = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) =>
+  Response.json(
+    { error: { message: `Dashboard "${id}" does not exist.` } },
+    { status: 404 },
+  );
+
+const isTileWidth = (value: unknown): value is TileWidth =>
+  TILE_WIDTHS.includes(value as TileWidth);
+
+export async function GET(_req: Request, { params }: DashboardRouteContext) {
+  const { id } = await params;
+  const dashboard = await loadDashboard(id);
+  return dashboard ? Response.json(dashboard) : notFound(id);
+}
+
+export async function PATCH(req: Request, { params }: DashboardRouteContext) {
+  const { id } = await params;
+  const {
+    name,
+    refreshIntervalSeconds,
+    layout,
+  }: { name?: unknown; refreshIntervalSeconds?: unknown; layout?: unknown } =
+    await req.json();
+  try {
+    const dashboard = await updateDashboard(id, {
+      name: typeof name === 'string' ? name : undefined,
+      refreshIntervalSeconds:
+        typeof refreshIntervalSeconds === 'number'
+          ? refreshIntervalSeconds
+          : undefined,
+      layout: Array.isArray(layout)
+        ? layout
+            .filter(
+              (entry): entry is { id: string; width?: unknown } =>
+                typeof entry?.id === 'string',
+            )
+            .map((entry) => ({
+              id: entry.id,
+              width: isTileWidth(entry.width) ? entry.width : undefined,
+            }))
+        : undefined,
+    });
+    return dashboard ? Response.json(dashboard) : notFound(id);
+  } catch (error) {
+    if (error instanceof DashboardError) {
+      return Response.json(
+        { error: { message: error.message } },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(_req: Request, { params }: DashboardRouteContext) {
+  const { id } = await params;
+  return (await deleteDashboard(id))
+    ? new Response(null, { status: 204 })
+    : notFound(id);
+}
@@ -0,0 +1,19 @@
+import { removeDashboardTile } from '@/lib/dashboards';
+
+type DashboardTileRouteContext = {
+  params: Promise<{ id: string; tileId: string }>;
+};
+
+export async function DELETE(
+  _req: Request,
+  { params }: DashboardTileRouteContext,
+) {
+  const { id, tileId } = await params;
+  const dashboard = await removeDashboardTile(id, tileId);
+  return dashboard
+    ? Response.json(dashboard)
+    : Response.json(
+        { error: { message: `Dashboard "${id}" does not exist.` } },
+        { status: 404 },
+      );
+}
@@ -0,0 +1,42 @@
+import { loadDashboard } from '@/lib/dashboards';
+import { executeSupabaseSql } from '@/lib/supabase-mcp';
+
+export const maxDuration = 30;
+
+type DashboardTileRouteContext = {
+  params: Promise<{ id: string; tileId: string }>;
+};
+
+// Re-runs a tile's stored SQL. Only the tile id comes from the client; the
+// SQL is the one saved when the tile was pinned.
+export async function POST(
+  _req: Request,
+  { params }: DashboardTileRouteContext,
+) {
+  const { id, tileId } = await params;
+  const tile = (await loadDashboard(id))?.tiles.find(
+    (entry) => entry.id === tileId,
+  );
+  if (!tile) {
+    return Response.json(
+      { error: { message: `Tile "${tileId}" is not on dashboard "${id}".` } },
+      { status: 404 },
+    );
+  }
+
+  const result = await executeSupabaseSql(tile.sql, { project: tile.project });
+  if (!result.ok) {
+    return Response.json(
+      { project: result.project, sql: result.sql, error: result.error },
+      { status: 422 },
+    );
+  }
+  return Response.json({
+    project: result.project,
+    sql: result.sql,
+    rows: result.rows,
+    columns: result.columns,
+    truncated: result.truncated,
+    ranAt: Date.now(),
+  });
+}
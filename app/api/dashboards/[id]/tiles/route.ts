@@ -0,0 +1,80 @@
+import {
+  DashboardError,
+  pinDashboardTile,
+  TILE_VIEWS,
+  TILE_WIDTHS,
+  type TileView,
+  type TileWidth,
+} from '@/lib/dashboards';
+import { CHART_TYPES, type ChartSpec } from '@/lib/result-chart';
+import { rejectUnknownProject } from '@/lib/supabase-mcp';
+
+type DashboardTilesRouteContext = { params: Promise<{ id: string }> };
+
+const isChartSpec = (value: unknown): value is ChartSpec =>
+  typeof value === 'object' &&
+  value !== null &&
+  CHART_TYPES.includes((value as ChartSpec).type) &&
+  Array.isArray((value as ChartSpec).y);
+
+// Pins a query result to the dashboard as a new tile.
+export async function POST(
+  req: Request,
+  { params }: DashboardTilesRouteContext,
+) {
+  const { id } = await params;
+  const {
+    title,
+    sql,
+    project,
+    view,
+    chart,
+    width,
+  }: {
+    title?: unknown;
+    sql?: unknown;
+    project?: unknown;
+    view?: unknown;
+    chart?: unknown;
+    width?: unknown;
+  } = await req.json();
+  if (typeof sql !== 'string' || typeof title !== 'string') {
+    return Response.json(
+      { error: { message: 'A title and SQL are required.' } },
+      { status: 400 },
+    );
+  }
+  const unknownProject = rejectUnknownProject(project);
+  if (unknownProject) {
+    return unknownProject;
+  }
+
+  try {
+    const dashboard = await pinDashboardTile(id, {
+      title,
+      sql,
+      project: typeof project === 'string' ? project : undefined,
+      view: TILE_VIEWS.includes(view as TileView)
+        ? (view as TileView)
+        : undefined,
+      chart: isChartSpec(chart) ? chart : undefined,
+      width: TILE_WIDTHS.includes(width as TileWidth)
+        ? (width as TileWidth)
+        : undefined,
+    });
+    return dashboard
+      ? Response.json(dashboard, { status: 201 })
+      : Response.json(
+          { error: { message: `Dashboard "${id}" does not exist.` } },
+          { status: 404 },
+        );
+  } catch (error) {
+    if (error instanceof DashboardError) {
+      return Response.json(
+        { error: { message: error.message } },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,27 @@
+import {
+  createDashboard,
+  DashboardError,
+  listDashboards,
+} from '@/lib/dashboards';
+
+export async function GET() {
+  return Response.json({ dashboards: await listDashboards() });
+}
+
+export async function POST(req: Request) {
+  const { name }: { name?: unknown } = await req.json();
+  try {
+    const dashboard = await createDashboard(
+      typeof name === 'string' ? name : '',
+    );
+    return Response.json(dashboard, { status: 201 });
+  } catch (error) {
+    if (error instanceof DashboardError) {
+      return Response.json(
+        { error: { message: error.message } },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,6 @@
+import { listSupabaseProjects } from '@/lib/supabase-mcp';
+
+// Lists the MCP servers in mcp.config.json for the project picker.
+export async function GET() {
+  return Response.json(listSupabaseProjects());
+}
@@ -0,0 +1,42 @@
+import {
+  deleteSavedQuery,
+  SavedQueryError,
+  updateSavedQuery,
+} from '@/lib/query-library';
+
+type SavedQueryRouteContext = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) =>
+  Response.json(
+    { error: { message: `Saved query "${id}" does not exist.` } },
+    { status: 404 },
+  );
+
+export async function PATCH(req: Request, { params }: SavedQueryRouteContext) {
+  const { id } = await params;
+  const { name, tags }: { name?: unknown; tags?: unknown } = await req.json();
+  try {
+    const query = await updateSavedQuery(id, {
+      name: typeof name === 'string' ? name : undefined,
+      tags: Array.isArray(tags)
+        ? tags.filter((tag): tag is string => typeof tag === 'string')
+        : undefined,
+    });
+    return query ? Response.json(query) : notFound(id);
+  } catch (error) {
+    if (error instanceof SavedQueryError) {
+      return Response.json(
+        { error: { message: error.message } },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(_req: Request, { params }: SavedQueryRouteContext) {
+  const { id } = await params;
+  return (await deleteSavedQuery(id))
+    ? new Response(null, { status: 204 })
+    : notFound(id);
+}
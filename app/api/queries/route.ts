@@ -0,0 +1,63 @@
+import {
+  createSavedQuery,
+  listSavedQueries,
+  SavedQueryError,
+} from '@/lib/query-library';
+import { rejectUnknownProject } from '@/lib/supabase-mcp';
+
+// Lists the saved query library, ranked by ?q= when given.
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const queries = await listSavedQueries({
+    search: searchParams.get('q') ?? undefined,
+    project: searchParams.get('project') ?? undefined,
+  });
+  return Response.json({ queries });
+}
+
+export async function POST(req: Request) {
+  const {
+    name,
+    sql,
+    question,
+    project,
+    tags,
+  }: {
+    name?: unknown;
+    sql?: unknown;
+    question?: unknown;
+    project?: unknown;
+    tags?: unknown;
+  } = await req.json();
+  if (typeof sql !== 'string' || typeof name !== 'string') {
+    return Response.json(
+      { error: { message: 'A name and SQL are required.' } },
+      { status: 400 },
+    );
+  }
+  const unknownProject = rejectUnknownProject(project);
+  if (unknownProject) {
+    return unknownProject;
+  }
+
+  try {
+    const query = await createSavedQuery({
+      name,
+      sql,
+      question: typeof question === 'string' ? question : undefined,
+      project: typeof project === 'string' ? project : undefined,
+      tags: Array.isArray(tags)
+        ? tags.filter((tag): tag is string => typeof tag === 'string')
+        : undefined,
+    });
+    return Response.json(query, { status: 201 });
+  } catch (error) {
+    if (error instanceof SavedQueryError) {
+      return Response.json(
+        { error: { message: error.message } },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
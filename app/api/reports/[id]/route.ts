@@ -0,0 +1,70 @@
+import {
+  deleteReportSchedule,
+  listReportSnapshots,
+  loadReportSchedule,
+  ReportScheduleError,
+  updateReportSchedule,
+  type ReportScheduleChanges,
+} from '@/lib/report-schedules';
+import { rejectUnknownProject } from '@/lib/supabase-mcp';
+
+type ReportRouteContext = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) =>
+  Response.json(
+    { error: { message: `Report "${id}" does not exist.` } },
+    { status: 404 },
+  );
+
+// Returns the report with its most recent snapshots (without their rows).
+export async function GET(_req: Request, { params }: ReportRouteContext) {
+  const { id } = await params;
+  const report = await loadReportSchedule(id);
+  if (!report) {
+    return notFound(id);
+  }
+  return Response.json({ report, snapshots: await listReportSnapshots(id) });
+}
+
+export async function PATCH(req: Request, { params }: ReportRouteContext) {
+  const { id } = await params;
+  const changes: ReportScheduleChanges = await req.json();
+  const unknownProject = rejectUnknownProject(changes.project);
+  if (unknownProject) {
+    return unknownProject;
+  }
+
+  try {
+    const report = await updateReportSchedule(id, {
+      name: typeof changes.name === 'string' ? changes.name : undefined,
+      cron: typeof changes.cron === 'string' ? changes.cron : undefined,
+      target:
+        typeof changes.target === 'object' && changes.target !== null
+          ? changes.target
+          : undefined,
+      project:
+        typeof changes.project === 'string' || changes.project === null
+          ? changes.project
+          : undefined,
+      notifiers: Array.isArray(changes.notifiers) ? changes.notifiers : undefined,
+      enabled:
+        typeof changes.enabled === 'boolean' ? changes.enabled : undefined,
+    });
+    return report ? Response.json(report) : notFound(id);
+  } catch (error) {
+    if (error instanceof ReportScheduleError) {
+      return Response.json(
+        { error: { message: error.message } },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(_req: Request, { params }: ReportRouteContext) {
+  const { id } = await params;
+  return (await deleteReportSchedule(id))
+    ? new Response(null, { status: 204 })
+    : notFound(id);
+}
@@ -0,0 +1,24 @@
+import {
+  loadReportSchedule,
+  summarizeReportSnapshot,
+} from '@/lib/report-schedules';
+import { runReportSchedule } from '@/lib/report-scheduler';
+
+// Prompt reports go through the whole agent, which can take a while.
+export const maxDuration = 60;
+
+type ReportRouteContext = { params: Promise<{ id: string }> };
+
+// Runs a report now, outside its schedule, and delivers it like a scheduled run.
+export async function POST(_req: Request, { params }: ReportRouteContext) {
+  const { id } = await params;
+  const report = await loadReportSchedule(id);
+  if (!report) {
+    return Response.json(
+      { error: { message: `Report "${id}" does not exist.` } },
+      { status: 404 },
+    );
+  }
+  const snapshot = await runReportSchedule(report);
+  return Response.json(summarizeReportSnapshot(snapshot));
+}
@@ -0,0 +1,32 @@
+import {
+  loadReportSnapshot,
+  ReportScheduleError,
+} from '@/lib/report-schedules';
+
+type ReportSnapshotRouteContext = {
+  params: Promise<{ id: string; snapshotId: string }>;
+};
+
+export async function GET(
+  _req: Request,
+  { params }: ReportSnapshotRouteContext,
+) {
+  const { id, snapshotId } = await params;
+  try {
+    const snapshot = await loadReportSnapshot(id, snapshotId);
+    return snapshot
+      ? Response.json(snapshot)
+      : Response.json(
+          { error: { message: `Snapshot "${snapshotId}" does not exist.` } },
+          { status: 404 },
+        );
+  } catch (error) {
+    if (error instanceof ReportScheduleError) {
+      return Response.json(
+        { error: { message: error.message } },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
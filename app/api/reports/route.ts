@@ -0,0 +1,50 @@
+import {
+  createReportSchedule,
+  listReportSchedules,
+  ReportScheduleError,
+  type ReportScheduleInput,
+} from '@/lib/report-schedules';
+import { rejectUnknownProject } from '@/lib/supabase-mcp';
+
+export async function GET() {
+  return Response.json({ reports: await listReportSchedules() });
+}
+
+export async function POST(req: Request) {
+  const input: Partial<ReportScheduleInput> = await req.json();
+  if (
+    typeof input.name !== 'string' ||
+    typeof input.cron !== 'string' ||
+    typeof input.target !== 'object' ||
+    input.target === null
+  ) {
+    return Response.json(
+      { error: { message: 'A name, cron expression and target are required.' } },
+      { status: 400 },
+    );
+  }
+  const unknownProject = rejectUnknownProject(input.project);
+  if (unknownProject) {
+    return unknownProject;
+  }
+
+  try {
+    const report = await createReportSchedule({
+      name: input.name,
+      cron: input.cron,
+      target: input.target,
+      project: typeof input.project === 'string' ? input.project : undefined,
+      notifiers: Array.isArray(input.notifiers) ? input.notifiers : undefined,
+      enabled: input.enabled !== false,
+    });
+    return Response.json(report, { status: 201 });
+  } catch (error) {
+    if (error instanceof ReportScheduleError) {
+      return Response.json(
+        { error: { message: error.message } },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,25 @@
+import { getSupabaseSchema, rejectUnknownProject } from '@/lib/supabase-mcp';
+
+export const maxDuration = 30;
+
+// Drops the cached schema snapshot and introspects the database again.
+export async function POST(req: Request) {
+  const { project }: { project?: unknown } = await req
+    .json()
+    .catch(() => ({}));
+  const unknownProject = rejectUnknownProject(project);
+  if (unknownProject) {
+    return unknownProject;
+  }
+
+  const snapshot = await getSupabaseSchema({
+    project: typeof project === 'string' ? project : undefined,
+    refresh: true,
+  });
+  return Response.json({
+    schemas: snapshot.schemas,
+    tables: snapshot.tables.length,
+    views: snapshot.views.length,
+    materializedViews: snapshot.materializedViews.length,
+  });
+}
@@ -0,0 +1,16 @@
+import { outlineSchemaSnapshot } from '@/lib/schema-snapshot';
+import { getSupabaseSchema, rejectUnknownProject } from '@/lib/supabase-mcp';
+
+export const maxDuration = 30;
+
+// Lists the project's relations and columns for SQL autocompletion.
+export async function GET(req: Request) {
+  const project = new URL(req.url).searchParams.get('project') ?? undefined;
+  const unknownProject = rejectUnknownProject(project);
+  if (unknownProject) {
+    return unknownProject;
+  }
+
+  const snapshot = await getSupabaseSchema({ project });
+  return Response.json(outlineSchemaSnapshot(snapshot));
+}
@@ -0,0 +1,32 @@
+import { explainSupabaseSql, rejectUnknownProject } from '@/lib/supabase-mcp';
+
+export const maxDuration = 30;
+
+// Returns the estimated query plan for a supabaseSql result without running it.
+export async function POST(req: Request) {
+  const { sql, project }: { sql?: unknown; project?: unknown } =
+    await req.json();
+  if (typeof sql !== 'string' || !sql.trim()) {
+    return Response.json(
+      { error: { message: 'SQL is required.' } },
+      { status: 400 },
+    );
+  }
+
+  const unknownProject = rejectUnknownProject(project);
+  if (unknownProject) {
+    return unknownProject;
+  }
+
+  const result = await explainSupabaseSql(
+    sql,
+    typeof project === 'string' ? project : undefined,
+  );
+  if (!result.ok) {
+    return Response.json(
+      { sql: result.sql, error: result.error },
+      { status: 422 },
+    );
+  }
+  return Response.json({ sql: result.sql, plan: result.plan });
+}
@@ -0,0 +1,88 @@
+import {
+  buildExportFileName,
+  createResultExporter,
+  EXPORT_FORMAT_DETAILS,
+  isExportFormat,
+  type ResultExporter,
+} from '@/lib/result-export';
+import { exportSupabaseSql, rejectUnknownProject } from '@/lib/supabase-mcp';
+
+export const maxDuration = 300;
+
+// The export menu posts a plain form so the browser can stream the download
+// to disk; JSON bodies are accepted as well.
+const readExportRequest = async (
+  req: Request,
+): Promise<{ sql?: unknown; project?: unknown; format?: unknown }> =>
+  req.headers.get('content-type')?.includes('application/json')
+    ? await req.json()
+    : Object.fromEntries(await req.formData());
+
+// Re-runs a supabaseSql query without the row cap and streams the whole
+// result back as a file download.
+export async function POST(req: Request) {
+  const { sql, project, format } = await readExportRequest(req);
+  if (typeof sql !== 'string' || !sql.trim()) {
+    return Response.json(
+      { error: { message: 'SQL is required.' } },
+      { status: 400 },
+    );
+  }
+  if (!isExportFormat(format)) {
+    return Response.json(
+      { error: { message: 'Unsupported export format.' } },
+      { status: 400 },
+    );
+  }
+
+  const unknownProject = rejectUnknownProject(project);
+  if (unknownProject) {
+    return unknownProject;
+  }
+
+  const result = await exportSupabaseSql(
+    sql,
+    typeof project === 'string' ? project : undefined,
+  );
+  if (!result.ok) {
+    return Response.json(
+      { sql: result.sql, error: result.error },
+      { status: 422 },
+    );
+  }
+
+  let exporter: ResultExporter;
+  // Batches are pulled one at a time, so a slow download also slows down the
+  // queries instead of buffering the result in memory.
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      exporter = createResultExporter(format, result.columns, (chunk) =>
+        controller.enqueue(chunk),
+      );
+    },
+    async pull(controller) {
+      try {
+        const next = await result.batches.next();
+        if (next.done) {
+          await exporter.finish();
+          controller.close();
+          return;
+        }
+        await exporter.write(next.value);
+      } catch (error) {
+        console.error('SQL export failed:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await result.batches.return(undefined);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': EXPORT_FORMAT_DETAILS[format].contentType,
+      'Content-Disposition': `attachment; filename="${buildExportFileName(format)}"`,
+    },
+  });
+}
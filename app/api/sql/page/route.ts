@@ -0,0 +1,42 @@
+import { fetchSupabaseSqlPage } from '@/lib/supabase-mcp';
+import { SqlCursorError } from '@/lib/sql-cursor';
+
+export const maxDuration = 30;
+
+// Fetches the next page of a supabaseSql result straight from the client,
+// without a round-trip through the model.
+export async function POST(req: Request) {
+  const { cursor }: { cursor?: unknown } = await req.json();
+  if (typeof cursor !== 'string' || !cursor) {
+    return Response.json(
+      { error: { message: 'A pagination cursor is required.' } },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await fetchSupabaseSqlPage(cursor);
+    if (!result.ok) {
+      return Response.json(
+        { sql: result.sql, error: result.error },
+        { status: 422 },
+      );
+    }
+    return Response.json({
+      sql: result.sql,
+      rows: result.rows,
+      columns: result.columns,
+      truncated: result.truncated,
+      offset: result.offset,
+      nextCursor: result.nextCursor,
+    });
+  } catch (error) {
+    if (error instanceof SqlCursorError) {
+      return Response.json(
+        { error: { message: error.message } },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,45 @@
+import { executeSupabaseSql, rejectUnknownProject } from '@/lib/supabase-mcp';
+
+export const maxDuration = 30;
+
+// Runs SQL edited by the user in a result card. It goes through the same
+// validator, row cap and cost guard as the supabaseSql tool.
+export async function POST(req: Request) {
+  const {
+    sql,
+    project,
+    confirmed,
+  }: { sql?: unknown; project?: unknown; confirmed?: unknown } =
+    await req.json();
+  if (typeof sql !== 'string' || !sql.trim()) {
+    return Response.json(
+      { error: { message: 'SQL is required.' } },
+      { status: 400 },
+    );
+  }
+
+  const unknownProject = rejectUnknownProject(project);
+  if (unknownProject) {
+    return unknownProject;
+  }
+
+  const result = await executeSupabaseSql(sql, {
+    project: typeof project === 'string' ? project : undefined,
+    confirmed: confirmed === true,
+  });
+  if (!result.ok) {
+    return Response.json(
+      { project: result.project, sql: result.sql, error: result.error },
+      { status: 422 },
+    );
+  }
+  return Response.json({
+    project: result.project,
+    sql: result.sql,
+    sourceSql: result.sourceSql,
+    rows: result.rows,
+    columns: result.columns,
+    truncated: result.truncated,
+    nextCursor: result.nextCursor,
+  });
+}
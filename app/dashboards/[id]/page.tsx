@@ -0,0 +1,231 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { ArrowLeftIcon, RefreshCwIcon, Trash2Icon } from 'lucide-react';
+import { DashboardTile } from '@/components/ai-elements/dashboard-tile';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { Dashboard } from '@/lib/dashboards';
+import type { SupabaseProject } from '@/lib/supabase-mcp';
+
+const REFRESH_INTERVALS = [
+  { label: 'Refresh on load', seconds: 0 },
+  { label: 'Every minute', seconds: 60 },
+  { label: 'Every 5 minutes', seconds: 300 },
+  { label: 'Every 15 minutes', seconds: 900 },
+  { label: 'Every hour', seconds: 3600 },
+];
+
+const DashboardPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const [dashboard, setDashboard] = useState<Dashboard | undefined>();
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | undefined>();
+  const [projects, setProjects] = useState<SupabaseProject[]>([]);
+  // Bumping the token makes every tile re-run its query.
+  const [refreshToken, setRefreshToken] = useState(0);
+
+  useEffect(() => {
+    fetch(`/api/dashboards/${encodeURIComponent(id)}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(
+            response.status === 404
+              ? 'This dashboard does not exist.'
+              : `Request failed with status ${response.status}.`,
+          );
+        }
+        const loaded: Dashboard = await response.json();
+        setDashboard(loaded);
+        setName(loaded.name);
+      })
+      .catch((loadError) => {
+        setError(loadError instanceof Error ? loadError.message : String(loadError));
+      });
+    fetch('/api/projects')
+      .then((response) => response.json())
+      .then((payload: { projects: SupabaseProject[] }) => {
+        setProjects(payload.projects);
+      })
+      .catch((loadError) => {
+        console.error('Unable to load Supabase projects:', loadError);
+      });
+  }, [id]);
+
+  const refreshIntervalSeconds = dashboard?.refreshIntervalSeconds;
+  useEffect(() => {
+    if (!refreshIntervalSeconds) {
+      return;
+    }
+    const timer = setInterval(
+      () => setRefreshToken((token) => token + 1),
+      refreshIntervalSeconds * 1000,
+    );
+    return () => clearInterval(timer);
+  }, [refreshIntervalSeconds]);
+
+  const update = async (changes: Record<string, unknown>) => {
+    const response = await fetch(`/api/dashboards/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+    const payload = await response.json();
+    if (!response.ok) {
+      setError(
+        payload?.error?.message ?? `Request failed with status ${response.status}.`,
+      );
+      return;
+    }
+    setDashboard(payload as Dashboard);
+    setError(undefined);
+  };
+
+  const arrange = (tiles: Dashboard['tiles']) => {
+    // Shown right away; the stored layout follows.
+    setDashboard((current) => (current ? { ...current, tiles } : current));
+    void update({
+      layout: tiles.map((tile) => ({ id: tile.id, width: tile.width })),
+    });
+  };
+
+  const removeTile = async (tileId: string) => {
+    const response = await fetch(
+      `/api/dashboards/${encodeURIComponent(id)}/tiles/${encodeURIComponent(tileId)}`,
+      { method: 'DELETE' },
+    );
+    if (response.ok) {
+      setDashboard(await response.json());
+    }
+  };
+
+  const deleteDashboard = async () => {
+    if (!window.confirm(`Delete the dashboard "${dashboard?.name}"?`)) {
+      return;
+    }
+    const response = await fetch(`/api/dashboards/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    });
+    if (response.ok || response.status === 404) {
+      router.push('/dashboards');
+    }
+  };
+
+  if (!dashboard) {
+    return (
+      <div className="max-w-6xl mx-auto p-6 text-sm text-muted-foreground">
+        {error ?? 'Loading dashboard…'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button asChild size="icon" variant="ghost">
+          <Link aria-label="All dashboards" href="/dashboards">
+            <ArrowLeftIcon />
+          </Link>
+        </Button>
+        <Input
+          aria-label="Dashboard name"
+          className="max-w-sm border-transparent font-semibold text-lg shadow-none hover:border-input"
+          onBlur={() => {
+            if (name.trim() && name !== dashboard.name) {
+              void update({ name });
+            } else {
+              setName(dashboard.name);
+            }
+          }}
+          onChange={(event) => setName(event.target.value)}
+          value={name}
+        />
+        <div className="ml-auto flex items-center gap-2">
+          <Select
+            onValueChange={(value) =>
+              update({ refreshIntervalSeconds: Number(value) })
+            }
+            value={String(dashboard.refreshIntervalSeconds ?? 0)}
+          >
+            <SelectTrigger size="sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REFRESH_INTERVALS.map((interval) => (
+                <SelectItem key={interval.seconds} value={String(interval.seconds)}>
+                  {interval.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => setRefreshToken((token) => token + 1)}
+            size="sm"
+            variant="outline"
+          >
+            <RefreshCwIcon />
+            Refresh all
+          </Button>
+          <Button
+            aria-label="Delete dashboard"
+            onClick={deleteDashboard}
+            size="icon-sm"
+            variant="ghost"
+          >
+            <Trash2Icon />
+          </Button>
+        </div>
+      </div>
+      {error ? <p className="text-destructive text-sm">{error}</p> : null}
+      {dashboard.tiles.length === 0 ? (
+        <p className="text-muted-foreground text-sm">
+          No tiles yet. Pin a table or chart from a chat answer to add one.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+          {dashboard.tiles.map((tile, index) => (
+            <DashboardTile
+              dashboardId={dashboard.id}
+              key={tile.id}
+              onMove={(offset) => {
+                const target = index + offset;
+                if (target < 0 || target >= dashboard.tiles.length) {
+                  return;
+                }
+                const tiles = [...dashboard.tiles];
+                [tiles[index], tiles[target]] = [tiles[target], tiles[index]];
+                arrange(tiles);
+              }}
+              onRemove={() => removeTile(tile.id)}
+              onToggleWidth={() =>
+                arrange(
+                  dashboard.tiles.map((entry) =>
+                    entry.id === tile.id
+                      ? { ...entry, width: entry.width === 2 ? 1 : 2 }
+                      : entry,
+                  ),
+                )
+              }
+              projectLabel={
+                projects.find((entry) => entry.name === tile.project)?.label
+              }
+              refreshToken={refreshToken}
+              tile={tile}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DashboardPage;
@@ -0,0 +1,102 @@
+'use client';
+import { useEffect, useState, type FormEvent } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { LayoutDashboardIcon, MessageSquareIcon, PlusIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { Dashboard, DashboardSummary } from '@/lib/dashboards';
+
+const updatedFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+const DashboardsPage = () => {
+  const router = useRouter();
+  const [dashboards, setDashboards] = useState<DashboardSummary[]>([]);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | undefined>();
+
+  useEffect(() => {
+    fetch('/api/dashboards')
+      .then((response) => response.json())
+      .then((payload: { dashboards: DashboardSummary[] }) => {
+        setDashboards(payload.dashboards);
+      })
+      .catch((loadError) => {
+        console.error('Unable to load dashboards:', loadError);
+        setError('Dashboards could not be loaded.');
+      });
+  }, []);
+
+  const create = async (event: FormEvent) => {
+    event.preventDefault();
+    const response = await fetch('/api/dashboards', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    });
+    if (!response.ok) {
+      setError(`Request failed with status ${response.status}.`);
+      return;
+    }
+    const dashboard: Dashboard = await response.json();
+    router.push(`/dashboards/${dashboard.id}`);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="font-semibold text-xl">Dashboards</h1>
+        <Button asChild variant="ghost">
+          <Link href="/">
+            <MessageSquareIcon />
+            Back to chat
+          </Link>
+        </Button>
+      </div>
+      <form className="flex gap-2" onSubmit={create}>
+        <Input
+          aria-label="Dashboard name"
+          onChange={(event) => setName(event.target.value)}
+          placeholder="New dashboard name"
+          value={name}
+        />
+        <Button disabled={!name.trim()} type="submit">
+          <PlusIcon />
+          Create
+        </Button>
+      </form>
+      {error ? <p className="text-destructive text-sm">{error}</p> : null}
+      {dashboards.length === 0 ? (
+        <p className="text-muted-foreground text-sm">
+          Pin a query result from the chat to start a dashboard.
+        </p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {dashboards.map((dashboard) => (
+            <li key={dashboard.id}>
+              <Link
+                className="flex items-center gap-3 p-3 hover:bg-muted"
+                href={`/dashboards/${dashboard.id}`}
+              >
+                <LayoutDashboardIcon className="size-4 text-muted-foreground" />
+                <span className="flex-1 font-medium text-sm">
+                  {dashboard.name}
+                </span>
+                <span className="text-muted-foreground text-xs">
+                  {dashboard.tileCount}{' '}
+                  {dashboard.tileCount === 1 ? 'tile' : 'tiles'} · updated{' '}
+                  {updatedFormatter.format(dashboard.updatedAt)}
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DashboardsPage;
@@ -33,9 +33,19 @@ import {
   PromptInputFooter,
   PromptInputTools,
 } from '@/components/ai-elements/prompt-input';
-import { Fragment, useState } from 'react';
+import { Fragment, useEffect, useState } from 'react';
+import Link from 'next/link';
 import { useChat } from '@ai-sdk/react';
-import { CopyIcon, GlobeIcon, RefreshCcwIcon } from 'lucide-react';
+import {
+  BellIcon,
+  BookmarkIcon,
+  CalendarClockIcon,
+  CopyIcon,
+  DatabaseIcon,
+  GlobeIcon,
+  LayoutDashboardIcon,
+  RefreshCcwIcon,
+} from 'lucide-react';
 import {
   Source,
   Sources,
@@ -56,7 +66,20 @@ import {
   ToolOutput,
 } from '@/components/ai-elements/tool';
 import { SupabaseSqlResult } from '@/components/ai-elements/supabase-sql-result';
-import { isToolOrDynamicToolUIPart } from 'ai';
+import { ChatHistory } from '@/components/ai-elements/chat-history';
+import { QueryLibrary } from '@/components/ai-elements/query-library';
+import { Button } from '@/components/ui/button';
+import {
+  DefaultChatTransport,
+  generateId,
+  isToolOrDynamicToolUIPart,
+  type UIMessage,
+} from 'ai';
+import type { SqlExecutionError } from '@/lib/sql-errors';
+import type { SupabaseProject } from '@/lib/supabase-mcp';
+import type { ResultColumn } from '@/lib/result-columns';
+import type { ChartSpec } from '@/lib/result-chart';
+import type { StoredChat } from '@/lib/chat-store';
 const models = [
   {
     name: 'GPT 5 Nano',
@@ -67,10 +90,109 @@ const models = [
     value: 'openai/gpt-4o',
   }
 ];
+// Tools whose output is rendered as a query result table or chart.
+const SQL_RESULT_TOOLS = new Set([
+  'supabaseSql',
+  'supabaseMetric',
+  'supabaseChart',
+]);
+// The server keeps the conversation, so only the newest message is sent.
+const chatTransport = new DefaultChatTransport({
+  api: '/api/chat',
+  prepareSendMessagesRequest: ({ id, messages, body }) => ({
+    body: { ...body, id, message: messages.at(-1) },
+  }),
+});
+const messageText = (message: UIMessage | undefined) =>
+  message?.parts
+    .map((part) => (part.type === 'text' ? part.text : ''))
+    .join(' ')
+    .trim();
+const showChatInUrl = (id: string | undefined) => {
+  const url = new URL(window.location.href);
+  if (id) {
+    url.searchParams.set('chat', id);
+  } else {
+    url.searchParams.delete('chat');
+  }
+  window.history.replaceState(null, '', url);
+};
 const ChatBot = () => {
   const [input, setInput] = useState('');
   const [model, setModel] = useState<string>(models[0].value);
-  const { messages, sendMessage, status, regenerate } = useChat();
+  const [projects, setProjects] = useState<SupabaseProject[]>([]);
+  const [project, setProject] = useState<string | undefined>();
+  const [schemaStatus, setSchemaStatus] = useState<
+    'idle' | 'refreshing' | 'refreshed' | 'error'
+  >('idle');
+  const [chatId, setChatId] = useState(() => generateId());
+  const [initialMessages, setInitialMessages] = useState<UIMessage[]>([]);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const { messages, sendMessage, status, regenerate } = useChat({
+    id: chatId,
+    messages: initialMessages,
+    transport: chatTransport,
+    onFinish: () => {
+      showChatInUrl(chatId);
+      setHistoryVersion((version) => version + 1);
+    },
+  });
+  const selectChat = async (id: string) => {
+    try {
+      const response = await fetch(`/api/chats/${encodeURIComponent(id)}`);
+      if (!response.ok) {
+        throw new Error(`Chat ${id} could not be loaded (${response.status}).`);
+      }
+      const chat: StoredChat = await response.json();
+      setInitialMessages(chat.messages);
+      setChatId(chat.id);
+      if (chat.project) {
+        setProject(chat.project);
+      }
+      showChatInUrl(chat.id);
+    } catch (error) {
+      console.error('Unable to load the chat:', error);
+    }
+  };
+  const startNewChat = () => {
+    setInitialMessages([]);
+    setChatId(generateId());
+    setInput('');
+    showChatInUrl(undefined);
+  };
+  useEffect(() => {
+    const id = new URL(window.location.href).searchParams.get('chat');
+    if (id) {
+      void selectChat(id);
+    }
+    // Only the chat in the URL at load time is restored.
+  }, []);
+  useEffect(() => {
+    fetch('/api/projects')
+      .then((response) => response.json())
+      .then(
+        (payload: { projects: SupabaseProject[]; defaultProject: string }) => {
+          setProjects(payload.projects);
+          setProject((current) => current ?? payload.defaultProject);
+        },
+      )
+      .catch((error) => {
+        console.error('Unable to load Supabase projects:', error);
+      });
+  }, []);
+  const refreshSchema = async () => {
+    setSchemaStatus('refreshing');
+    try {
+      const response = await fetch('/api/schema/refresh', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ project }),
+      });
+      setSchemaStatus(response.ok ? 'refreshed' : 'error');
+    } catch {
+      setSchemaStatus('error');
+    }
+  };
   const handleSubmit = (message: PromptInputMessage) => {
     const hasText = Boolean(message.text);
     const hasAttachments = Boolean(message.files?.length);
@@ -85,17 +207,49 @@ const ChatBot = () => {
       {
         body: {
           model: model,
+          project: project,
         },
       },
     );
     setInput('');
   };
   return (
-    <div className="max-w-4xl mx-auto p-6 relative size-full h-screen">
-      <div className="flex flex-col h-full">
+    <div className="flex size-full h-screen">
+      <ChatHistory
+        activeChatId={chatId}
+        className="hidden w-64 shrink-0 border-r p-4 md:flex"
+        onDelete={(id) => {
+          if (id === chatId) {
+            startNewChat();
+          }
+        }}
+        onNewChat={startNewChat}
+        onSelect={selectChat}
+        refreshKey={historyVersion}
+      >
+        <Button asChild className="justify-start" variant="ghost">
+          <Link href="/dashboards">
+            <LayoutDashboardIcon />
+            Dashboards
+          </Link>
+        </Button>
+        <Button asChild className="justify-start" variant="ghost">
+          <Link href="/reports">
+            <CalendarClockIcon />
+            Reports
+          </Link>
+        </Button>
+        <Button asChild className="justify-start" variant="ghost">
+          <Link href="/alerts">
+            <BellIcon />
+            Alerts
+          </Link>
+        </Button>
+      </ChatHistory>
+      <div className="max-w-4xl mx-auto p-6 relative size-full flex flex-col h-full">
         <Conversation className="h-full">
           <ConversationContent>
-            {messages.map((message) => (
+            {messages.map((message, messageIndex) => (
               <div key={message.id}>
                 {message.role === 'assistant' && message.parts.filter((part) => part.type === 'source-url').length > 0 && (
                   <Sources>
@@ -124,12 +278,22 @@ const ChatBot = () => {
                         ? part.toolName
                         : part.type.replace(/^tool-/, '');
 
-                    if (toolName === 'supabaseSql') {
+                    if (SQL_RESULT_TOOLS.has(toolName)) {
                       const supabaseOutput =
                         part.output &&
                         typeof part.output === 'object' &&
                         !Array.isArray(part.output)
-                          ? (part.output as { sql?: unknown; rows?: unknown })
+                          ? (part.output as {
+                              project?: string;
+                              sql?: unknown;
+                              sourceSql?: unknown;
+                              rows?: unknown;
+                              columns?: ResultColumn[];
+                              truncated?: boolean;
+                              nextCursor?: string;
+                              error?: SqlExecutionError;
+                              chart?: ChartSpec;
+                            })
                           : undefined;
 
                       if (
@@ -143,6 +307,44 @@ const ChatBot = () => {
                             : undefined;
                         const rows = supabaseOutput.rows;
 
+                        if (supabaseOutput.error) {
+                          // The model repairs failed queries on its own; only
+                          // surface the error once no retry follows it.
+                          const isRetried = message.parts
+                            .slice(i + 1)
+                            .some(
+                              (nextPart) =>
+                                isToolOrDynamicToolUIPart(nextPart) &&
+                                SQL_RESULT_TOOLS.has(
+                                  nextPart.type === 'dynamic-tool'
+                                    ? nextPart.toolName
+                                    : nextPart.type.replace(/^tool-/, ''),
+                                ),
+                            );
+                          const isRepairing =
+                            status === 'streaming' &&
+                            message.id === messages.at(-1)?.id;
+
+                          if (isRetried) {
+                            return null;
+                          }
+                          if (isRepairing) {
+                            return (
+                              <Message
+                                key={`${message.id}-${i}`}
+                                className="max-w-full"
+                                from={message.role}
+                              >
+                                <MessageContent>
+                                  <MessageResponse>
+                                    Fixing the query…
+                                  </MessageResponse>
+                                </MessageContent>
+                              </Message>
+                            );
+                          }
+                        }
+
                         return (
                           <Message
                             key={`${message.id}-${i}`}
@@ -150,7 +352,37 @@ const ChatBot = () => {
                             from={message.role}
                           >
                             <MessageContent className="w-full max-w-full">
-                              <SupabaseSqlResult sql={sql} rows={rows} />
+                              <SupabaseSqlResult
+                                project={supabaseOutput.project}
+                                projectLabel={
+                                  projects.find(
+                                    (entry) =>
+                                      entry.name === supabaseOutput.project,
+                                  )?.label
+                                }
+                                sql={sql}
+                                sourceSql={
+                                  typeof supabaseOutput.sourceSql === 'string'
+                                    ? supabaseOutput.sourceSql
+                                    : undefined
+                                }
+                                rows={rows}
+                                columns={supabaseOutput.columns}
+                                truncated={supabaseOutput.truncated === true}
+                                nextCursor={
+                                  typeof supabaseOutput.nextCursor === 'string'
+                                    ? supabaseOutput.nextCursor
+                                    : undefined
+                                }
+                                error={supabaseOutput.error}
+                                chart={supabaseOutput.chart}
+                                question={messageText(
+                                  messages
+                                    .slice(0, messageIndex)
+                                    .findLast((entry) => entry.role === 'user'),
+                                )}
+                                viewKey={part.toolCallId}
+                              />
                             </MessageContent>
                           </Message>
                         );
@@ -209,7 +441,9 @@ const ChatBot = () => {
                           {message.role === 'assistant' && i === messages.length - 1 && (
                             <MessageActions>
                               <MessageAction
-                                onClick={() => regenerate()}
+                                onClick={() =>
+                                  regenerate({ body: { model, project } })
+                                }
                                 label="Retry"
                               >
                                 <RefreshCcwIcon className="size-3" />
@@ -284,6 +518,59 @@ const ChatBot = () => {
                   ))}
                 </PromptInputSelectContent>
               </PromptInputSelect>
+              {projects.length > 0 && project ? (
+                <PromptInputSelect
+                  onValueChange={(value) => {
+                    setProject(value);
+                    setSchemaStatus('idle');
+                  }}
+                  value={project}
+                >
+                  <PromptInputSelectTrigger>
+                    <PromptInputSelectValue />
+                  </PromptInputSelectTrigger>
+                  <PromptInputSelectContent>
+                    {projects.map((entry) => (
+                      <PromptInputSelectItem key={entry.name} value={entry.name}>
+                        {entry.label}
+                      </PromptInputSelectItem>
+                    ))}
+                  </PromptInputSelectContent>
+                </PromptInputSelect>
+              ) : null}
+              <PromptInputButton
+                disabled={schemaStatus === 'refreshing'}
+                onClick={refreshSchema}
+                title={
+                  schemaStatus === 'error'
+                    ? 'Could not refresh the schema'
+                    : schemaStatus === 'refreshed'
+                      ? 'Schema refreshed'
+                      : 'Reload tables and columns from Supabase'
+                }
+              >
+                <DatabaseIcon
+                  className={
+                    schemaStatus === 'refreshing' ? 'animate-pulse' : undefined
+                  }
+                />
+                <span>
+                  {schemaStatus === 'refreshing'
+                    ? 'Refreshing schema...'
+                    : 'Refresh schema'}
+                </span>
+              </PromptInputButton>
+              <QueryLibrary
+                project={project}
+                projectLabels={Object.fromEntries(
+                  projects.map((entry) => [entry.name, entry.label]),
+                )}
+              >
+                <PromptInputButton title="Browse and re-run saved queries">
+                  <BookmarkIcon />
+                  <span>Saved queries</span>
+                </PromptInputButton>
+              </QueryLibrary>
             </PromptInputTools>
             <PromptInputSubmit disabled={!input && !status} status={status} />
           </PromptInputFooter>
@@ -0,0 +1,270 @@
+'use client';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import {
+  ArrowLeftIcon,
+  PauseIcon,
+  PlayIcon,
+  SendIcon,
+  Trash2Icon,
+} from 'lucide-react';
+import { ResultTable } from '@/components/ai-elements/result-table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type {
+  ReportSchedule,
+  ReportSnapshot,
+  ReportSnapshotSummary,
+} from '@/lib/report-schedules';
+import { formatSqlExecutionError } from '@/lib/sql-errors';
+
+const runFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+const describeTarget = (report: ReportSchedule) =>
+  report.target.kind === 'saved-query'
+    ? 'Re-runs a saved query'
+    : `Asks: “${report.target.prompt}”`;
+
+const ReportPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const [report, setReport] = useState<ReportSchedule | undefined>();
+  const [snapshots, setSnapshots] = useState<ReportSnapshotSummary[]>([]);
+  const [snapshot, setSnapshot] = useState<ReportSnapshot | undefined>();
+  const [cron, setCron] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+
+  const load = useCallback(async () => {
+    const response = await fetch(`/api/reports/${encodeURIComponent(id)}`);
+    if (!response.ok) {
+      throw new Error(
+        response.status === 404
+          ? 'This report does not exist.'
+          : `Request failed with status ${response.status}.`,
+      );
+    }
+    const payload: {
+      report: ReportSchedule;
+      snapshots: ReportSnapshotSummary[];
+    } = await response.json();
+    setReport(payload.report);
+    setCron(payload.report.cron);
+    setSnapshots(payload.snapshots);
+  }, [id]);
+
+  useEffect(() => {
+    load().catch((loadError) => {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    });
+  }, [load]);
+
+  const update = async (changes: Partial<ReportSchedule>) => {
+    const response = await fetch(`/api/reports/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+    const payload = await response.json();
+    if (!response.ok) {
+      setError(
+        payload?.error?.message ?? `Request failed with status ${response.status}.`,
+      );
+      return;
+    }
+    setReport(payload as ReportSchedule);
+    setError(undefined);
+  };
+
+  const openSnapshot = async (snapshotId: string) => {
+    const response = await fetch(
+      `/api/reports/${encodeURIComponent(id)}/snapshots/${encodeURIComponent(snapshotId)}`,
+    );
+    if (response.ok) {
+      setSnapshot(await response.json());
+    }
+  };
+
+  const runNow = async () => {
+    setIsRunning(true);
+    try {
+      const response = await fetch(
+        `/api/reports/${encodeURIComponent(id)}/run`,
+        { method: 'POST' },
+      );
+      if (!response.ok) {
+        setError(`Request failed with status ${response.status}.`);
+        return;
+      }
+      const ran: ReportSnapshotSummary = await response.json();
+      await load();
+      await openSnapshot(ran.id);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const deleteReport = async () => {
+    if (!window.confirm(`Delete the report "${report?.name}"?`)) {
+      return;
+    }
+    const response = await fetch(`/api/reports/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    });
+    if (response.ok || response.status === 404) {
+      router.push('/reports');
+    }
+  };
+
+  if (!report) {
+    return (
+      <div className="max-w-5xl mx-auto p-6 text-sm text-muted-foreground">
+        {error ?? 'Loading report…'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto p-6 space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button asChild size="icon" variant="ghost">
+          <Link aria-label="All reports" href="/reports">
+            <ArrowLeftIcon />
+          </Link>
+        </Button>
+        <h1 className="font-semibold text-lg">{report.name}</h1>
+        {report.enabled ? null : <Badge variant="outline">Paused</Badge>}
+        <div className="ml-auto flex items-center gap-2">
+          <Button
+            onClick={() => update({ enabled: !report.enabled })}
+            size="sm"
+            variant="outline"
+          >
+            {report.enabled ? <PauseIcon /> : <PlayIcon />}
+            {report.enabled ? 'Pause' : 'Resume'}
+          </Button>
+          <Button disabled={isRunning} onClick={runNow} size="sm">
+            <SendIcon />
+            {isRunning ? 'Running…' : 'Run now'}
+          </Button>
+          <Button
+            aria-label="Delete report"
+            onClick={deleteReport}
+            size="icon-sm"
+            variant="ghost"
+          >
+            <Trash2Icon />
+          </Button>
+        </div>
+      </div>
+      <div className="space-y-2 text-sm">
+        <p>{describeTarget(report)}</p>
+        <label className="flex items-center gap-2">
+          <span className="text-muted-foreground">Schedule</span>
+          <Input
+            aria-label="Cron expression"
+            className="h-8 max-w-48 font-mono"
+            onBlur={() => {
+              if (cron.trim() && cron !== report.cron) {
+                void update({ cron });
+              } else {
+                setCron(report.cron);
+              }
+            }}
+            onChange={(event) => setCron(event.target.value)}
+            value={cron}
+          />
+        </label>
+        <p className="text-muted-foreground">
+          {report.enabled && report.nextRunAt
+            ? `Next run ${runFormatter.format(report.nextRunAt)}.`
+            : 'Not scheduled while paused.'}{' '}
+          Delivers to{' '}
+          {report.notifiers.length > 0
+            ? report.notifiers.map((notifier) => notifier.kind).join(', ')
+            : 'nobody; snapshots are only kept here'}
+          .
+        </p>
+      </div>
+      {error ? <p className="text-destructive text-sm">{error}</p> : null}
+      <div className="grid gap-6 md:grid-cols-[16rem_1fr]">
+        <div className="space-y-2">
+          <h2 className="font-medium text-sm">Snapshots</h2>
+          {snapshots.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No runs yet.</p>
+          ) : (
+            <ul className="divide-y rounded-md border">
+              {snapshots.map((entry) => (
+                <li key={entry.id}>
+                  <button
+                    aria-current={snapshot?.id === entry.id}
+                    className="flex w-full items-center gap-2 p-2 text-left text-sm hover:bg-muted aria-[current=true]:bg-muted"
+                    onClick={() => openSnapshot(entry.id)}
+                    type="button"
+                  >
+                    <span className="flex-1">
+                      {runFormatter.format(entry.ranAt)}
+                    </span>
+                    {entry.status === 'error' ? (
+                      <Badge variant="destructive">Failed</Badge>
+                    ) : entry.rowCount !== undefined ? (
+                      <span className="text-muted-foreground text-xs">
+                        {entry.rowCount} {entry.rowCount === 1 ? 'row' : 'rows'}
+                      </span>
+                    ) : null}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        {snapshot ? (
+          <div className="min-w-0 space-y-3 text-sm">
+            <h2 className="font-medium">
+              Run of {runFormatter.format(snapshot.ranAt)}
+            </h2>
+            {snapshot.error ? (
+              <p className="text-destructive">
+                {formatSqlExecutionError(snapshot.error)}
+              </p>
+            ) : null}
+            {snapshot.text ? (
+              <p className="whitespace-pre-wrap">{snapshot.text}</p>
+            ) : null}
+            {snapshot.sql ? (
+              <pre className="overflow-x-auto rounded-md bg-muted p-2 text-xs">
+                {snapshot.sql}
+              </pre>
+            ) : null}
+            {snapshot.columns && snapshot.rows ? (
+              <ResultTable
+                columns={snapshot.columns}
+                rows={snapshot.rows}
+                viewKey={`report-snapshot:${snapshot.id}`}
+              />
+            ) : null}
+            {snapshot.deliveries.map((delivery, index) => (
+              <p
+                className={
+                  delivery.ok ? 'text-muted-foreground' : 'text-destructive'
+                }
+                key={index}
+              >
+                {delivery.ok
+                  ? `Delivered by ${delivery.notifier}.`
+                  : `Not delivered by ${delivery.notifier}: ${delivery.error}`}
+              </p>
+            ))}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+export default ReportPage;
@@ -0,0 +1,301 @@
+'use client';
+import { useEffect, useState, type FormEvent } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { CalendarClockIcon, MessageSquareIcon, PlusIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import type { NotifierConfig } from '@/lib/notifiers';
+import type { SavedQuery } from '@/lib/query-library';
+import type { ReportSchedule, ReportTarget } from '@/lib/report-schedules';
+import type { SupabaseProject } from '@/lib/supabase-mcp';
+
+const CRON_PRESETS = [
+  { label: 'Every hour', cron: '0 * * * *' },
+  { label: 'Every day at 8:00', cron: '0 8 * * *' },
+  { label: 'Weekdays at 8:00', cron: '0 8 * * 1-5' },
+  { label: 'Mondays at 8:00', cron: '0 8 * * 1' },
+  { label: 'First of the month', cron: '0 8 1 * *' },
+];
+
+const runFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+const ReportsPage = () => {
+  const router = useRouter();
+  const [reports, setReports] = useState<ReportSchedule[]>([]);
+  const [queries, setQueries] = useState<SavedQuery[]>([]);
+  const [projects, setProjects] = useState<SupabaseProject[]>([]);
+  const [name, setName] = useState('');
+  const [cron, setCron] = useState(CRON_PRESETS[1].cron);
+  const [targetKind, setTargetKind] = useState<ReportTarget['kind']>(
+    'saved-query',
+  );
+  const [queryId, setQueryId] = useState('');
+  const [prompt, setPrompt] = useState('');
+  const [project, setProject] = useState('');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [emails, setEmails] = useState('');
+  const [writeFile, setWriteFile] = useState(true);
+  const [error, setError] = useState<string | undefined>();
+
+  useEffect(() => {
+    fetch('/api/reports')
+      .then((response) => response.json())
+      .then((payload: { reports: ReportSchedule[] }) => {
+        setReports(payload.reports);
+      })
+      .catch((loadError) => {
+        console.error('Unable to load reports:', loadError);
+        setError('Reports could not be loaded.');
+      });
+    fetch('/api/queries')
+      .then((response) => response.json())
+      .then((payload: { queries: SavedQuery[] }) => {
+        setQueries(payload.queries);
+      })
+      .catch((loadError) => {
+        console.error('Unable to load saved queries:', loadError);
+      });
+    fetch('/api/projects')
+      .then((response) => response.json())
+      .then(
+        (payload: { projects: SupabaseProject[]; defaultProject: string }) => {
+          setProjects(payload.projects);
+          setProject((current) => current || payload.defaultProject);
+        },
+      )
+      .catch((loadError) => {
+        console.error('Unable to load Supabase projects:', loadError);
+      });
+  }, []);
+
+  const create = async (event: FormEvent) => {
+    event.preventDefault();
+    const target: ReportTarget =
+      targetKind === 'saved-query'
+        ? { kind: 'saved-query', queryId }
+        : { kind: 'prompt', prompt };
+    const recipients = emails
+      .split(/[,\s]+/)
+      .map((email) => email.trim())
+      .filter(Boolean);
+    const notifiers: NotifierConfig[] = [
+      ...(webhookUrl.trim()
+        ? [{ kind: 'webhook' as const, url: webhookUrl.trim() }]
+        : []),
+      ...(recipients.length > 0 ? [{ kind: 'smtp' as const, to: recipients }] : []),
+      ...(writeFile ? [{ kind: 'file' as const }] : []),
+    ];
+    const response = await fetch('/api/reports', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name,
+        cron,
+        target,
+        project: project || undefined,
+        notifiers,
+      }),
+    });
+    const payload = await response.json();
+    if (!response.ok) {
+      setError(
+        payload?.error?.message ?? `Request failed with status ${response.status}.`,
+      );
+      return;
+    }
+    router.push(`/reports/${(payload as ReportSchedule).id}`);
+  };
+
+  const canCreate =
+    name.trim() &&
+    cron.trim() &&
+    (targetKind === 'saved-query' ? queryId : prompt.trim());
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="font-semibold text-xl">Scheduled reports</h1>
+        <Button asChild variant="ghost">
+          <Link href="/">
+            <MessageSquareIcon />
+            Back to chat
+          </Link>
+        </Button>
+      </div>
+      {reports.length === 0 ? (
+        <p className="text-muted-foreground text-sm">
+          No reports yet. Schedule a saved query or a prompt below.
+        </p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {reports.map((report) => (
+            <li key={report.id}>
+              <Link
+                className="flex items-center gap-3 p-3 hover:bg-muted"
+                href={`/reports/${report.id}`}
+              >
+                <CalendarClockIcon className="size-4 text-muted-foreground" />
+                <span className="flex-1 font-medium text-sm">{report.name}</span>
+                {report.lastStatus === 'error' ? (
+                  <Badge variant="destructive">Failed</Badge>
+                ) : null}
+                {report.enabled ? null : <Badge variant="outline">Paused</Badge>}
+                <span className="text-muted-foreground text-xs">
+                  <code>{report.cron}</code>
+                  {report.enabled && report.nextRunAt
+                    ? ` · next ${runFormatter.format(report.nextRunAt)}`
+                    : null}
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form className="space-y-4 rounded-md border p-4" onSubmit={create}>
+        <h2 className="font-medium">New report</h2>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Name</span>
+            <Input
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Weekly signups"
+              value={name}
+            />
+          </label>
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Schedule (cron)</span>
+            <div className="flex gap-2">
+              <Input
+                className="font-mono"
+                onChange={(event) => setCron(event.target.value)}
+                value={cron}
+              />
+              <Select onValueChange={setCron} value="">
+                <SelectTrigger aria-label="Schedule presets">
+                  <SelectValue placeholder="Presets" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CRON_PRESETS.map((preset) => (
+                    <SelectItem key={preset.cron} value={preset.cron}>
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </label>
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Runs</span>
+            <Select
+              onValueChange={(value) =>
+                setTargetKind(value as ReportTarget['kind'])
+              }
+              value={targetKind}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="saved-query">A saved query</SelectItem>
+                <SelectItem value="prompt">A prompt</SelectItem>
+              </SelectContent>
+            </Select>
+          </label>
+          {projects.length > 0 ? (
+            <label className="block space-y-1 text-sm">
+              <span className="font-medium">Project</span>
+              <Select onValueChange={setProject} value={project}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map((entry) => (
+                    <SelectItem key={entry.name} value={entry.name}>
+                      {entry.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </label>
+          ) : null}
+        </div>
+        {targetKind === 'saved-query' ? (
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Saved query</span>
+            <Select onValueChange={setQueryId} value={queryId}>
+              <SelectTrigger className="w-full">
+                <SelectValue
+                  placeholder={
+                    queries.length > 0
+                      ? 'Choose a saved query'
+                      : 'Save a query from the chat first'
+                  }
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {queries.map((query) => (
+                  <SelectItem key={query.id} value={query.id}>
+                    {query.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+        ) : (
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Prompt</span>
+            <Textarea
+              onChange={(event) => setPrompt(event.target.value)}
+              placeholder="How many users signed up in the last 7 days, by day?"
+              value={prompt}
+            />
+          </label>
+        )}
+        <fieldset className="space-y-2 text-sm">
+          <legend className="font-medium">Deliver to</legend>
+          <Input
+            aria-label="Webhook URL"
+            onChange={(event) => setWebhookUrl(event.target.value)}
+            placeholder="Webhook URL (optional)"
+            type="url"
+            value={webhookUrl}
+          />
+          <Input
+            aria-label="Email recipients"
+            onChange={(event) => setEmails(event.target.value)}
+            placeholder="Email recipients, comma separated (optional)"
+            value={emails}
+          />
+          <label className="flex items-center gap-2">
+            <input
+              checked={writeFile}
+              onChange={(event) => setWriteFile(event.target.checked)}
+              type="checkbox"
+            />
+            Write each run to the local report drop folder
+          </label>
+        </fieldset>
+        {error ? <p className="text-destructive text-sm">{error}</p> : null}
+        <Button disabled={!canCreate} type="submit">
+          <PlusIcon />
+          Schedule report
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default ReportsPage;
@@ -0,0 +1,263 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ChatSummary } from "@/lib/chat-store";
+import { cn } from "@/lib/utils";
+import {
+  CheckIcon,
+  PencilIcon,
+  PlusIcon,
+  SearchIcon,
+  Trash2Icon,
+  XIcon,
+} from "lucide-react";
+import { useEffect, useState, type FormEvent, type ReactNode } from "react";
+
+export type ChatHistoryProps = {
+  activeChatId?: string;
+  /** Changing this reloads the list, e.g. after a chat was saved. */
+  refreshKey?: unknown;
+  onSelect: (id: string) => void;
+  onNewChat: () => void;
+  onDelete?: (id: string) => void;
+  /** Rendered below the list, e.g. links to other pages. */
+  children?: ReactNode;
+  className?: string;
+};
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const updatedFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+const readError = async (response: Response) => {
+  const payload = (await response.json().catch(() => undefined)) as
+    | { error?: { message?: string } }
+    | undefined;
+  return payload?.error?.message ?? `Request failed (${response.status}).`;
+};
+
+type ChatHistoryItemProps = {
+  chat: ChatSummary;
+  isActive: boolean;
+  onSelect: () => void;
+  onRename: (title: string) => Promise<void>;
+  onDelete: () => Promise<void>;
+};
+
+const ChatHistoryItem = ({
+  chat,
+  isActive,
+  onSelect,
+  onRename,
+  onDelete,
+}: ChatHistoryItemProps) => {
+  const [mode, setMode] = useState<"view" | "rename" | "delete">("view");
+  const [title, setTitle] = useState(chat.title);
+
+  const submitRename = async (event: FormEvent) => {
+    event.preventDefault();
+    if (title.trim() && title.trim() !== chat.title) {
+      await onRename(title);
+    }
+    setMode("view");
+  };
+
+  if (mode === "rename") {
+    return (
+      <form className="flex items-center gap-1 px-1 py-1" onSubmit={submitRename}>
+        <Input
+          aria-label="Chat title"
+          autoFocus
+          className="h-7 text-xs"
+          onChange={(event) => setTitle(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Escape") {
+              setTitle(chat.title);
+              setMode("view");
+            }
+          }}
+          value={title}
+        />
+        <Button aria-label="Save title" size="icon-sm" type="submit" variant="ghost">
+          <CheckIcon />
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        "group flex items-center gap-1 rounded-md px-2 py-1.5 hover:bg-muted",
+        isActive && "bg-muted"
+      )}
+    >
+      <button
+        className="min-w-0 flex-1 text-left"
+        onClick={onSelect}
+        title={chat.title}
+        type="button"
+      >
+        <p className="truncate text-sm">{chat.title}</p>
+        <p className="text-muted-foreground text-xs">
+          {updatedFormatter.format(chat.updatedAt)}
+        </p>
+      </button>
+      {mode === "delete" ? (
+        <>
+          <Button
+            aria-label="Confirm delete"
+            className="text-destructive"
+            onClick={() => void onDelete()}
+            size="icon-sm"
+            title="Delete chat"
+            variant="ghost"
+          >
+            <CheckIcon />
+          </Button>
+          <Button
+            aria-label="Cancel delete"
+            onClick={() => setMode("view")}
+            size="icon-sm"
+            variant="ghost"
+          >
+            <XIcon />
+          </Button>
+        </>
+      ) : (
+        <div className="hidden shrink-0 group-hover:flex">
+          <Button
+            aria-label="Rename chat"
+            onClick={() => {
+              setTitle(chat.title);
+              setMode("rename");
+            }}
+            size="icon-sm"
+            variant="ghost"
+          >
+            <PencilIcon />
+          </Button>
+          <Button
+            aria-label="Delete chat"
+            onClick={() => setMode("delete")}
+            size="icon-sm"
+            variant="ghost"
+          >
+            <Trash2Icon />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ChatHistory = ({
+  activeChatId,
+  refreshKey,
+  onSelect,
+  onNewChat,
+  onDelete,
+  children,
+  className,
+}: ChatHistoryProps) => {
+  const [chats, setChats] = useState<ChatSummary[]>([]);
+  const [query, setQuery] = useState("");
+  const [error, setError] = useState<string | undefined>();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/chats?q=${encodeURIComponent(query)}`,
+          { signal: controller.signal }
+        );
+        if (!response.ok) {
+          throw new Error(await readError(response));
+        }
+        const payload = (await response.json()) as { chats: ChatSummary[] };
+        setChats(payload.chats);
+        setError(undefined);
+      } catch (cause) {
+        if (!controller.signal.aborted) {
+          setError(cause instanceof Error ? cause.message : String(cause));
+        }
+      }
+    }, query ? SEARCH_DEBOUNCE_MS : 0);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, refreshKey]);
+
+  const renameChat = async (id: string, title: string) => {
+    const response = await fetch(`/api/chats/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title }),
+    });
+    if (!response.ok) {
+      setError(await readError(response));
+      return;
+    }
+    const summary = (await response.json()) as ChatSummary;
+    setChats((current) =>
+      current.map((chat) => (chat.id === id ? summary : chat))
+    );
+  };
+
+  const deleteChat = async (id: string) => {
+    const response = await fetch(`/api/chats/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+    if (!response.ok && response.status !== 404) {
+      setError(await readError(response));
+      return;
+    }
+    setChats((current) => current.filter((chat) => chat.id !== id));
+    onDelete?.(id);
+  };
+
+  return (
+    <aside className={cn("flex flex-col gap-3", className)}>
+      <Button className="justify-start" onClick={onNewChat} variant="outline">
+        <PlusIcon />
+        New chat
+      </Button>
+      <div className="relative">
+        <SearchIcon className="pointer-events-none absolute top-1/2 left-2.5 size-3.5 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          aria-label="Search chats"
+          className="h-8 pl-8 text-xs"
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search chats"
+          value={query}
+        />
+      </div>
+      {error ? <p className="text-destructive text-xs">{error}</p> : null}
+      <nav className="-mx-1 min-h-0 flex-1 space-y-0.5 overflow-y-auto px-1">
+        {chats.length === 0 ? (
+          <p className="px-2 text-muted-foreground text-xs">
+            {query ? "No chats match this search." : "No saved chats yet."}
+          </p>
+        ) : (
+          chats.map((chat) => (
+            <ChatHistoryItem
+              chat={chat}
+              isActive={chat.id === activeChatId}
+              key={chat.id}
+              onDelete={() => deleteChat(chat.id)}
+              onRename={(title) => renameChat(chat.id, title)}
+              onSelect={() => onSelect(chat.id)}
+            />
+          ))
+        )}
+      </nav>
+      {children}
+    </aside>
+  );
+};
@@ -0,0 +1,248 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { DashboardTile as DashboardTileData } from "@/lib/dashboards";
+import { inferChartSpec } from "@/lib/result-chart";
+import {
+  describeResultColumns,
+  type ResultColumn,
+} from "@/lib/result-columns";
+import {
+  formatSqlExecutionError,
+  type SqlExecutionError,
+} from "@/lib/sql-errors";
+import { cn } from "@/lib/utils";
+import {
+  ArrowLeftIcon,
+  ArrowRightIcon,
+  Columns2Icon,
+  Loader2Icon,
+  RefreshCwIcon,
+  SquareIcon,
+  XIcon,
+} from "lucide-react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { ResultChart } from "./result-chart";
+import { ResultTable } from "./result-table";
+
+export type DashboardTileProps = {
+  dashboardId: string;
+  tile: DashboardTileData;
+  /** Changing this re-runs the tile's query. */
+  refreshToken: number;
+  projectLabel?: string;
+  onMove?: (offset: -1 | 1) => void;
+  onToggleWidth?: () => void;
+  onRemove?: () => void;
+};
+
+type TileRunResponse = {
+  rows?: Record<string, unknown>[];
+  columns?: ResultColumn[];
+  truncated?: boolean;
+  ranAt?: number;
+  error?: SqlExecutionError;
+};
+
+type TileResult = {
+  rows: Record<string, unknown>[];
+  columns: ResultColumn[];
+  truncated: boolean;
+  ranAt: number;
+};
+
+const updatedFormatter = new Intl.DateTimeFormat(undefined, {
+  timeStyle: "medium",
+});
+
+export const DashboardTile = ({
+  dashboardId,
+  tile,
+  refreshToken,
+  projectLabel,
+  onMove,
+  onToggleWidth,
+  onRemove,
+}: DashboardTileProps) => {
+  // The last good result stays on screen while a refresh runs or fails.
+  const [result, setResult] = useState<TileResult | undefined>();
+  const [error, setError] = useState<string | undefined>();
+  const [isRunning, setIsRunning] = useState(false);
+  const [manualRefreshes, setManualRefreshes] = useState(0);
+
+  const run = useCallback(
+    async (signal: AbortSignal) => {
+      setIsRunning(true);
+      try {
+        const response = await fetch(
+          `/api/dashboards/${encodeURIComponent(dashboardId)}/tiles/${encodeURIComponent(tile.id)}/run`,
+          { method: "POST", signal }
+        );
+        const payload = (await response.json()) as TileRunResponse;
+        if (!response.ok || payload.error || !payload.rows) {
+          setError(
+            payload.error
+              ? formatSqlExecutionError(payload.error)
+              : `Request failed with status ${response.status}.`
+          );
+          return;
+        }
+        setResult({
+          rows: payload.rows,
+          columns:
+            payload.columns && payload.columns.length > 0
+              ? payload.columns
+              : describeResultColumns(payload.rows),
+          truncated: payload.truncated === true,
+          ranAt: payload.ranAt ?? Date.now(),
+        });
+        setError(undefined);
+      } catch (fetchError) {
+        if (!signal.aborted) {
+          setError(
+            fetchError instanceof Error ? fetchError.message : String(fetchError)
+          );
+        }
+      } finally {
+        if (!signal.aborted) {
+          setIsRunning(false);
+        }
+      }
+    },
+    [dashboardId, tile.id]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void run(controller.signal);
+    return () => controller.abort();
+  }, [run, refreshToken, manualRefreshes]);
+
+  const chartSpec = useMemo(
+    () =>
+      tile.view === "chart" && result
+        ? (tile.chart ?? inferChartSpec(result.columns, result.rows))
+        : undefined,
+    [tile.view, tile.chart, result]
+  );
+
+  return (
+    <Card
+      className={cn("min-w-0 gap-3 py-4", tile.width === 2 && "lg:col-span-2")}
+    >
+      <CardHeader className="px-4">
+        <CardTitle className="truncate text-sm" title={tile.title}>
+          {tile.title}
+        </CardTitle>
+        <CardDescription className="text-xs">
+          {projectLabel ?? tile.project ?? "Default project"}
+          {" · "}
+          {result
+            ? `Updated ${updatedFormatter.format(result.ranAt)}`
+            : isRunning
+              ? "Loading…"
+              : "Not loaded"}
+          {result?.truncated ? " · truncated" : null}
+        </CardDescription>
+        <CardAction className="flex items-center">
+          <Button
+            aria-label="Refresh tile"
+            disabled={isRunning}
+            onClick={() => setManualRefreshes((count) => count + 1)}
+            size="icon-sm"
+            type="button"
+            variant="ghost"
+          >
+            {isRunning ? (
+              <Loader2Icon className="size-3 animate-spin" />
+            ) : (
+              <RefreshCwIcon className="size-3" />
+            )}
+          </Button>
+          {onMove ? (
+            <>
+              <Button
+                aria-label="Move tile earlier"
+                onClick={() => onMove(-1)}
+                size="icon-sm"
+                type="button"
+                variant="ghost"
+              >
+                <ArrowLeftIcon className="size-3" />
+              </Button>
+              <Button
+                aria-label="Move tile later"
+                onClick={() => onMove(1)}
+                size="icon-sm"
+                type="button"
+                variant="ghost"
+              >
+                <ArrowRightIcon className="size-3" />
+              </Button>
+            </>
+          ) : null}
+          {onToggleWidth ? (
+            <Button
+              aria-label={tile.width === 2 ? "Make tile narrow" : "Make tile wide"}
+              onClick={onToggleWidth}
+              size="icon-sm"
+              type="button"
+              variant="ghost"
+            >
+              {tile.width === 2 ? (
+                <SquareIcon className="size-3" />
+              ) : (
+                <Columns2Icon className="size-3" />
+              )}
+            </Button>
+          ) : null}
+          {onRemove ? (
+            <Button
+              aria-label="Remove tile"
+              onClick={onRemove}
+              size="icon-sm"
+              type="button"
+              variant="ghost"
+            >
+              <XIcon className="size-3" />
+            </Button>
+          ) : null}
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-2 px-4">
+        {error ? (
+          <div className="whitespace-pre-wrap rounded-md border border-destructive/40 bg-destructive/5 p-3 font-mono text-[11px] text-destructive">
+            {error}
+          </div>
+        ) : null}
+        {result ? (
+          result.rows.length === 0 ? (
+            <div className="rounded-md border border-dashed p-3 text-xs text-muted-foreground">
+              No rows returned.
+            </div>
+          ) : chartSpec ? (
+            <ResultChart
+              columns={result.columns}
+              rows={result.rows}
+              spec={chartSpec}
+            />
+          ) : (
+            <ResultTable
+              columns={result.columns}
+              rows={result.rows}
+              viewKey={`dashboard:${dashboardId}:${tile.id}`}
+            />
+          )
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+};
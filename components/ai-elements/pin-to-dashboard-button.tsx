@@ -0,0 +1,224 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Dashboard, DashboardSummary, TileView } from "@/lib/dashboards";
+import type { ChartSpec } from "@/lib/result-chart";
+import { Loader2Icon, PinIcon } from "lucide-react";
+import { useState, type FormEvent } from "react";
+
+export type PinToDashboardButtonProps = {
+  sql: string;
+  project?: string;
+  /** What the card shows right now; the tile starts out the same way. */
+  view: TileView;
+  chart?: ChartSpec;
+  /** Suggested tile title, usually the question. */
+  title?: string;
+};
+
+const NEW_DASHBOARD = "__new__";
+const MAX_SUGGESTED_TITLE_LENGTH = 80;
+
+const readError = async (response: Response) => {
+  const payload = (await response.json().catch(() => undefined)) as
+    | { error?: { message?: string } }
+    | undefined;
+  return (
+    payload?.error?.message ?? `Request failed with status ${response.status}.`
+  );
+};
+
+export const PinToDashboardButton = ({
+  sql,
+  project,
+  view,
+  chart,
+  title: suggestedTitle,
+}: PinToDashboardButtonProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [dashboards, setDashboards] = useState<DashboardSummary[]>([]);
+  const [dashboardId, setDashboardId] = useState(NEW_DASHBOARD);
+  const [dashboardName, setDashboardName] = useState("");
+  const [title, setTitle] = useState("");
+  const [isPinning, setIsPinning] = useState(false);
+  const [pinError, setPinError] = useState<string | undefined>();
+  const [pinnedTo, setPinnedTo] = useState<Dashboard | undefined>();
+
+  const open = async (nextOpen: boolean) => {
+    setIsOpen(nextOpen);
+    if (!nextOpen) {
+      return;
+    }
+    const text = suggestedTitle?.replace(/\s+/g, " ").trim() ?? "";
+    setTitle(
+      text.length > MAX_SUGGESTED_TITLE_LENGTH
+        ? `${text.slice(0, MAX_SUGGESTED_TITLE_LENGTH - 1).trimEnd()}…`
+        : text
+    );
+    setPinError(undefined);
+    try {
+      const response = await fetch("/api/dashboards");
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+      const payload = (await response.json()) as {
+        dashboards: DashboardSummary[];
+      };
+      setDashboards(payload.dashboards);
+      setDashboardId((current) =>
+        current === NEW_DASHBOARD && payload.dashboards.length > 0
+          ? payload.dashboards[0].id
+          : current
+      );
+    } catch (error) {
+      setPinError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const pin = async (event: FormEvent) => {
+    event.preventDefault();
+    // Keeps the submit from reaching a form this card is rendered inside.
+    event.stopPropagation();
+    setIsPinning(true);
+    setPinError(undefined);
+    try {
+      let targetId = dashboardId;
+      if (targetId === NEW_DASHBOARD) {
+        const response = await fetch("/api/dashboards", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: dashboardName }),
+        });
+        if (!response.ok) {
+          throw new Error(await readError(response));
+        }
+        const created = (await response.json()) as Dashboard;
+        targetId = created.id;
+        setDashboardId(created.id);
+      }
+      const response = await fetch(
+        `/api/dashboards/${encodeURIComponent(targetId)}/tiles`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ title, sql, project, view, chart }),
+        }
+      );
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+      setPinnedTo((await response.json()) as Dashboard);
+      setIsOpen(false);
+    } catch (error) {
+      setPinError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsPinning(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={open} open={isOpen}>
+      <DialogTrigger asChild>
+        <Button
+          size="sm"
+          title={pinnedTo ? `Pinned to ${pinnedTo.name}` : "Pin to a dashboard"}
+          type="button"
+          variant="outline"
+        >
+          <PinIcon className="size-3" />
+          {pinnedTo ? "Pinned" : "Pin"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form className="space-y-4" onSubmit={pin}>
+          <DialogHeader>
+            <DialogTitle>Pin to dashboard</DialogTitle>
+            <DialogDescription>
+              The tile re-runs this query whenever the dashboard loads or
+              refreshes.
+            </DialogDescription>
+          </DialogHeader>
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Dashboard</span>
+            <Select onValueChange={setDashboardId} value={dashboardId}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {dashboards.map((dashboard) => (
+                  <SelectItem key={dashboard.id} value={dashboard.id}>
+                    {dashboard.name}
+                  </SelectItem>
+                ))}
+                {dashboards.length > 0 ? <SelectSeparator /> : null}
+                <SelectItem value={NEW_DASHBOARD}>New dashboard…</SelectItem>
+              </SelectContent>
+            </Select>
+          </label>
+          {dashboardId === NEW_DASHBOARD ? (
+            <label className="block space-y-1 text-sm">
+              <span className="font-medium">Dashboard name</span>
+              <Input
+                onChange={(event) => setDashboardName(event.target.value)}
+                placeholder="Ops overview"
+                required
+                value={dashboardName}
+              />
+            </label>
+          ) : null}
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Tile title</span>
+            <Input
+              onChange={(event) => setTitle(event.target.value)}
+              required
+              value={title}
+            />
+          </label>
+          {pinError ? (
+            <p className="text-destructive text-xs">{pinError}</p>
+          ) : null}
+          {pinnedTo ? (
+            <p className="text-muted-foreground text-xs">
+              Already pinned to{" "}
+              <a className="underline" href={`/dashboards/${pinnedTo.id}`}>
+                {pinnedTo.name}
+              </a>
+              .
+            </p>
+          ) : null}
+          <DialogFooter>
+            <Button
+              disabled={
+                isPinning ||
+                !title.trim() ||
+                (dashboardId === NEW_DASHBOARD && !dashboardName.trim())
+              }
+              type="submit"
+            >
+              {isPinning ? <Loader2Icon className="size-3 animate-spin" /> : null}
+              Pin
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
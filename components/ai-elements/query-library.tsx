@@ -0,0 +1,254 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import type { SavedQuery } from "@/lib/query-library";
+import type { ResultColumn } from "@/lib/result-columns";
+import type { SqlExecutionError } from "@/lib/sql-errors";
+import { cn } from "@/lib/utils";
+import { Loader2Icon, PlayIcon, SearchIcon, Trash2Icon } from "lucide-react";
+import { useEffect, useState, type ReactNode } from "react";
+import { SupabaseSqlResult } from "./supabase-sql-result";
+
+export type QueryLibraryProps = {
+  /** Project the library is filtered to and unscoped queries run against. */
+  project?: string;
+  projectLabels?: Record<string, string>;
+  /** Element that opens the library. */
+  children: ReactNode;
+};
+
+type SqlRunResponse = {
+  project?: string;
+  sql?: string;
+  sourceSql?: string;
+  rows?: unknown;
+  columns?: ResultColumn[];
+  truncated?: boolean;
+  nextCursor?: string;
+  error?: SqlExecutionError;
+};
+
+type SavedQueryRun = SqlRunResponse & {
+  queryId: string;
+  ranAt: number;
+};
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+export const QueryLibrary = ({
+  project,
+  projectLabels,
+  children,
+}: QueryLibraryProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [queries, setQueries] = useState<SavedQuery[]>([]);
+  const [listError, setListError] = useState<string | undefined>();
+  const [runningId, setRunningId] = useState<string | undefined>();
+  const [run, setRun] = useState<SavedQueryRun | undefined>();
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const controller = new AbortController();
+    const params = new URLSearchParams({ q: search });
+    if (project) {
+      params.set("project", project);
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/queries?${params}`, {
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`Request failed with status ${response.status}.`);
+        }
+        const payload = (await response.json()) as { queries: SavedQuery[] };
+        setQueries(payload.queries);
+        setListError(undefined);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          setListError(error instanceof Error ? error.message : String(error));
+        }
+      }
+    }, search ? SEARCH_DEBOUNCE_MS : 0);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [isOpen, search, project]);
+
+  // Saved queries are re-run rather than cached so the data is always fresh.
+  const runQuery = async (query: SavedQuery) => {
+    setRunningId(query.id);
+    try {
+      const response = await fetch("/api/sql/run", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sql: query.sql,
+          project: query.project ?? project,
+        }),
+      });
+      const payload = (await response.json()) as SqlRunResponse;
+      setRun({
+        ...payload,
+        sql: payload.sql ?? query.sql,
+        error:
+          payload.error ??
+          (response.ok
+            ? undefined
+            : {
+                kind: "database",
+                message: `Request failed with status ${response.status}.`,
+              }),
+        queryId: query.id,
+        ranAt: Date.now(),
+      });
+    } catch (fetchError) {
+      setRun({
+        sql: query.sql,
+        error: {
+          kind: "database",
+          message:
+            fetchError instanceof Error ? fetchError.message : String(fetchError),
+        },
+        queryId: query.id,
+        ranAt: Date.now(),
+      });
+    } finally {
+      setRunningId(undefined);
+    }
+  };
+
+  const deleteQuery = async (id: string) => {
+    const response = await fetch(`/api/queries/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+    if (!response.ok && response.status !== 404) {
+      setListError(`Request failed with status ${response.status}.`);
+      return;
+    }
+    setQueries((current) => current.filter((query) => query.id !== id));
+    setRun((current) => (current?.queryId === id ? undefined : current));
+  };
+
+  const runQueryDetails = queries.find((query) => query.id === run?.queryId);
+
+  return (
+    <Dialog onOpenChange={setIsOpen} open={isOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Saved queries</DialogTitle>
+          <DialogDescription>
+            Search the library and run a query again for fresh data.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="relative">
+          <SearchIcon className="pointer-events-none absolute top-1/2 left-2.5 size-3.5 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            aria-label="Search saved queries"
+            className="pl-8"
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Search by name, question, tag or table"
+            value={search}
+          />
+        </div>
+        {listError ? (
+          <p className="text-destructive text-xs">{listError}</p>
+        ) : null}
+        <ul className="max-h-64 space-y-1 overflow-y-auto">
+          {queries.length === 0 ? (
+            <li className="text-muted-foreground text-sm">
+              {search
+                ? "No saved queries match this search."
+                : "Save a query from a result to add it here."}
+            </li>
+          ) : (
+            queries.map((query) => (
+              <li
+                className={cn(
+                  "flex items-start gap-2 rounded-md border border-border/60 p-2",
+                  run?.queryId === query.id && "bg-muted"
+                )}
+                key={query.id}
+              >
+                <div className="min-w-0 flex-1 space-y-1">
+                  <p className="truncate font-medium text-sm">{query.name}</p>
+                  {query.question && query.question !== query.name ? (
+                    <p className="truncate text-muted-foreground text-xs">
+                      {query.question}
+                    </p>
+                  ) : null}
+                  <div className="flex flex-wrap gap-1">
+                    {query.project ? (
+                      <Badge className="font-normal" variant="secondary">
+                        {projectLabels?.[query.project] ?? query.project}
+                      </Badge>
+                    ) : null}
+                    {query.tags.map((tag) => (
+                      <Badge className="font-normal" key={tag} variant="outline">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <Button
+                  disabled={runningId !== undefined}
+                  onClick={() => runQuery(query)}
+                  size="sm"
+                  type="button"
+                  variant="outline"
+                >
+                  {runningId === query.id ? (
+                    <Loader2Icon className="size-3 animate-spin" />
+                  ) : (
+                    <PlayIcon className="size-3" />
+                  )}
+                  Run
+                </Button>
+                <Button
+                  aria-label={`Delete ${query.name}`}
+                  onClick={() => deleteQuery(query.id)}
+                  size="icon-sm"
+                  type="button"
+                  variant="ghost"
+                >
+                  <Trash2Icon className="size-3" />
+                </Button>
+              </li>
+            ))
+          )}
+        </ul>
+        {run ? (
+          <SupabaseSqlResult
+            columns={run.columns}
+            error={run.error}
+            key={`${run.queryId}:${run.ranAt}`}
+            nextCursor={run.nextCursor}
+            project={run.project}
+            projectLabel={run.project ? projectLabels?.[run.project] : undefined}
+            question={runQueryDetails?.question}
+            rows={run.rows}
+            sourceSql={run.sourceSql}
+            sql={run.sql}
+            truncated={run.truncated === true}
+            viewKey={`saved-query:${run.queryId}:${run.ranAt}`}
+          />
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+};
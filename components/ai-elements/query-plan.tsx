@@ -0,0 +1,148 @@
+"use client";
+
+import type { QueryPlanNode } from "@/lib/query-plan";
+import { cn } from "@/lib/utils";
+import type { Edge as FlowEdge, Node as FlowNode, NodeProps } from "@xyflow/react";
+import { useMemo } from "react";
+import { Canvas } from "./canvas";
+import { Controls } from "./controls";
+import { Edge } from "./edge";
+import {
+  Node,
+  NodeContent,
+  NodeDescription,
+  NodeHeader,
+  NodeTitle,
+} from "./node";
+
+type PlanFlowNode = FlowNode<{ plan: QueryPlanNode; isRoot: boolean }, "plan">;
+
+export type QueryPlanViewerProps = {
+  plan: QueryPlanNode;
+  className?: string;
+};
+
+const COLUMN_WIDTH = 440;
+const ROW_HEIGHT = 190;
+
+const numberFormatter = new Intl.NumberFormat(undefined, {
+  maximumFractionDigits: 2,
+});
+
+// Lays the plan out left to right: the root on the left, each child one
+// column further right and leaves stacked in visiting order.
+const layoutPlan = (root: QueryPlanNode) => {
+  const nodes: PlanFlowNode[] = [];
+  const edges: FlowEdge[] = [];
+  let nextRow = 0;
+
+  const place = (plan: QueryPlanNode, depth: number): number => {
+    const childRows = plan.children.map((child) => {
+      edges.push({
+        id: `${plan.id}->${child.id}`,
+        source: plan.id,
+        target: child.id,
+        type: "animated",
+      });
+      return place(child, depth + 1);
+    });
+    const row =
+      childRows.length > 0
+        ? (childRows[0] + childRows[childRows.length - 1]) / 2
+        : nextRow++;
+    nodes.push({
+      id: plan.id,
+      type: "plan",
+      position: { x: depth * COLUMN_WIDTH, y: row * ROW_HEIGHT },
+      data: { plan, isRoot: depth === 0 },
+    });
+    return row;
+  };
+
+  place(root, 0);
+  return { nodes, edges };
+};
+
+const PlanNodeCard = ({ data }: NodeProps<PlanFlowNode>) => {
+  const { plan, isRoot } = data;
+  const target = plan.relationName
+    ? `${plan.relationName}${
+        plan.alias && plan.alias !== plan.relationName ? ` ${plan.alias}` : ""
+      }`
+    : plan.indexName;
+
+  return (
+    <Node
+      className={cn(
+        plan.isLargeSeqScan && "border-destructive ring-2 ring-destructive/30"
+      )}
+      handles={{ target: !isRoot, source: plan.children.length > 0 }}
+    >
+      <NodeHeader
+        className={cn(plan.isLargeSeqScan && "bg-destructive/10")}
+      >
+        <NodeTitle className="text-sm">
+          {plan.joinType ? `${plan.joinType} ` : ""}
+          {plan.nodeType}
+        </NodeTitle>
+        {target ? (
+          <NodeDescription className="font-mono text-xs">
+            {target}
+            {plan.indexName && plan.relationName
+              ? ` using ${plan.indexName}`
+              : ""}
+          </NodeDescription>
+        ) : null}
+      </NodeHeader>
+      <NodeContent className="space-y-1 text-xs">
+        <p>
+          Cost{" "}
+          <span className="font-mono">
+            {numberFormatter.format(plan.startupCost)}..
+            {numberFormatter.format(plan.totalCost)}
+          </span>
+        </p>
+        <p>
+          Rows{" "}
+          <span className="font-mono">
+            {numberFormatter.format(plan.planRows)}
+          </span>{" "}
+          · width <span className="font-mono">{plan.planWidth}</span>
+        </p>
+        {plan.condition ? (
+          <p className="truncate font-mono text-muted-foreground" title={plan.condition}>
+            {plan.condition}
+          </p>
+        ) : null}
+        {plan.isLargeSeqScan ? (
+          <p className="font-medium text-destructive">
+            Sequential scan on a large table
+          </p>
+        ) : null}
+      </NodeContent>
+    </Node>
+  );
+};
+
+const nodeTypes = { plan: PlanNodeCard };
+const edgeTypes = { animated: Edge.Animated };
+
+export const QueryPlanViewer = ({ plan, className }: QueryPlanViewerProps) => {
+  const { nodes, edges } = useMemo(() => layoutPlan(plan), [plan]);
+
+  return (
+    <div className={cn("h-96 w-full overflow-hidden rounded-md border", className)}>
+      <Canvas
+        deleteKeyCode={null}
+        edgeTypes={edgeTypes}
+        edges={edges}
+        nodeTypes={nodeTypes}
+        nodes={nodes}
+        nodesConnectable={false}
+        proOptions={{ hideAttribution: true }}
+      >
+        <Controls showInteractive={false} />
+      </Canvas>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+"use client";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { parseColumnDate, type ResultColumn } from "@/lib/result-columns";
+import { cn } from "@/lib/utils";
+import { Maximize2Icon } from "lucide-react";
+
+const JSON_PREVIEW_LENGTH = 60;
+
+const numberFormatter = new Intl.NumberFormat(undefined, {
+  maximumFractionDigits: 20,
+});
+const timestampFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "medium",
+});
+// Dates and zone-less timestamps are wall-clock values, so they are formatted
+// in UTC to avoid shifting them into the viewer's timezone.
+const wallClockFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "medium",
+  timeZone: "UTC",
+});
+const dateFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeZone: "UTC",
+});
+
+const formatNumber = (value: unknown): string => {
+  if (typeof value === "number") {
+    return numberFormatter.format(value);
+  }
+  const text = String(value);
+  // numeric and large int8 values arrive as strings to keep their precision.
+  return /^-?\d+(\.\d+)?$/.test(text)
+    ? numberFormatter.format(text as Intl.StringNumericLiteral)
+    : text;
+};
+
+const formatTemporal = (column: ResultColumn, value: unknown): string => {
+  const date = parseColumnDate(column.kind, value);
+  if (!date) {
+    return String(value);
+  }
+  if (column.kind === "date") {
+    return dateFormatter.format(date);
+  }
+  return column.kind === "timestamptz"
+    ? timestampFormatter.format(date)
+    : wallClockFormatter.format(date);
+};
+
+const parseJsonValue = (value: unknown): unknown => {
+  if (typeof value !== "string") {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// Rows have a fixed height in the virtualized grid, so the pretty-printed
+// document opens in a dialog instead of expanding the row.
+const JsonCell = ({ column, value }: ResultCellProps) => {
+  const parsed = parseJsonValue(value);
+  const compact = JSON.stringify(parsed) ?? String(parsed);
+
+  if (compact.length <= JSON_PREVIEW_LENGTH) {
+    return <span className="font-mono">{compact}</span>;
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button
+          className="flex w-full min-w-0 items-center gap-1 text-left font-mono hover:text-foreground"
+          type="button"
+        >
+          <Maximize2Icon className="size-3 shrink-0" />
+          <span className="truncate">{compact}</span>
+        </button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-mono text-sm">{column.name}</DialogTitle>
+        </DialogHeader>
+        <pre className="max-h-[60vh] overflow-auto rounded bg-muted/50 p-3 font-mono text-xs">
+          {JSON.stringify(parsed, null, 2)}
+        </pre>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export type ResultCellProps = {
+  column: ResultColumn;
+  value: unknown;
+};
+
+export const ResultCell = ({ column, value }: ResultCellProps) => {
+  if (value === null || value === undefined) {
+    return <span className="italic text-muted-foreground/70">null</span>;
+  }
+  switch (column.kind) {
+    case "number":
+      return <span className="font-mono tabular-nums">{formatNumber(value)}</span>;
+    case "boolean":
+      return (
+        <span
+          className={cn(
+            "rounded px-1.5 py-0.5 font-mono text-[10px] uppercase",
+            value === true || value === "true" || value === "t"
+              ? "bg-primary/10 text-primary"
+              : "bg-muted text-muted-foreground"
+          )}
+        >
+          {String(value === "t" ? true : value === "f" ? false : value)}
+        </span>
+      );
+    case "timestamptz":
+    case "timestamp":
+    case "date":
+      return (
+        <span title={String(value)}>
+          {formatTemporal(column, value)}
+        </span>
+      );
+    case "json":
+      return <JsonCell column={column} value={value} />;
+    default:
+      return (
+        <span className="font-mono">
+          {typeof value === "object" ? JSON.stringify(value) : String(value)}
+        </span>
+      );
+  }
+};
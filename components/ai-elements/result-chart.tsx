@@ -0,0 +1,236 @@
+"use client";
+
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { buildChartData, type ChartSpec } from "@/lib/result-chart";
+import { parseColumnDate, type ResultColumn } from "@/lib/result-columns";
+import { useMemo } from "react";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  Scatter,
+  ScatterChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+const CHART_COLOR_COUNT = 5;
+
+const compactFormatter = new Intl.NumberFormat(undefined, {
+  notation: "compact",
+  maximumFractionDigits: 1,
+});
+const numberFormatter = new Intl.NumberFormat(undefined, {
+  maximumFractionDigits: 2,
+});
+const dateFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeZone: "UTC",
+});
+const timestampFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+const formatAxisValue = (
+  column: ResultColumn | undefined,
+  value: unknown
+): string => {
+  if (value === null || value === undefined) {
+    return "null";
+  }
+  if (!column) {
+    return String(value);
+  }
+  if (column.kind === "number") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed)
+      ? compactFormatter.format(parsed)
+      : String(value);
+  }
+  const date =
+    column.kind === "date" ||
+    column.kind === "timestamp" ||
+    column.kind === "timestamptz"
+      ? parseColumnDate(column.kind, value)
+      : undefined;
+  if (!date) {
+    return String(value);
+  }
+  return column.kind === "timestamptz"
+    ? timestampFormatter.format(date)
+    : dateFormatter.format(date);
+};
+
+type KpiCardProps = {
+  spec: ChartSpec;
+  rows: Record<string, unknown>[];
+};
+
+const KpiCard = ({ spec, rows }: KpiCardProps) => {
+  const [row] = rows;
+  const [measure] = spec.y;
+  const value = Number(row?.[measure]);
+  return (
+    <div className="rounded-md border border-border/60 p-4">
+      <p className="text-xs uppercase tracking-wide text-muted-foreground">
+        {spec.title ?? measure}
+        {spec.x && row?.[spec.x] !== undefined ? ` · ${String(row[spec.x])}` : null}
+      </p>
+      <p className="mt-1 font-semibold text-3xl tabular-nums">
+        {Number.isFinite(value)
+          ? numberFormatter.format(value)
+          : String(row?.[measure] ?? "null")}
+      </p>
+    </div>
+  );
+};
+
+export type ResultChartProps = {
+  spec: ChartSpec;
+  columns: ResultColumn[];
+  rows: Record<string, unknown>[];
+};
+
+export const ResultChart = ({ spec, columns, rows }: ResultChartProps) => {
+  const data = useMemo(
+    () => buildChartData(spec, columns, rows),
+    [spec, columns, rows]
+  );
+
+  if (spec.type === "kpi") {
+    return <KpiCard rows={rows} spec={spec} />;
+  }
+
+  const xColumn = columns.find((column) => column.name === spec.x);
+  const config: ChartConfig = Object.fromEntries(
+    data.series.map((series, index) => [
+      series.key,
+      {
+        label: series.label,
+        color: `var(--chart-${(index % CHART_COLOR_COUNT) + 1})`,
+      },
+    ])
+  );
+  const tooltip = (
+    <ChartTooltip
+      content={
+        <ChartTooltipContent
+          labelFormatter={(_, payload) =>
+            formatAxisValue(xColumn, payload[0]?.payload?.x)
+          }
+        />
+      }
+    />
+  );
+  const legend =
+    data.series.length > 1 ? (
+      <ChartLegend content={<ChartLegendContent />} />
+    ) : null;
+  const xAxis = (
+    <XAxis
+      dataKey="x"
+      minTickGap={24}
+      tickFormatter={(value) => formatAxisValue(xColumn, value)}
+      tickLine={false}
+      type={spec.type === "scatter" ? "number" : "category"}
+    />
+  );
+  const yAxis = (
+    <YAxis
+      tickFormatter={(value) => compactFormatter.format(Number(value))}
+      tickLine={false}
+      width={48}
+    />
+  );
+
+  return (
+    <div className="space-y-2">
+      {spec.title ? <p className="font-medium text-sm">{spec.title}</p> : null}
+      <ChartContainer className="aspect-auto h-72 w-full" config={config}>
+        {spec.type === "line" ? (
+          <LineChart data={data.points}>
+            <CartesianGrid vertical={false} />
+            {xAxis}
+            {yAxis}
+            {tooltip}
+            {legend}
+            {data.series.map((series) => (
+              <Line
+                dataKey={series.key}
+                dot={false}
+                key={series.key}
+                stroke={`var(--color-${series.key})`}
+                strokeWidth={2}
+                type="monotone"
+              />
+            ))}
+          </LineChart>
+        ) : spec.type === "area" ? (
+          <AreaChart data={data.points}>
+            <CartesianGrid vertical={false} />
+            {xAxis}
+            {yAxis}
+            {tooltip}
+            {legend}
+            {data.series.map((series) => (
+              <Area
+                dataKey={series.key}
+                fill={`var(--color-${series.key})`}
+                fillOpacity={0.2}
+                key={series.key}
+                stroke={`var(--color-${series.key})`}
+                type="monotone"
+              />
+            ))}
+          </AreaChart>
+        ) : spec.type === "scatter" ? (
+          <ScatterChart>
+            <CartesianGrid />
+            {xAxis}
+            <YAxis
+              dataKey={data.series[0]?.key}
+              tickFormatter={(value) => compactFormatter.format(Number(value))}
+              tickLine={false}
+              type="number"
+              width={48}
+            />
+            {tooltip}
+            <Scatter
+              data={data.points}
+              fill={`var(--color-${data.series[0]?.key})`}
+            />
+          </ScatterChart>
+        ) : (
+          <BarChart data={data.points}>
+            <CartesianGrid vertical={false} />
+            {xAxis}
+            {yAxis}
+            {tooltip}
+            {legend}
+            {data.series.map((series) => (
+              <Bar
+                dataKey={series.key}
+                fill={`var(--color-${series.key})`}
+                key={series.key}
+                radius={spec.type === "stacked-bar" ? 0 : 4}
+                stackId={spec.type === "stacked-bar" ? "stack" : undefined}
+              />
+            ))}
+          </BarChart>
+        )}
+      </ChartContainer>
+    </div>
+  );
+};
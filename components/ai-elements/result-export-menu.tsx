@@ -0,0 +1,195 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { ResultColumn } from "@/lib/result-columns";
+import {
+  buildExportFileName,
+  EXPORT_FORMAT_DETAILS,
+  EXPORT_FORMATS,
+  exportResultRows,
+  type ExportFormat,
+} from "@/lib/result-export";
+import {
+  formatSqlExecutionError,
+  type SqlExecutionError,
+} from "@/lib/sql-errors";
+import { DownloadIcon, Loader2Icon } from "lucide-react";
+import { useId, useRef, useState, type SyntheticEvent } from "react";
+
+export type ResultExportMenuProps = {
+  columns: ResultColumn[];
+  rows: Record<string, unknown>[];
+  /** Query to re-run for a full export; omit to only offer loaded rows. */
+  sql?: string;
+  project?: string;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
+
+const readExportError = (text: string): string => {
+  try {
+    const payload = JSON.parse(text) as { error?: SqlExecutionError };
+    if (payload.error) {
+      return formatSqlExecutionError(payload.error);
+    }
+  } catch {
+    // Not JSON; show the text as it is.
+  }
+  return text.trim() || "The export failed.";
+};
+
+export const ResultExportMenu = ({
+  columns,
+  rows,
+  sql,
+  project,
+}: ResultExportMenuProps) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | undefined>();
+  const exportFrameName = `result-export-${useId()}`;
+  const exportFormRef = useRef<HTMLFormElement>(null);
+  const exportFormatRef = useRef<HTMLInputElement>(null);
+  const isFullExportPending = useRef(false);
+
+  const runExport = async (task: () => Promise<void>) => {
+    setIsExporting(true);
+    setExportError(undefined);
+    try {
+      await task();
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const exportLoadedRows = (format: ExportFormat) =>
+    runExport(async () => {
+      downloadBlob(
+        await exportResultRows(format, columns, rows),
+        buildExportFileName(format)
+      );
+    });
+
+  // The form posts into a hidden frame so the browser streams the file to
+  // disk instead of this page holding it in memory.
+  const exportFullResult = (format: ExportFormat) => {
+    if (!exportFormRef.current || !exportFormatRef.current) {
+      return;
+    }
+    setExportError(undefined);
+    exportFormatRef.current.value = format;
+    isFullExportPending.current = true;
+    exportFormRef.current.submit();
+  };
+
+  // Downloads never load in the frame, so a load means the route answered
+  // with an error instead of a file.
+  const handleExportFrameLoad = (
+    event: SyntheticEvent<HTMLIFrameElement>
+  ) => {
+    if (!isFullExportPending.current) {
+      return;
+    }
+    isFullExportPending.current = false;
+    setExportError(
+      readExportError(
+        event.currentTarget.contentDocument?.body?.textContent ?? ""
+      )
+    );
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {exportError ? (
+        <p className="whitespace-pre-wrap text-xs text-destructive">
+          {exportError}
+        </p>
+      ) : null}
+      {sql ? (
+        <>
+          <form
+            action="/api/sql/export"
+            hidden
+            method="post"
+            ref={exportFormRef}
+            target={exportFrameName}
+          >
+            <input name="sql" type="hidden" value={sql} />
+            {project ? (
+              <input name="project" type="hidden" value={project} />
+            ) : null}
+            <input name="format" ref={exportFormatRef} type="hidden" />
+          </form>
+          <iframe
+            hidden
+            name={exportFrameName}
+            onLoad={handleExportFrameLoad}
+            title="Full result export"
+          />
+        </>
+      ) : null}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            disabled={isExporting}
+            size="sm"
+            type="button"
+            variant="outline"
+          >
+            {isExporting ? (
+              <Loader2Icon className="size-3 animate-spin" />
+            ) : (
+              <DownloadIcon className="size-3" />
+            )}
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">
+            Loaded rows ({rows.length})
+          </DropdownMenuLabel>
+          {EXPORT_FORMATS.map((format) => (
+            <DropdownMenuItem
+              key={`loaded-${format}`}
+              onSelect={() => exportLoadedRows(format)}
+            >
+              {EXPORT_FORMAT_DETAILS[format].label}
+            </DropdownMenuItem>
+          ))}
+          {sql ? (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground">
+                Full result (re-runs without the row cap)
+              </DropdownMenuLabel>
+              {EXPORT_FORMATS.map((format) => (
+                <DropdownMenuItem
+                  key={`full-${format}`}
+                  onSelect={() => exportFullResult(format)}
+                >
+                  {EXPORT_FORMAT_DETAILS[format].label}
+                </DropdownMenuItem>
+              ))}
+            </>
+          ) : null}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
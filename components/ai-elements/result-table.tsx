@@ -0,0 +1,467 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import type { ColumnKind, ResultColumn } from "@/lib/result-columns";
+import {
+  applyResultView,
+  EMPTY_RESULT_VIEW,
+  orderResultColumns,
+  visibleResultColumns,
+  type ResultViewState,
+} from "@/lib/result-view";
+import { cn } from "@/lib/utils";
+import {
+  ArrowDownIcon,
+  ArrowUpDownIcon,
+  ArrowUpIcon,
+  Columns3Icon,
+  SearchIcon,
+} from "lucide-react";
+import {
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  type HTMLAttributes,
+  type PointerEvent as ReactPointerEvent,
+  type ReactNode,
+} from "react";
+import { ResultCell } from "./result-cell";
+
+const MIN_COLUMN_WIDTH = 60;
+const ROW_HEIGHT = 32;
+const HEADER_HEIGHT = 2 * ROW_HEIGHT;
+const MAX_GRID_HEIGHT = 420;
+const OVERSCAN_ROWS = 8;
+const OVERSCAN_WIDTH = 240;
+
+const DEFAULT_COLUMN_WIDTHS: Record<ColumnKind, number> = {
+  number: 120,
+  boolean: 90,
+  timestamptz: 200,
+  timestamp: 200,
+  date: 130,
+  json: 240,
+  text: 180,
+};
+
+type GridViewport = {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+};
+
+// Tracks the grid's scroll position and size, batching scroll events into one
+// update per frame.
+const useGridViewport = () => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState<GridViewport>({
+    top: 0,
+    left: 0,
+    width: 0,
+    height: MAX_GRID_HEIGHT,
+  });
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element) {
+      return;
+    }
+    let frame = 0;
+    const measure = () => {
+      frame = 0;
+      setViewport((current) =>
+        current.top === element.scrollTop &&
+        current.left === element.scrollLeft &&
+        current.width === element.clientWidth &&
+        current.height === element.clientHeight
+          ? current
+          : {
+              top: element.scrollTop,
+              left: element.scrollLeft,
+              width: element.clientWidth,
+              height: element.clientHeight,
+            }
+      );
+    };
+    const schedule = () => {
+      if (!frame) {
+        frame = requestAnimationFrame(measure);
+      }
+    };
+    measure();
+    element.addEventListener("scroll", schedule, { passive: true });
+    const observer = new ResizeObserver(schedule);
+    observer.observe(element);
+    return () => {
+      cancelAnimationFrame(frame);
+      element.removeEventListener("scroll", schedule);
+      observer.disconnect();
+    };
+  }, []);
+
+  return [ref, viewport] as const;
+};
+
+// Index of the last offset that is <= value; offsets are ascending.
+const findOffsetIndex = (offsets: number[], value: number): number => {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= value) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+};
+
+// View state outlives the component: a message that re-renders (or remounts)
+// while the response streams picks up where the user left off.
+const viewStates = new Map<string, ResultViewState>();
+
+const usePersistentViewState = (viewKey?: string) => {
+  const [state, setState] = useState<ResultViewState>(
+    () => (viewKey ? viewStates.get(viewKey) : undefined) ?? EMPTY_RESULT_VIEW
+  );
+  useEffect(() => {
+    if (viewKey) {
+      viewStates.set(viewKey, state);
+    }
+  }, [viewKey, state]);
+  return [state, setState] as const;
+};
+
+type GridCell = {
+  className?: string;
+  props?: HTMLAttributes<HTMLDivElement>;
+  content: ReactNode;
+};
+
+export type ResultTableProps = {
+  columns: ResultColumn[];
+  rows: Record<string, unknown>[];
+  /** Stable id (e.g. the tool call id) under which the view state is kept. */
+  viewKey?: string;
+};
+
+export const ResultTable = ({ columns, rows, viewKey }: ResultTableProps) => {
+  const [view, setView] = usePersistentViewState(viewKey);
+  const [draggedColumn, setDraggedColumn] = useState<string | undefined>();
+
+  const visibleColumns = useMemo(
+    () => visibleResultColumns(columns, view),
+    [columns, view]
+  );
+  const viewRows = useMemo(
+    () => applyResultView(rows, columns, view),
+    [rows, columns, view]
+  );
+  const [scrollRef, viewport] = useGridViewport();
+
+  const columnWidth = (column: ResultColumn) =>
+    view.widths[column.name] ?? DEFAULT_COLUMN_WIDTHS[column.kind];
+  // offsets[i] is the left edge of visibleColumns[i]; the last entry is the
+  // total width.
+  const offsets = visibleColumns.reduce<number[]>(
+    (edges, column) => [...edges, edges[edges.length - 1] + columnWidth(column)],
+    [0]
+  );
+  const totalWidth = offsets[offsets.length - 1];
+
+  // Only the rows and columns around the viewport are rendered; the first
+  // column is always rendered because it is pinned to the left edge.
+  const firstRow = Math.max(
+    0,
+    Math.floor(viewport.top / ROW_HEIGHT) - OVERSCAN_ROWS
+  );
+  const lastRow = Math.min(
+    viewRows.length,
+    Math.ceil((viewport.top + viewport.height - HEADER_HEIGHT) / ROW_HEIGHT) +
+      OVERSCAN_ROWS
+  );
+  const firstColumn = Math.max(
+    1,
+    findOffsetIndex(offsets, viewport.left - OVERSCAN_WIDTH)
+  );
+  const lastColumn = Math.min(
+    visibleColumns.length - 1,
+    findOffsetIndex(offsets, viewport.left + viewport.width + OVERSCAN_WIDTH)
+  );
+  const windowedColumns = visibleColumns.slice(firstColumn, lastColumn + 1);
+
+  const toggleSort = (name: string) =>
+    setView((current) => {
+      if (current.sort?.column !== name) {
+        return { ...current, sort: { column: name, direction: "asc" } };
+      }
+      if (current.sort.direction === "asc") {
+        return { ...current, sort: { column: name, direction: "desc" } };
+      }
+      return { ...current, sort: undefined };
+    });
+
+  const moveColumn = (source: string, target: string) =>
+    setView((current) => {
+      const names = orderResultColumns(columns, current).map(
+        (column) => column.name
+      );
+      const from = names.indexOf(source);
+      const to = names.indexOf(target);
+      if (from < 0 || to < 0 || from === to) {
+        return current;
+      }
+      names.splice(to, 0, ...names.splice(from, 1));
+      return { ...current, order: names };
+    });
+
+  const startResize = (
+    column: ResultColumn,
+    event: ReactPointerEvent<HTMLSpanElement>
+  ) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const name = column.name;
+    const startX = event.clientX;
+    const startWidth = columnWidth(column);
+    const onMove = (moveEvent: PointerEvent) => {
+      const width = Math.max(
+        MIN_COLUMN_WIDTH,
+        Math.round(startWidth + moveEvent.clientX - startX)
+      );
+      setView((current) => ({
+        ...current,
+        widths: { ...current.widths, [name]: width },
+      }));
+    };
+    const onUp = () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+    };
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+  };
+
+  const renderGridRow = (
+    className: string,
+    renderCell: (column: ResultColumn) => GridCell
+  ) => {
+    if (visibleColumns.length === 0) {
+      return null;
+    }
+    const cell = (column: ResultColumn, sticky: boolean) => {
+      const { className: cellClassName, props, content } = renderCell(column);
+      return (
+        <div
+          {...props}
+          className={cn(
+            "flex shrink-0 items-center overflow-hidden px-3",
+            sticky && "sticky left-0 z-10 border-r border-border/50 bg-background",
+            cellClassName
+          )}
+          key={column.name}
+          style={{ width: columnWidth(column), height: ROW_HEIGHT }}
+        >
+          {content}
+        </div>
+      );
+    };
+    return (
+      <div className={cn("flex", className)} style={{ width: totalWidth }}>
+        {cell(visibleColumns[0], true)}
+        <div
+          className="shrink-0"
+          style={{ width: offsets[firstColumn] - offsets[1] }}
+        />
+        {windowedColumns.map((column) => cell(column, false))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <SearchIcon className="-translate-y-1/2 absolute top-1/2 left-2 size-3 text-muted-foreground" />
+          <Input
+            className="h-7 pl-7 text-xs"
+            onChange={(event) =>
+              setView((current) => ({ ...current, search: event.target.value }))
+            }
+            placeholder="Search all cells"
+            value={view.search}
+          />
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" type="button" variant="outline">
+              <Columns3Icon className="size-3" />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {orderResultColumns(columns, view).map((column) => (
+              <DropdownMenuCheckboxItem
+                checked={!view.hidden.includes(column.name)}
+                key={column.name}
+                onCheckedChange={(checked) =>
+                  setView((current) => ({
+                    ...current,
+                    hidden: checked
+                      ? current.hidden.filter((name) => name !== column.name)
+                      : [...current.hidden, column.name],
+                  }))
+                }
+                onSelect={(event) => event.preventDefault()}
+              >
+                {column.name}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      {/* The grid scrolls itself (overflow: auto), so the conversation's
+          stick-to-bottom wheel handling leaves it alone, and overscroll
+          containment keeps its scroll from chaining into the conversation. */}
+      <div
+        className="relative max-h-[420px] w-full max-w-full overflow-auto overscroll-contain rounded-md border border-border/50 text-left text-xs"
+        ref={scrollRef}
+      >
+        <div
+          className="relative"
+          style={{
+            width: totalWidth,
+            height: HEADER_HEIGHT + viewRows.length * ROW_HEIGHT,
+          }}
+        >
+          <div className="sticky top-0 z-20 bg-background">
+            {renderGridRow(
+              "border-b border-border/50 text-muted-foreground",
+              (column) => {
+                const direction =
+                  view.sort?.column === column.name
+                    ? view.sort.direction
+                    : undefined;
+                const SortIcon =
+                  direction === "asc"
+                    ? ArrowUpIcon
+                    : direction === "desc"
+                      ? ArrowDownIcon
+                      : ArrowUpDownIcon;
+                return {
+                  className: cn(
+                    "relative font-medium capitalize",
+                    draggedColumn === column.name && "opacity-50"
+                  ),
+                  props: {
+                    draggable: true,
+                    onDragEnd: () => setDraggedColumn(undefined),
+                    onDragOver: (event) => event.preventDefault(),
+                    onDragStart: () => setDraggedColumn(column.name),
+                    onDrop: () => {
+                      if (draggedColumn) {
+                        moveColumn(draggedColumn, column.name);
+                      }
+                      setDraggedColumn(undefined);
+                    },
+                    title: column.type,
+                  },
+                  content: (
+                    <>
+                      <button
+                        className={cn(
+                          "flex w-full min-w-0 items-center gap-1 hover:text-foreground",
+                          column.kind === "number" && "justify-end"
+                        )}
+                        onClick={() => toggleSort(column.name)}
+                        type="button"
+                      >
+                        <span className="truncate">{column.name}</span>
+                        <SortIcon
+                          className={cn(
+                            "size-3 shrink-0",
+                            !direction && "opacity-30"
+                          )}
+                        />
+                      </button>
+                      <span
+                        className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-border"
+                        onPointerDown={(event) => startResize(column, event)}
+                      />
+                    </>
+                  ),
+                };
+              }
+            )}
+            {renderGridRow("border-b border-border/50", (column) => ({
+              className: "px-2",
+              content: (
+                <Input
+                  className="h-6 px-1.5 text-[11px]"
+                  onChange={(event) =>
+                    setView((current) => ({
+                      ...current,
+                      filters: {
+                        ...current.filters,
+                        [column.name]: event.target.value,
+                      },
+                    }))
+                  }
+                  placeholder={
+                    column.kind === "text" ||
+                    column.kind === "json" ||
+                    column.kind === "boolean"
+                      ? "Filter"
+                      : "Filter, e.g. >= 10"
+                  }
+                  value={view.filters[column.name] ?? ""}
+                />
+              ),
+            }))}
+          </div>
+          <div style={{ height: firstRow * ROW_HEIGHT }} />
+          {viewRows.slice(firstRow, lastRow).map((row, offset) => (
+            <div key={`row-${firstRow + offset}`}>
+              {renderGridRow("border-b border-border/30", (column) => {
+                const value = row[column.name];
+                return {
+                  className: cn(
+                    "text-[11px]",
+                    column.kind === "number" && "justify-end"
+                  ),
+                  props: {
+                    title: typeof value === "string" ? value : undefined,
+                  },
+                  content: (
+                    <div className="min-w-0 truncate">
+                      <ResultCell column={column} value={value} />
+                    </div>
+                  ),
+                };
+              })}
+            </div>
+          ))}
+        </div>
+        {visibleColumns.length === 0 ? (
+          <p className="p-3 text-muted-foreground">All columns are hidden.</p>
+        ) : null}
+      </div>
+      {viewRows.length !== rows.length ? (
+        <p className="text-[11px] text-muted-foreground">
+          Showing {viewRows.length} of {rows.length} loaded rows
+        </p>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { BookmarkCheckIcon, BookmarkIcon, Loader2Icon } from "lucide-react";
+import { useState, type FormEvent } from "react";
+
+export type SaveQueryButtonProps = {
+  sql: string;
+  /** Question the query answered; also the suggested name. */
+  question?: string;
+  project?: string;
+};
+
+const MAX_SUGGESTED_NAME_LENGTH = 80;
+
+const suggestName = (question?: string) => {
+  const text = question?.replace(/\s+/g, " ").trim() ?? "";
+  return text.length > MAX_SUGGESTED_NAME_LENGTH
+    ? `${text.slice(0, MAX_SUGGESTED_NAME_LENGTH - 1).trimEnd()}…`
+    : text;
+};
+
+export const SaveQueryButton = ({
+  sql,
+  question,
+  project,
+}: SaveQueryButtonProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [tags, setTags] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | undefined>();
+  // Remembers which SQL was saved so an edited revision can be saved again.
+  const [savedSql, setSavedSql] = useState<string | undefined>();
+
+  const open = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setName(suggestName(question));
+      setTags("");
+      setSaveError(undefined);
+    }
+    setIsOpen(nextOpen);
+  };
+
+  const save = async (event: FormEvent) => {
+    event.preventDefault();
+    // React bubbles portal events, so a card inside another form (the
+    // saved query library opens from the prompt input) must not submit it.
+    event.stopPropagation();
+    setIsSaving(true);
+    setSaveError(undefined);
+    try {
+      const response = await fetch("/api/queries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          sql,
+          question,
+          project,
+          tags: tags.split(","),
+        }),
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => undefined)) as
+          | { error?: { message?: string } }
+          | undefined;
+        setSaveError(
+          payload?.error?.message ??
+            `Request failed with status ${response.status}.`
+        );
+        return;
+      }
+      setSavedSql(sql);
+      setIsOpen(false);
+    } catch (fetchError) {
+      setSaveError(
+        fetchError instanceof Error ? fetchError.message : String(fetchError)
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={open} open={isOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" type="button" variant="ghost">
+          {savedSql === sql ? (
+            <BookmarkCheckIcon className="size-3" />
+          ) : (
+            <BookmarkIcon className="size-3" />
+          )}
+          {savedSql === sql ? "Saved" : "Save"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form className="space-y-4" onSubmit={save}>
+          <DialogHeader>
+            <DialogTitle>Save query</DialogTitle>
+            <DialogDescription>
+              Saved queries can be re-run from the library and reused by the
+              assistant for similar questions.
+            </DialogDescription>
+          </DialogHeader>
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Name</span>
+            <Input
+              autoFocus
+              onChange={(event) => setName(event.target.value)}
+              required
+              value={name}
+            />
+          </label>
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Tags</span>
+            <Input
+              onChange={(event) => setTags(event.target.value)}
+              placeholder="revenue, weekly"
+              value={tags}
+            />
+          </label>
+          {saveError ? (
+            <p className="text-destructive text-xs">{saveError}</p>
+          ) : null}
+          <DialogFooter>
+            <Button disabled={isSaving || !name.trim()} type="submit">
+              {isSaving ? <Loader2Icon className="size-3 animate-spin" /> : null}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,126 @@
+"use client";
+
+import type { SchemaOutline } from "@/lib/schema-snapshot";
+import { cn } from "@/lib/utils";
+import { PostgreSQL, sql, type SQLNamespace } from "@codemirror/lang-sql";
+import { Compartment, EditorState } from "@codemirror/state";
+import { keymap } from "@codemirror/view";
+import { basicSetup, EditorView } from "codemirror";
+import { useEffect, useRef } from "react";
+
+export type SqlEditorProps = {
+  value: string;
+  onChange: (value: string) => void;
+  /** Relations and columns offered by autocompletion. */
+  schema?: SchemaOutline;
+  /** Called on Mod-Enter. */
+  onRun?: () => void;
+  className?: string;
+};
+
+const editorTheme = EditorView.theme({
+  "&": { fontSize: "12px", backgroundColor: "transparent" },
+  "&.cm-focused": { outline: "none" },
+  ".cm-content": { fontFamily: "var(--font-geist-mono, monospace)" },
+  ".cm-gutters": { backgroundColor: "transparent", border: "none" },
+  ".cm-scroller": { maxHeight: "320px" },
+});
+
+const toNamespace = (schema: SchemaOutline): SQLNamespace => {
+  const namespace: Record<string, Record<string, SQLNamespace>> = {};
+  for (const relation of schema.relations) {
+    namespace[relation.schema] ??= {};
+    namespace[relation.schema][relation.name] = relation.columns.map(
+      (column) => ({ label: column.name, detail: column.type, type: "property" })
+    );
+  }
+  return namespace;
+};
+
+const sqlLanguage = (schema?: SchemaOutline) =>
+  sql({
+    dialect: PostgreSQL,
+    schema: schema ? toNamespace(schema) : undefined,
+    defaultSchema: schema?.schemas.includes("public") ? "public" : undefined,
+  });
+
+export const SqlEditor = ({
+  value,
+  onChange,
+  schema,
+  onRun,
+  className,
+}: SqlEditorProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const languageRef = useRef(new Compartment());
+  // The editor is created once; callbacks are read through refs so they
+  // always see the latest props.
+  const onChangeRef = useRef(onChange);
+  const onRunRef = useRef(onRun);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+    onRunRef.current = onRun;
+  }, [onChange, onRun]);
+
+  useEffect(() => {
+    if (!containerRef.current) {
+      return;
+    }
+    const view = new EditorView({
+      parent: containerRef.current,
+      state: EditorState.create({
+        doc: value,
+        extensions: [
+          keymap.of([
+            {
+              key: "Mod-Enter",
+              run: () => {
+                onRunRef.current?.();
+                return true;
+              },
+            },
+          ]),
+          basicSetup,
+          languageRef.current.of(sqlLanguage(schema)),
+          editorTheme,
+          EditorView.lineWrapping,
+          EditorView.updateListener.of((update) => {
+            if (update.docChanged) {
+              onChangeRef.current(update.state.doc.toString());
+            }
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+    // The initial value and schema are applied by the effects below.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: languageRef.current.reconfigure(sqlLanguage(schema)),
+    });
+  }, [schema]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view && view.state.doc.toString() !== value) {
+      view.dispatch({
+        changes: { from: 0, to: view.state.doc.length, insert: value },
+      });
+    }
+  }, [value]);
+
+  return (
+    <div
+      className={cn("overflow-hidden text-left", className)}
+      ref={containerRef}
+    />
+  );
+};
@@ -1,14 +1,115 @@
 "use client";
 
-import { useState } from "react";
-import { ChevronDownIcon } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import {
+  ChartColumnIcon,
+  ChevronDownIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  DatabaseIcon,
+  Loader2Icon,
+  NetworkIcon,
+  PencilIcon,
+  PlayIcon,
+  TableIcon,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ButtonGroup } from "@/components/ui/button-group";
+import type { QueryPlanNode } from "@/lib/query-plan";
+import type { SchemaOutline } from "@/lib/schema-snapshot";
+import { inferChartSpec, type ChartSpec } from "@/lib/result-chart";
+import {
+  describeResultColumns,
+  type ResultColumn,
+} from "@/lib/result-columns";
+import {
+  formatSqlExecutionError,
+  type SqlExecutionError,
+} from "@/lib/sql-errors";
 import { CodeBlock } from "./code-block";
+import { PinToDashboardButton } from "./pin-to-dashboard-button";
+import { QueryPlanViewer } from "./query-plan";
+import { ResultChart } from "./result-chart";
+import { ResultExportMenu } from "./result-export-menu";
+import { ResultTable } from "./result-table";
+import { SaveQueryButton } from "./save-query-button";
+import { SqlEditor } from "./sql-editor";
 
 type TabularRow = Record<string, unknown>;
 
-type SupabaseSqlResultProps = {
+/** One run of the card's query: the original tool result or a user edit. */
+type SqlRevision = {
+  /** The query as it ran, with the row cap applied. */
   sql?: string;
+  /** The query before the row cap; what gets exported, saved and pinned. */
+  sourceSql?: string;
   rows?: unknown;
+  columns?: ResultColumn[];
+  truncated?: boolean;
+  nextCursor?: string;
+  error?: SqlExecutionError;
+  /** Chart chosen by the model; otherwise one is inferred from the columns. */
+  chart?: ChartSpec;
+};
+
+type SupabaseSqlResultProps = SqlRevision & {
+  /** MCP server the query ran against. */
+  project?: string;
+  projectLabel?: string;
+  /** User question the query answers, kept when the query is saved. */
+  question?: string;
+  /** Stable id (e.g. the tool call id) under which table view state is kept. */
+  viewKey?: string;
+};
+
+type SqlPageResponse = {
+  rows?: unknown;
+  nextCursor?: string;
+  error?: SqlExecutionError;
+};
+
+type SqlRunResponse = Omit<SqlRevision, "chart">;
+
+type SqlExplainResponse = {
+  plan?: QueryPlanNode;
+  error?: SqlExecutionError;
+};
+
+// Like the table view state, edited revisions survive re-renders and remounts
+// of the message they belong to.
+const revisionStore = new Map<string, SqlRevision[]>();
+
+const usePersistentRevisions = (viewKey?: string) => {
+  const [revisions, setRevisions] = useState<SqlRevision[]>(
+    () => (viewKey ? revisionStore.get(viewKey) : undefined) ?? []
+  );
+  useEffect(() => {
+    if (viewKey) {
+      revisionStore.set(viewKey, revisions);
+    }
+  }, [viewKey, revisions]);
+  return [revisions, setRevisions] as const;
+};
+
+// Autocompletion outlines, shared by every card of the same project.
+const schemaOutlines = new Map<string, Promise<SchemaOutline>>();
+
+const loadSchemaOutline = (project?: string): Promise<SchemaOutline> => {
+  const key = project ?? "";
+  let outline = schemaOutlines.get(key);
+  if (!outline) {
+    const query = project ? `?project=${encodeURIComponent(project)}` : "";
+    outline = fetch(`/api/schema${query}`).then((response) => {
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}.`);
+      }
+      return response.json() as Promise<SchemaOutline>;
+    });
+    outline.catch(() => schemaOutlines.delete(key));
+    schemaOutlines.set(key, outline);
+  }
+  return outline;
 };
 
 const isTabularRow = (value: unknown): value is TabularRow => {
@@ -32,111 +133,467 @@ const extractTabularRows = (rows: unknown): TabularRow[] | null => {
   return tabularRows;
 };
 
-const formatCellValue = (value: unknown): string => {
-  if (value === null) {
-    return "null";
+type SqlRevisionResultProps = SqlRevision & {
+  project?: string;
+  question?: string;
+  viewKey?: string;
+};
+
+const SqlRevisionResult = ({
+  project,
+  sourceSql,
+  rows,
+  columns: resultColumns,
+  truncated = false,
+  nextCursor,
+  error,
+  chart,
+  question,
+  viewKey,
+}: SqlRevisionResultProps) => {
+  const [loadedPages, setLoadedPages] = useState<TabularRow[][]>([]);
+  const [cursor, setCursor] = useState(nextCursor);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadError, setLoadError] = useState<string | undefined>();
+  const tabularRows = useMemo(() => {
+    const firstPageRows = extractTabularRows(rows);
+    return firstPageRows ? firstPageRows.concat(...loadedPages) : null;
+  }, [rows, loadedPages]);
+  const hasMoreRows = Boolean(cursor);
+
+  const loadMore = async () => {
+    if (!cursor || isLoadingMore) {
+      return;
+    }
+    setIsLoadingMore(true);
+    setLoadError(undefined);
+    try {
+      const response = await fetch("/api/sql/page", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cursor }),
+      });
+      const payload = (await response.json()) as SqlPageResponse;
+      if (!response.ok || payload.error) {
+        setLoadError(
+          payload.error
+            ? formatSqlExecutionError(payload.error)
+            : `Request failed with status ${response.status}.`
+        );
+        return;
+      }
+      setLoadedPages((pages) => [
+        ...pages,
+        extractTabularRows(payload.rows) ?? [],
+      ]);
+      setCursor(payload.nextCursor);
+    } catch (fetchError) {
+      setLoadError(
+        fetchError instanceof Error ? fetchError.message : String(fetchError)
+      );
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+  const columns = useMemo(
+    () =>
+      resultColumns && resultColumns.length > 0
+        ? resultColumns
+        : describeResultColumns(tabularRows ?? []),
+    [resultColumns, tabularRows]
+  );
+  const chartSpec = useMemo(
+    () =>
+      chart ??
+      (tabularRows ? inferChartSpec(columns, tabularRows) : undefined),
+    [chart, columns, tabularRows]
+  );
+  const [display, setDisplay] = useState<"table" | "chart">("chart");
+  const showChart = display === "chart" && chartSpec !== undefined;
+
+  if (error) {
+    return (
+      <div className="whitespace-pre-wrap rounded-md border border-destructive/40 bg-destructive/5 p-3 font-mono text-[11px] text-destructive">
+        {formatSqlExecutionError(error)}
+      </div>
+    );
   }
-  if (value === undefined) {
-    return "";
+  if (!tabularRows) {
+    return rows !== undefined ? (
+      <CodeBlock
+        code={typeof rows === "string" ? rows : JSON.stringify(rows, null, 2)}
+        language="json"
+      />
+    ) : null;
   }
-  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
-    return String(value);
+  if (tabularRows.length === 0) {
+    return (
+      <div className="rounded-md border border-dashed p-3 text-xs text-muted-foreground">
+        No rows returned.
+      </div>
+    );
   }
-  return JSON.stringify(value);
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-[11px] uppercase tracking-wide text-muted-foreground">
+          {tabularRows.length} {tabularRows.length === 1 ? "row" : "rows"}
+          {loadedPages.length > 0 ? ` · page ${loadedPages.length + 1}` : null}
+          {hasMoreRows
+            ? " · more rows available"
+            : truncated && !nextCursor
+              ? " · truncated; add an ORDER BY to load more"
+              : null}
+        </p>
+        <div className="flex items-center gap-2">
+          {chartSpec ? (
+            <ButtonGroup>
+              <Button
+                aria-label="Show table"
+                onClick={() => setDisplay("table")}
+                size="sm"
+                type="button"
+                variant={showChart ? "outline" : "secondary"}
+              >
+                <TableIcon className="size-3" />
+              </Button>
+              <Button
+                aria-label="Show chart"
+                onClick={() => setDisplay("chart")}
+                size="sm"
+                type="button"
+                variant={showChart ? "secondary" : "outline"}
+              >
+                <ChartColumnIcon className="size-3" />
+              </Button>
+            </ButtonGroup>
+          ) : null}
+          {sourceSql ? (
+            <PinToDashboardButton
+              chart={showChart ? chartSpec : undefined}
+              project={project}
+              sql={sourceSql}
+              title={question}
+              view={showChart ? "chart" : "table"}
+            />
+          ) : null}
+          <ResultExportMenu
+            columns={columns}
+            project={project}
+            rows={tabularRows}
+            sql={hasMoreRows || truncated ? sourceSql : undefined}
+          />
+        </div>
+      </div>
+      {showChart ? (
+        <ResultChart
+          columns={columns}
+          rows={tabularRows}
+          spec={chartSpec}
+        />
+      ) : (
+        <ResultTable
+          columns={columns}
+          rows={tabularRows}
+          viewKey={viewKey}
+        />
+      )}
+      {hasMoreRows || loadError ? (
+        <div className="flex items-center gap-3">
+          {hasMoreRows ? (
+            <Button
+              disabled={isLoadingMore}
+              onClick={loadMore}
+              size="sm"
+              type="button"
+              variant="outline"
+            >
+              {isLoadingMore ? (
+                <Loader2Icon className="size-3 animate-spin" />
+              ) : null}
+              Load more
+            </Button>
+          ) : null}
+          {loadError ? (
+            <p className="whitespace-pre-wrap text-xs text-destructive">
+              {loadError}
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
 };
 
-export const SupabaseSqlResult = ({ sql, rows }: SupabaseSqlResultProps) => {
+export const SupabaseSqlResult = ({
+  project,
+  projectLabel,
+  question,
+  viewKey,
+  ...original
+}: SupabaseSqlResultProps) => {
+  const [revisions, setRevisions] = usePersistentRevisions(viewKey);
+  const [revisionIndex, setRevisionIndex] = useState(revisions.length);
   const [isSqlVisible, setIsSqlVisible] = useState(false);
-  const tabularRows = extractTabularRows(rows);
-  let columns: string[] = [];
-
-  if (tabularRows && tabularRows.length > 0) {
-    const allColumns = Array.from(
-      tabularRows.reduce((set, row) => {
-        Object.keys(row).forEach((key) => {
-          if (!set.has(key)) {
-            set.add(key);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [schemaOutline, setSchemaOutline] = useState<SchemaOutline>();
+  const [isRunning, setIsRunning] = useState(false);
+  const [runError, setRunError] = useState<SqlExecutionError | undefined>();
+  const [plan, setPlan] = useState<QueryPlanNode | undefined>();
+  const [isPlanVisible, setIsPlanVisible] = useState(false);
+  const [isExplaining, setIsExplaining] = useState(false);
+  const [explainError, setExplainError] = useState<string | undefined>();
+  const allRevisions = [original, ...revisions];
+  const revision = allRevisions[revisionIndex] ?? original;
+  const sql = revision.sql;
+
+  const selectRevision = (index: number) => {
+    setRevisionIndex(index);
+    setPlan(undefined);
+    setIsPlanVisible(false);
+    setExplainError(undefined);
+  };
+
+  const startEditing = () => {
+    setDraft(sql?.trim() ?? "");
+    setRunError(undefined);
+    setIsEditing(true);
+    setIsSqlVisible(true);
+    loadSchemaOutline(project)
+      .then(setSchemaOutline)
+      .catch((loadError) => {
+        console.warn("Unable to load the schema for autocompletion:", loadError);
+      });
+  };
+
+  const runDraft = async (confirmed = false) => {
+    if (!draft.trim() || isRunning) {
+      return;
+    }
+    setIsRunning(true);
+    setRunError(undefined);
+    try {
+      const response = await fetch("/api/sql/run", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sql: draft, project, confirmed }),
+      });
+      const payload = (await response.json()) as SqlRunResponse;
+      if (!response.ok || payload.error) {
+        setRunError(
+          payload.error ?? {
+            kind: "database",
+            message: `Request failed with status ${response.status}.`,
           }
-        });
-        return set;
-      }, new Set<string>())
-    );
-    columns = allColumns;
-  }
+        );
+        return;
+      }
+      setRevisions((current) => [...current, payload]);
+      selectRevision(revisions.length + 1);
+      setIsEditing(false);
+    } catch (fetchError) {
+      setRunError({
+        kind: "database",
+        message:
+          fetchError instanceof Error ? fetchError.message : String(fetchError),
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const toggleExplain = async () => {
+    if (isPlanVisible) {
+      setIsPlanVisible(false);
+      return;
+    }
+    setIsPlanVisible(true);
+    if (plan || !sql) {
+      return;
+    }
+    setIsExplaining(true);
+    setExplainError(undefined);
+    try {
+      const response = await fetch("/api/sql/explain", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sql, project }),
+      });
+      const payload = (await response.json()) as SqlExplainResponse;
+      if (!response.ok || !payload.plan) {
+        setExplainError(
+          payload.error
+            ? formatSqlExecutionError(payload.error)
+            : `Request failed with status ${response.status}.`
+        );
+        return;
+      }
+      setPlan(payload.plan);
+    } catch (fetchError) {
+      setExplainError(
+        fetchError instanceof Error ? fetchError.message : String(fetchError)
+      );
+    } finally {
+      setIsExplaining(false);
+    }
+  };
 
   return (
     <div className="space-y-4">
+      {project ? (
+        <Badge className="gap-1 font-normal" variant="secondary">
+          <DatabaseIcon className="size-3" />
+          {projectLabel ?? project}
+        </Badge>
+      ) : null}
       {sql ? (
         <div className="rounded-md border border-border/60">
-          <button
-            className="flex w-full items-center justify-between gap-2 px-3 py-2 text-left text-xs font-medium uppercase tracking-wide text-muted-foreground"
-            onClick={() => setIsSqlVisible((prev) => !prev)}
-            type="button"
-          >
-            Consulta SQL
-            <ChevronDownIcon
-              className={`size-4 transition-transform ${
-                isSqlVisible ? "rotate-180" : ""
-              }`}
-            />
-          </button>
-          {isSqlVisible ? (
+          <div className="flex items-center gap-2 pr-2">
+            <button
+              className="flex flex-1 items-center justify-between gap-2 px-3 py-2 text-left text-xs font-medium uppercase tracking-wide text-muted-foreground"
+              onClick={() => setIsSqlVisible((prev) => !prev)}
+              type="button"
+            >
+              Consulta SQL
+              <ChevronDownIcon
+                className={`size-4 transition-transform ${
+                  isSqlVisible ? "rotate-180" : ""
+                }`}
+              />
+            </button>
+            {allRevisions.length > 1 ? (
+              <div className="flex items-center gap-1 text-[11px] text-muted-foreground">
+                <Button
+                  aria-label="Previous revision"
+                  disabled={revisionIndex === 0}
+                  onClick={() => selectRevision(revisionIndex - 1)}
+                  size="icon-sm"
+                  type="button"
+                  variant="ghost"
+                >
+                  <ChevronLeftIcon className="size-3" />
+                </Button>
+                Revision {revisionIndex + 1} of {allRevisions.length}
+                <Button
+                  aria-label="Next revision"
+                  disabled={revisionIndex === allRevisions.length - 1}
+                  onClick={() => selectRevision(revisionIndex + 1)}
+                  size="icon-sm"
+                  type="button"
+                  variant="ghost"
+                >
+                  <ChevronRightIcon className="size-3" />
+                </Button>
+              </div>
+            ) : null}
+            <Button
+              disabled={isEditing}
+              onClick={startEditing}
+              size="sm"
+              type="button"
+              variant="ghost"
+            >
+              <PencilIcon className="size-3" />
+              Edit
+            </Button>
+            <Button
+              disabled={isExplaining}
+              onClick={toggleExplain}
+              size="sm"
+              type="button"
+              variant="ghost"
+            >
+              {isExplaining ? (
+                <Loader2Icon className="size-3 animate-spin" />
+              ) : (
+                <NetworkIcon className="size-3" />
+              )}
+              Explain
+            </Button>
+            {revision.sourceSql ? (
+              <SaveQueryButton
+                project={project}
+                question={question}
+                sql={revision.sourceSql}
+              />
+            ) : null}
+          </div>
+          {isEditing ? (
+            <div className="space-y-2 border-t border-border/60 p-2">
+              <SqlEditor
+                onChange={setDraft}
+                onRun={() => runDraft()}
+                schema={schemaOutline}
+                value={draft}
+              />
+              {runError ? (
+                <p className="whitespace-pre-wrap font-mono text-[11px] text-destructive">
+                  {formatSqlExecutionError(runError)}
+                </p>
+              ) : null}
+              <div className="flex items-center justify-end gap-2">
+                <Button
+                  onClick={() => setIsEditing(false)}
+                  size="sm"
+                  type="button"
+                  variant="ghost"
+                >
+                  Cancel
+                </Button>
+                {runError?.requiresConfirmation ? (
+                  <Button
+                    disabled={isRunning}
+                    onClick={() => runDraft(true)}
+                    size="sm"
+                    type="button"
+                    variant="outline"
+                  >
+                    Run anyway
+                  </Button>
+                ) : null}
+                <Button
+                  disabled={isRunning || !draft.trim()}
+                  onClick={() => runDraft()}
+                  size="sm"
+                  type="button"
+                >
+                  {isRunning ? (
+                    <Loader2Icon className="size-3 animate-spin" />
+                  ) : (
+                    <PlayIcon className="size-3" />
+                  )}
+                  Run
+                </Button>
+              </div>
+            </div>
+          ) : isSqlVisible ? (
             <div className="border-t border-border/60">
               <CodeBlock code={sql.trim()} language="sql" />
             </div>
           ) : null}
-        </div>
-      ) : null}
-      {tabularRows ? (
-        tabularRows.length > 0 ? (
-          <div className="space-y-2">
-            <p className="text-[11px] uppercase tracking-wide text-muted-foreground">
-              {tabularRows.length} {tabularRows.length === 1 ? "row" : "rows"}
-            </p>
-            <div className="w-full max-w-full overflow-x-auto">
-              <table className="min-w-full border-collapse text-left text-xs">
-                <thead>
-                  <tr className="border-b border-border/50 text-muted-foreground">
-                    {columns.map((column) => (
-                      <th key={column} className="px-3 py-2 font-medium capitalize">
-                        {column}
-                      </th>
-                    ))}
-                  </tr>
-                </thead>
-                <tbody>
-                  {tabularRows.map((row, rowIndex) => (
-                    <tr
-                      key={`row-${rowIndex}`}
-                      className="border-b border-border/30 last:border-0"
-                    >
-                      {columns.map((column) => (
-                        <td
-                          key={`${rowIndex}-${column}`}
-                          className="px-3 py-2 align-top font-mono text-[11px]"
-                        >
-                          {formatCellValue(row[column])}
-                        </td>
-                      ))}
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
+          {isPlanVisible && (plan || explainError) ? (
+            <div className="border-t border-border/60 p-2">
+              {plan ? (
+                <QueryPlanViewer plan={plan} />
+              ) : (
+                <p className="whitespace-pre-wrap text-xs text-destructive">
+                  {explainError}
+                </p>
+              )}
             </div>
-          </div>
-        ) : (
-          <div className="rounded-md border border-dashed p-3 text-xs text-muted-foreground">
-            No rows returned.
-          </div>
-        )
-      ) : rows !== undefined ? (
-        <CodeBlock
-          code={
-            typeof rows === "string" ? rows : JSON.stringify(rows, null, 2)
-          }
-          language="json"
-        />
+          ) : null}
+        </div>
       ) : null}
+      <SqlRevisionResult
+        {...revision}
+        key={revisionIndex}
+        project={project}
+        question={question}
+        viewKey={
+          viewKey && revisionIndex > 0 ? `${viewKey}:${revisionIndex}` : viewKey
+        }
+      />
     </div>
   );
 };
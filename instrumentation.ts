@@ -0,0 +1,15 @@
+// Starts the scheduled report and alert workers with the Node.js server. Set
+// REPORT_SCHEDULER=off or ALERT_RUNNER=off to run them only on demand.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+  if (process.env.REPORT_SCHEDULER !== "off") {
+    const { startReportScheduler } = await import("./lib/report-scheduler");
+    startReportScheduler();
+  }
+  if (process.env.ALERT_RUNNER !== "off") {
+    const { startAlertRunner } = await import("./lib/alert-runner");
+    startAlertRunner();
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeAlertCondition,
+  evaluateAlertCondition,
+} from "./alert-conditions";
+
+describe("evaluateAlertCondition", () => {
+  it("compares a column of the first row with a threshold", () => {
+    const condition = {
+      kind: "threshold",
+      column: "failed",
+      operator: ">=",
+      value: 10,
+    } as const;
+    expect(evaluateAlertCondition(condition, [{ failed: "12" }])).toEqual({
+      state: "triggered",
+      value: 12,
+      message: "failed is 12 (>= 10).",
+    });
+    expect(evaluateAlertCondition(condition, [{ failed: 3 }])).toMatchObject({
+      state: "ok",
+      value: 3,
+    });
+  });
+
+  it("reports unusable threshold results as errors", () => {
+    const condition = {
+      kind: "threshold",
+      column: "failed",
+      operator: ">",
+      value: 0,
+    } as const;
+    expect(evaluateAlertCondition(condition, []).state).toBe("error");
+    expect(evaluateAlertCondition(condition, [{ other: 1 }]).message).toBe(
+      'The result has no column "failed".'
+    );
+    expect(evaluateAlertCondition(condition, [{ failed: null }]).state).toBe(
+      "error"
+    );
+  });
+
+  it("counts rows beyond the row cap from the given row count", () => {
+    const condition = { kind: "row-count", operator: ">", value: 200 } as const;
+    expect(evaluateAlertCondition(condition, [], undefined, 250)).toEqual({
+      state: "triggered",
+      value: 250,
+      message: "Row count is 250 (> 200).",
+    });
+    expect(
+      evaluateAlertCondition(condition, Array(101).fill({})).state
+    ).toBe("ok");
+  });
+
+  it("compares row counts with the last successful check", () => {
+    const condition = { kind: "row-count-change" } as const;
+    expect(evaluateAlertCondition(condition, [], undefined, 5).state).toBe(
+      "ok"
+    );
+    expect(evaluateAlertCondition(condition, [], 5, 5).state).toBe("ok");
+    expect(evaluateAlertCondition(condition, [], 5, 250)).toEqual({
+      state: "triggered",
+      value: 250,
+      message: "The row count changed from 5 to 250.",
+    });
+  });
+});
+
+describe("describeAlertCondition", () => {
+  it("summarizes each kind of condition", () => {
+    expect(
+      describeAlertCondition({
+        kind: "threshold",
+        column: "total",
+        operator: "<",
+        value: 5,
+      })
+    ).toBe("total < 5");
+    expect(
+      describeAlertCondition({ kind: "row-count", operator: "=", value: 0 })
+    ).toBe("row count = 0");
+    expect(describeAlertCondition({ kind: "row-count-change" })).toBe(
+      "row count changes"
+    );
+  });
+});
@@ -0,0 +1,101 @@
+export const ALERT_OPERATORS = [">", ">=", "<", "<=", "=", "!="] as const;
+
+export type AlertOperator = (typeof ALERT_OPERATORS)[number];
+
+export type AlertCondition =
+  /** A numeric column of the first row compared with a threshold. */
+  | { kind: "threshold"; column: string; operator: AlertOperator; value: number }
+  /** The number of rows compared with a threshold. */
+  | { kind: "row-count"; operator: AlertOperator; value: number }
+  /** Any change in the number of rows since the previous check. */
+  | { kind: "row-count-change" };
+
+export type AlertState = "ok" | "triggered" | "error";
+
+export type AlertEvaluation = {
+  state: AlertState;
+  value?: number;
+  message: string;
+};
+
+const compare = (value: number, operator: AlertOperator, threshold: number) => {
+  switch (operator) {
+    case ">":
+      return value > threshold;
+    case ">=":
+      return value >= threshold;
+    case "<":
+      return value < threshold;
+    case "<=":
+      return value <= threshold;
+    case "=":
+      return value === threshold;
+    case "!=":
+      return value !== threshold;
+  }
+};
+
+/**
+ * Evaluates a condition against query rows. `previousValue` is the value of
+ * the last successful check, which change conditions compare against.
+ * `rowCount` is the size of the whole result when `rows` holds less of it.
+ */
+export const evaluateAlertCondition = (
+  condition: AlertCondition,
+  rows: Record<string, unknown>[],
+  previousValue?: number,
+  rowCount = rows.length
+): AlertEvaluation => {
+  if (condition.kind === "row-count-change") {
+    const value = rowCount;
+    if (previousValue === undefined || previousValue === value) {
+      return { state: "ok", value, message: `The query returned ${value} rows.` };
+    }
+    return {
+      state: "triggered",
+      value,
+      message: `The row count changed from ${previousValue} to ${value}.`,
+    };
+  }
+
+  let label = "Row count";
+  let value = rowCount;
+  if (condition.kind === "threshold") {
+    const [row] = rows;
+    if (!row) {
+      return { state: "error", message: "The query returned no rows." };
+    }
+    if (!(condition.column in row)) {
+      return {
+        state: "error",
+        message: `The result has no column "${condition.column}".`,
+      };
+    }
+    label = condition.column;
+    value = Number(row[condition.column]);
+    if (row[condition.column] === null || !Number.isFinite(value)) {
+      return {
+        state: "error",
+        message: `${label} is not a number (${String(row[condition.column])}).`,
+      };
+    }
+  }
+  return compare(value, condition.operator, condition.value)
+    ? {
+        state: "triggered",
+        value,
+        message: `${label} is ${value} (${condition.operator} ${condition.value}).`,
+      }
+    : { state: "ok", value, message: `${label} is ${value}.` };
+};
+
+export const describeAlertCondition = (condition: AlertCondition): string => {
+  switch (condition.kind) {
+    case "threshold":
+      return `${condition.column} ${condition.operator} ${condition.value}`;
+    case "row-count":
+      return `row count ${condition.operator} ${condition.value}`;
+    case "row-count-change":
+      return "row count changes";
+  }
+};
@@ -0,0 +1,304 @@
+import { randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  ALERT_OPERATORS,
+  type AlertCondition,
+  type AlertState,
+} from "./alert-conditions";
+import { nextCronOccurrence, parseCronExpression } from "./cron";
+import { readJsonFile, withFileLock, writeJsonFile } from "./json-files";
+import {
+  describeInvalidNotifier,
+  type NotificationResult,
+  type NotifierConfig,
+} from "./notifiers";
+
+export type AlertRule = {
+  id: string;
+  name: string;
+  queryId: string;
+  project?: string;
+  condition: AlertCondition;
+  /** Five-field cron expression for when the rule is checked. */
+  cron: string;
+  /** Minimum time between two notifications of the rule. */
+  cooldownMinutes: number;
+  notifiers: NotifierConfig[];
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+  nextCheckAt?: number;
+  lastCheckedAt?: number;
+  state?: AlertState;
+  /**
+   * Value seen by the last successful check. A failed check leaves it as it
+   * was, so the next successful check of a row-count-change rule compares
+   * against the count from before the failure.
+   */
+  lastValue?: number;
+  /** Why the last check failed; cleared by the next successful one. */
+  lastError?: string;
+  lastNotifiedAt?: number;
+};
+
+export type AlertRuleInput = Pick<AlertRule, "name" | "queryId" | "condition"> &
+  Partial<
+    Pick<
+      AlertRule,
+      "project" | "cron" | "cooldownMinutes" | "notifiers" | "enabled"
+    >
+  >;
+
+/** Edits to a rule; an empty or null project goes back to the default. */
+export type AlertRuleChanges = Partial<Omit<AlertRuleInput, "project">> & {
+  project?: string | null;
+};
+
+/** A state change of a rule, kept as its alert history. */
+export type AlertEvent = {
+  id: string;
+  ruleId: string;
+  at: number;
+  state: AlertState;
+  previousState?: AlertState;
+  value?: number;
+  message: string;
+  /** Whether a notification went out or was held back by the cool-down. */
+  notification: "sent" | "suppressed" | "none";
+  deliveries: NotificationResult[];
+};
+
+export class AlertRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AlertRuleError";
+  }
+}
+
+const DEFAULT_ALERT_RULES_FILE = ".data/alert-rules.json";
+const DEFAULT_ALERT_EVENTS_DIR = ".data/alert-events";
+const DEFAULT_ALERT_CRON = "*/5 * * * *";
+const DEFAULT_COOLDOWN_MINUTES = 60;
+const MAX_ALERT_EVENTS = 200;
+const RULE_ID_PATTERN = /^[\w-]+$/;
+
+const resolveRulesFile = (): string =>
+  path.resolve(
+    process.cwd(),
+    process.env.ALERT_RULES_FILE || DEFAULT_ALERT_RULES_FILE
+  );
+
+const resolveEventsFile = (ruleId: string): string => {
+  if (!RULE_ID_PATTERN.test(ruleId)) {
+    throw new AlertRuleError(`Invalid alert id "${ruleId}".`);
+  }
+  return path.resolve(
+    process.cwd(),
+    process.env.ALERT_EVENTS_DIR || DEFAULT_ALERT_EVENTS_DIR,
+    `${ruleId}.json`
+  );
+};
+
+const readRules = () => readJsonFile<AlertRule[]>(resolveRulesFile(), []);
+
+const writeRules = (rules: AlertRule[]) =>
+  writeJsonFile(resolveRulesFile(), rules);
+
+// Checks record their state while the API edits rules, so writes take turns.
+const lockRules = <T>(task: () => Promise<T>) =>
+  withFileLock(resolveRulesFile(), task);
+
+const computeNextCheckAt = (cron: string, after = new Date()): number => {
+  try {
+    return nextCronOccurrence(parseCronExpression(cron), after).getTime();
+  } catch (error) {
+    throw new AlertRuleError(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+};
+
+const validateCondition = (condition: AlertCondition): AlertCondition => {
+  if (condition.kind === "row-count-change") {
+    return { kind: "row-count-change" };
+  }
+  if (!ALERT_OPERATORS.includes(condition.operator)) {
+    throw new AlertRuleError(`Unknown operator "${condition.operator}".`);
+  }
+  if (typeof condition.value !== "number" || !Number.isFinite(condition.value)) {
+    throw new AlertRuleError("An alert threshold must be a number.");
+  }
+  if (condition.kind === "row-count") {
+    return {
+      kind: "row-count",
+      operator: condition.operator,
+      value: condition.value,
+    };
+  }
+  if (condition.kind === "threshold" && condition.column?.trim()) {
+    return {
+      kind: "threshold",
+      column: condition.column.trim(),
+      operator: condition.operator,
+      value: condition.value,
+    };
+  }
+  throw new AlertRuleError("A threshold alert needs the column to compare.");
+};
+
+const validateCooldown = (minutes: number): number => {
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    throw new AlertRuleError("The cool-down must be zero or more minutes.");
+  }
+  return Math.round(minutes);
+};
+
+const validateNotifiers = (notifiers: NotifierConfig[]): NotifierConfig[] =>
+  notifiers.map((notifier) => {
+    const problem = describeInvalidNotifier(notifier);
+    if (problem) {
+      throw new AlertRuleError(problem);
+    }
+    return notifier;
+  });
+
+export const listAlertRules = async (): Promise<AlertRule[]> =>
+  (await readRules()).sort((left, right) =>
+    left.name.localeCompare(right.name)
+  );
+
+export const loadAlertRule = async (
+  id: string
+): Promise<AlertRule | undefined> =>
+  (await readRules()).find((rule) => rule.id === id);
+
+export const createAlertRule = async (
+  input: AlertRuleInput
+): Promise<AlertRule> => {
+  const name = input.name.trim();
+  if (!name) {
+    throw new AlertRuleError("An alert needs a name.");
+  }
+  if (!input.queryId) {
+    throw new AlertRuleError("An alert watches a saved query.");
+  }
+  const cron = input.cron?.trim() || DEFAULT_ALERT_CRON;
+  const now = Date.now();
+  const rule: AlertRule = {
+    id: randomUUID(),
+    name,
+    queryId: input.queryId,
+    project: input.project || undefined,
+    condition: validateCondition(input.condition),
+    cron,
+    cooldownMinutes: validateCooldown(
+      input.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES
+    ),
+    notifiers: validateNotifiers(input.notifiers ?? []),
+    enabled: input.enabled ?? true,
+    createdAt: now,
+    updatedAt: now,
+    nextCheckAt: computeNextCheckAt(cron),
+  };
+  await lockRules(async () => writeRules([...(await readRules()), rule]));
+  return rule;
+};
+
+export const updateAlertRule = async (
+  id: string,
+  changes: AlertRuleChanges &
+    Partial<
+      Pick<AlertRule, "lastCheckedAt" | "state" | "lastValue" | "lastNotifiedAt">
+    > & { lastError?: string | null }
+): Promise<AlertRule | undefined> =>
+  lockRules(async () => {
+    const rules = await readRules();
+    const existing = rules.find((rule) => rule.id === id);
+    if (!existing) {
+      return undefined;
+    }
+    const cron = changes.cron?.trim() || existing.cron;
+    const updated: AlertRule = {
+      ...existing,
+      name: changes.name?.trim() || existing.name,
+      queryId: changes.queryId || existing.queryId,
+      project:
+        changes.project === undefined
+          ? existing.project
+          : changes.project || undefined,
+      cron,
+      condition: changes.condition
+        ? validateCondition(changes.condition)
+        : existing.condition,
+      cooldownMinutes:
+        changes.cooldownMinutes === undefined
+          ? existing.cooldownMinutes
+          : validateCooldown(changes.cooldownMinutes),
+      notifiers: changes.notifiers
+        ? validateNotifiers(changes.notifiers)
+        : existing.notifiers,
+      enabled: changes.enabled ?? existing.enabled,
+      lastCheckedAt: changes.lastCheckedAt ?? existing.lastCheckedAt,
+      state: changes.state ?? existing.state,
+      lastValue: changes.lastValue ?? existing.lastValue,
+      lastError:
+        changes.lastError === undefined
+          ? existing.lastError
+          : changes.lastError ?? undefined,
+      lastNotifiedAt: changes.lastNotifiedAt ?? existing.lastNotifiedAt,
+      updatedAt: Date.now(),
+      nextCheckAt:
+        changes.cron !== undefined ||
+        changes.enabled !== undefined ||
+        changes.lastCheckedAt !== undefined
+          ? computeNextCheckAt(cron)
+          : existing.nextCheckAt,
+    };
+    // A new condition starts over instead of comparing against the old one.
+    if (
+      changes.condition ||
+      (changes.queryId && changes.queryId !== existing.queryId)
+    ) {
+      delete updated.state;
+      delete updated.lastValue;
+      delete updated.lastError;
+    }
+    await writeRules(rules.map((rule) => (rule.id === id ? updated : rule)));
+    return updated;
+  });
+
+export const deleteAlertRule = async (id: string): Promise<boolean> => {
+  const deleted = await lockRules(async () => {
+    const rules = await readRules();
+    const remaining = rules.filter((rule) => rule.id !== id);
+    if (remaining.length === rules.length) {
+      return false;
+    }
+    await writeRules(remaining);
+    return true;
+  });
+  if (deleted) {
+    const file = resolveEventsFile(id);
+    await withFileLock(file, () => fs.rm(file, { force: true }));
+  }
+  return deleted;
+};
+
+/** Alert history of a rule, newest first. */
+export const listAlertEvents = async (
+  ruleId: string,
+  limit = MAX_ALERT_EVENTS
+): Promise<AlertEvent[]> =>
+  (await readJsonFile<AlertEvent[]>(resolveEventsFile(ruleId), [])).slice(
+    0,
+    limit
+  );
+
+export const recordAlertEvent = async (event: AlertEvent) => {
+  const file = resolveEventsFile(event.ruleId);
+  await withFileLock(file, async () => {
+    const events = await readJsonFile<AlertEvent[]>(file, []);
+    await writeJsonFile(file, [event, ...events].slice(0, MAX_ALERT_EVENTS));
+  });
+};
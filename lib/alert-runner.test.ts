@@ -0,0 +1,29 @@
+import { parse } from "libpg-query";
+import { describe, expect, it } from "vitest";
+import { toRowCountSql } from "./alert-runner";
+import { applyRowCap } from "./sql-limit";
+import { validateReadOnlySql } from "./sql-validator";
+
+describe("toRowCountSql", () => {
+  it("counts past the row cap the query was saved with", async () => {
+    const sql = "select * from orders where status = 'failed' order by id";
+    const capped = await applyRowCap(sql, await parse(sql), 100);
+
+    const countSql = await toRowCountSql(capped.sql);
+    expect(countSql).not.toMatch(/limit/i);
+    expect(countSql).toMatch(/^select count\(\*\) as row_count from \(/);
+    expect((await validateReadOnlySql(countSql)).ok).toBe(true);
+  });
+
+  it("keeps the query's own limit and drops a trailing semicolon", async () => {
+    expect(
+      await toRowCountSql("select * from orders order by id limit 500;")
+    ).toBe(
+      [
+        "select count(*) as row_count from (",
+        "select * from orders order by id limit 500",
+        ") as alert_rows",
+      ].join("\n")
+    );
+  });
+});
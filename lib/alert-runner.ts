@@ -0,0 +1,260 @@
+import { randomUUID } from "node:crypto";
+import {
+  describeAlertCondition,
+  evaluateAlertCondition,
+  type AlertEvaluation,
+} from "./alert-conditions";
+import {
+  listAlertEvents,
+  listAlertRules,
+  recordAlertEvent,
+  updateAlertRule,
+  type AlertEvent,
+  type AlertRule,
+} from "./alert-rules";
+import {
+  createNotifier,
+  formatRowsPreview,
+  sendNotification,
+  toFileName,
+  type Notification,
+  type Notifier,
+} from "./notifiers";
+import { loadSavedQuery } from "./query-library";
+import type { ResultColumn } from "./result-columns";
+import { formatSqlExecutionError } from "./sql-errors";
+import { removeRowCap } from "./sql-limit";
+import { executeSupabaseSql } from "./supabase-mcp";
+
+export type AlertCheckOptions = {
+  now?: number;
+  /** Replaces the rule's own notifiers, e.g. with local stand-ins. */
+  notifiers?: Notifier[];
+};
+
+type AlertResult = {
+  columns: ResultColumn[];
+  rows: Record<string, unknown>[];
+};
+
+const DEFAULT_ALERT_TICK_MS = 30_000;
+
+// Fetched rows stop at the row cap, so row counts come from the database,
+// over the query without the cap it may have been saved with.
+export const toRowCountSql = async (sql: string) =>
+  [
+    "select count(*) as row_count from (",
+    (await removeRowCap(sql.trim())).replace(/;+$/, ""),
+    ") as alert_rows",
+  ].join("\n");
+
+const buildAlertNotification = (
+  rule: AlertRule,
+  event: AlertEvent,
+  result?: AlertResult
+): Notification => {
+  const at = new Date(event.at).toISOString();
+  const heading =
+    event.state === "ok"
+      ? `Resolved: ${rule.name}`
+      : event.state === "error"
+        ? `Alert failed: ${rule.name}`
+        : `Alert: ${rule.name}`;
+  const lines = [
+    `${heading} — ${at}`,
+    "",
+    event.message,
+    `Condition: ${describeAlertCondition(rule.condition)}`,
+  ];
+  if (result) {
+    lines.push("", ...formatRowsPreview(result.columns, result.rows));
+  }
+  return {
+    subject: heading,
+    summary: lines.join("\n"),
+    payload: { alert: { id: rule.id, name: rule.name }, event },
+    fileName: `alert-${toFileName(rule.name)}-${at.replace(/[:.]/g, "-")}`,
+  };
+};
+
+/**
+ * Checks a rule once and records the outcome. A notification goes out when
+ * the rule starts firing or fails, unless one was sent within the cool-down,
+ * and when a notified incident recovers. Staying in the same state notifies
+ * nobody. Returns the history event, or undefined when nothing changed.
+ */
+export const checkAlertRule = async (
+  rule: AlertRule,
+  { now = Date.now(), notifiers }: AlertCheckOptions = {}
+): Promise<AlertEvent | undefined> => {
+  let evaluation: AlertEvaluation;
+  let result: AlertResult | undefined;
+  try {
+    const query = await loadSavedQuery(rule.queryId);
+    if (!query) {
+      evaluation = {
+        state: "error",
+        message: `Saved query ${rule.queryId} no longer exists.`,
+      };
+    } else {
+      const countsRows = rule.condition.kind !== "threshold";
+      const execution = await executeSupabaseSql(
+        countsRows ? await toRowCountSql(query.sql) : query.sql,
+        { project: rule.project ?? query.project }
+      );
+      if (execution.ok) {
+        const rows = Array.isArray(execution.rows)
+          ? (execution.rows as Record<string, unknown>[])
+          : [];
+        const rowCount = Number(rows[0]?.row_count);
+        if (countsRows && !Number.isFinite(rowCount)) {
+          evaluation = {
+            state: "error",
+            message: "The row count of the query could not be read.",
+          };
+        } else if (countsRows) {
+          evaluation = evaluateAlertCondition(
+            rule.condition,
+            [],
+            rule.lastValue,
+            rowCount
+          );
+        } else {
+          result = { columns: execution.columns, rows };
+          evaluation = evaluateAlertCondition(
+            rule.condition,
+            rows,
+            rule.lastValue
+          );
+        }
+      } else {
+        evaluation = {
+          state: "error",
+          message: formatSqlExecutionError(execution.error),
+        };
+      }
+    }
+  } catch (error) {
+    evaluation = {
+      state: "error",
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const previousState = rule.state;
+  // Every change of the row count is its own incident.
+  const isNewIncident =
+    evaluation.state !== "ok" &&
+    (evaluation.state !== previousState ||
+      rule.condition.kind === "row-count-change");
+  // Recovering is only news to whoever heard about the incident.
+  const isRecovery =
+    evaluation.state === "ok" &&
+    (previousState === "error" ||
+      (previousState === "triggered" &&
+        rule.condition.kind !== "row-count-change")) &&
+    (await listAlertEvents(rule.id, 1))[0]?.notification === "sent";
+  const isCoolingDown =
+    rule.lastNotifiedAt !== undefined &&
+    now - rule.lastNotifiedAt < rule.cooldownMinutes * 60_000;
+  const notification: AlertEvent["notification"] = isNewIncident
+    ? isCoolingDown
+      ? "suppressed"
+      : "sent"
+    : isRecovery
+      ? "sent"
+      : "none";
+
+  await updateAlertRule(rule.id, {
+    lastCheckedAt: now,
+    state: evaluation.state,
+    // A failed check has no value and keeps the last good one to compare with.
+    lastValue: evaluation.state === "error" ? undefined : evaluation.value,
+    lastError: evaluation.state === "error" ? evaluation.message : null,
+    lastNotifiedAt: notification === "sent" ? now : undefined,
+  });
+  if (evaluation.state === previousState && notification === "none") {
+    return undefined;
+  }
+
+  const event: AlertEvent = {
+    id: randomUUID(),
+    ruleId: rule.id,
+    at: now,
+    state: evaluation.state,
+    previousState,
+    value: evaluation.value,
+    message: evaluation.message,
+    notification,
+    deliveries: [],
+  };
+  if (notification === "sent") {
+    event.deliveries = await sendNotification(
+      notifiers ?? rule.notifiers.map(createNotifier),
+      buildAlertNotification(rule, event, result)
+    );
+  }
+  await recordAlertEvent(event);
+  return event;
+};
+
+/** Checks every enabled rule whose next check time has passed, one at a time. */
+export const runDueAlerts = async (
+  now = Date.now(),
+  options?: Omit<AlertCheckOptions, "now">
+): Promise<AlertEvent[]> => {
+  const due = (await listAlertRules()).filter(
+    (rule) =>
+      rule.enabled && rule.nextCheckAt !== undefined && rule.nextCheckAt <= now
+  );
+  const events: AlertEvent[] = [];
+  for (const rule of due) {
+    try {
+      const event = await checkAlertRule(rule, { ...options, now });
+      if (event) {
+        events.push(event);
+      }
+    } catch (error) {
+      console.error(`Alert "${rule.name}" could not be checked:`, error);
+    }
+  }
+  return events;
+};
+
+let runnerTimer: ReturnType<typeof setInterval> | undefined;
+let isTicking = false;
+
+const resolveTickMs = (): number => {
+  const configured = Number(process.env.ALERT_RUNNER_TICK_MS);
+  return Number.isFinite(configured) && configured > 0
+    ? configured
+    : DEFAULT_ALERT_TICK_MS;
+};
+
+/** Starts the in-process worker that checks due alert rules on a fixed tick. */
+export const startAlertRunner = () => {
+  if (runnerTimer) {
+    return;
+  }
+  const tick = async () => {
+    if (isTicking) {
+      return;
+    }
+    isTicking = true;
+    try {
+      await runDueAlerts();
+    } catch (error) {
+      console.error("Alert checks failed:", error);
+    } finally {
+      isTicking = false;
+    }
+  };
+  runnerTimer = setInterval(tick, resolveTickMs());
+  runnerTimer.unref?.();
+  void tick();
+};
+
+export const stopAlertRunner = () => {
+  clearInterval(runnerTimer);
+  runnerTimer = undefined;
+};
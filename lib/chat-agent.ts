@@ -0,0 +1,414 @@
+import {
+  convertToModelMessages,
+  streamText,
+  tool as createTool,
+  type UIMessage,
+} from "ai";
+import { z } from "zod";
+import { listSavedQueries } from "./query-library";
+import {
+  CHART_TYPES,
+  ChartSpecError,
+  validateChartSpec,
+} from "./result-chart";
+import {
+  describeOmittedRelations,
+  findSchemaRelations,
+  resolveRetrievalOptions,
+  selectSchemaContext,
+  type SchemaContext,
+} from "./schema-retrieval";
+import { summarizeSchemaRelations } from "./schema-snapshot";
+import {
+  compileMetricQuery,
+  loadSemanticLayer,
+  SemanticLayerError,
+  summarizeSemanticLayer,
+  TIME_GRAINS,
+  type SemanticLayer,
+} from "./semantic-layer";
+import {
+  executeSupabaseSql,
+  getSupabaseSchema,
+  type SupabaseSqlExecutionFailure,
+} from "./supabase-mcp";
+
+export type ChatAgentOptions = {
+  messages: UIMessage[];
+  model: string;
+  project?: string;
+};
+
+// Failed supabaseSql calls the model may repair before it has to give up.
+const MAX_SQL_REPAIR_ATTEMPTS = 3;
+// Saved queries returned per supabaseSavedQueries call.
+const MAX_SAVED_QUERY_MATCHES = 5;
+
+/**
+ * Answers the conversation with the Supabase tools. Shared by the chat route
+ * and scheduled reports so both go through the same prompt and tools.
+ */
+export const streamChatAgent = async ({
+  messages,
+  model,
+  project,
+}: ChatAgentOptions) => {
+  const question =
+    messages
+      .findLast((message) => message.role === "user")
+      ?.parts.map((part) => (part.type === "text" ? part.text : ""))
+      .join(" ") ?? "";
+  const retrievalOptions = resolveRetrievalOptions();
+  const loadSchemaContext = async (): Promise<SchemaContext> =>
+    selectSchemaContext(
+      await getSupabaseSchema({ project }),
+      question,
+      retrievalOptions
+    );
+
+  // Relevant tables go straight into the system prompt so most questions need
+  // no supabaseSchema round-trip; the chat still works if the database is down.
+  let schemaContext: SchemaContext | undefined;
+  try {
+    schemaContext = await loadSchemaContext();
+  } catch (error) {
+    console.error("Unable to preload the Supabase schema:", error);
+  }
+
+  let semanticLayer: SemanticLayer | undefined;
+  try {
+    semanticLayer = loadSemanticLayer();
+  } catch (error) {
+    console.error("Ignoring the semantic layer:", error);
+  }
+
+  const supabaseSchemaTool = createTool({
+    description:
+      "Inspect the Supabase Postgres schema via the MCP server: tables, views and materialized views with column types (? marks nullable), enum values, primary keys, foreign keys (->), indexes and comments. Without arguments it returns the tables most relevant to the question plus the names of the others; pass tables to get the full definition of specific ones.",
+    inputSchema: z.object({
+      tables: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Tables or views to describe, as schema.name or bare name. Omit to get the most relevant ones."
+        ),
+    }),
+    execute: async ({ tables }) => {
+      if (tables && tables.length > 0) {
+        const { relations, missing } = findSchemaRelations(
+          await getSupabaseSchema({ project }),
+          tables
+        );
+        return {
+          summary: summarizeSchemaRelations(relations),
+          missing: missing.length > 0 ? missing : undefined,
+        };
+      }
+      const context = await loadSchemaContext();
+      return {
+        summary: summarizeSchemaRelations(context.relations),
+        otherTables:
+          context.omitted.length > 0
+            ? describeOmittedRelations(context.omitted)
+            : undefined,
+      };
+    },
+  });
+
+  // Failed queries since the last success form one repair chain. Once the
+  // chain is spent, the next retry is refused and later queries start over.
+  let sqlFailures = 0;
+  let lastSqlFailure: SupabaseSqlExecutionFailure | undefined;
+  const runRepairableSql = async (sql: string, confirmed?: boolean) => {
+    if (lastSqlFailure && sqlFailures >= MAX_SQL_REPAIR_ATTEMPTS) {
+      const result = lastSqlFailure;
+      sqlFailures = 0;
+      lastSqlFailure = undefined;
+      return { result, attemptsRemaining: 0 };
+    }
+    const result = await executeSupabaseSql(sql, { project, confirmed });
+    if (result.ok) {
+      sqlFailures = 0;
+      lastSqlFailure = undefined;
+    } else if (!result.error.requiresConfirmation) {
+      sqlFailures += 1;
+      lastSqlFailure = result;
+    }
+    return {
+      result,
+      attemptsRemaining: Math.max(MAX_SQL_REPAIR_ATTEMPTS - sqlFailures, 0),
+    };
+  };
+  const supabaseSqlTool = createTool({
+    description:
+      "Run safe, read-only SQL queries on the Supabase Postgres database via the MCP server. Use this for product or analytics questions that require real data.",
+    inputSchema: z.object({
+      sql: z
+        .string()
+        .describe("Read-only SQL (SELECT/WITH) to run against Supabase."),
+      confirmed: z
+        .boolean()
+        .optional()
+        .describe(
+          "Set to true only after the user explicitly agreed to run a query that was flagged as expensive."
+        ),
+    }),
+    execute: async ({ sql, confirmed }) => {
+      const { result, attemptsRemaining } = await runRepairableSql(
+        sql,
+        confirmed
+      );
+      if (!result.ok && result.error.requiresConfirmation) {
+        return {
+          project: result.project,
+          sql: result.sql,
+          error: result.error,
+          instruction:
+            "Tell the user the query is expensive, share the estimate and ask whether to run it. If they agree, call supabaseSql again with the same sql and confirmed: true; otherwise propose a narrower query.",
+        };
+      }
+      if (!result.ok) {
+        return {
+          project: result.project,
+          sql: result.sql,
+          error: result.error,
+          attemptsRemaining,
+          instruction:
+            attemptsRemaining > 0
+              ? "Fix the SQL using the error code, message, hint and position above (check names with supabaseSchema if needed) and call supabaseSql again."
+              : "Do not call supabaseSql again. Explain to the user what went wrong and what data is missing.",
+        };
+      }
+
+      return {
+        project: result.project,
+        sql: result.sql,
+        sourceSql: result.sourceSql,
+        rows: result.rows,
+        columns: result.columns,
+        truncated: result.truncated,
+        maxRows: result.maxRows,
+        nextCursor: result.nextCursor,
+      };
+    },
+  });
+
+  const supabaseChartTool = createTool({
+    description:
+      "Run a read-only SQL query and show the result as a chart with an explicit type, axes and series. Use it when the user asks for a chart or a specific visualization; supabaseSql already picks a sensible chart for simple time series and breakdowns.",
+    inputSchema: z.object({
+      sql: z
+        .string()
+        .describe("Read-only SQL (SELECT/WITH) that returns the chart data."),
+      type: z
+        .enum(CHART_TYPES)
+        .describe(
+          "line/area for trends over time, bar for categories, stacked-bar for two dimensions, scatter for two measures, kpi for a single number."
+        ),
+      x: z
+        .string()
+        .optional()
+        .describe("Result column for the x axis (the label for a kpi)."),
+      y: z
+        .array(z.string())
+        .min(1)
+        .describe("Numeric result columns to plot as series."),
+      series: z
+        .string()
+        .optional()
+        .describe(
+          "Result column whose values become separate stacked series; use with a single y column."
+        ),
+      title: z.string().optional().describe("Short chart title."),
+      confirmed: z
+        .boolean()
+        .optional()
+        .describe(
+          "Set to true only after the user explicitly agreed to run a query that was flagged as expensive."
+        ),
+    }),
+    execute: async ({ sql, confirmed, ...chart }) => {
+      const { result, attemptsRemaining } = await runRepairableSql(
+        sql,
+        confirmed
+      );
+      if (!result.ok) {
+        return {
+          project: result.project,
+          sql: result.sql,
+          error: result.error,
+          instruction: result.error.requiresConfirmation
+            ? "Tell the user the query is expensive, share the estimate and ask whether to run it. If they agree, call supabaseChart again with the same arguments and confirmed: true."
+            : attemptsRemaining > 0
+              ? "Fix the SQL using the error code, message, hint and position above and call supabaseChart again."
+              : "Do not call supabaseChart again. Explain to the user what went wrong and what data is missing.",
+        };
+      }
+
+      try {
+        validateChartSpec(chart, result.columns);
+      } catch (error) {
+        if (error instanceof ChartSpecError) {
+          return {
+            project: result.project,
+            sql: result.sql,
+            error: { kind: "validation" as const, message: error.message },
+            instruction:
+              "Pick the chart axes and series from the columns the query returns and call supabaseChart again.",
+          };
+        }
+        throw error;
+      }
+
+      return {
+        project: result.project,
+        sql: result.sql,
+        sourceSql: result.sourceSql,
+        rows: result.rows,
+        columns: result.columns,
+        truncated: result.truncated,
+        maxRows: result.maxRows,
+        nextCursor: result.nextCursor,
+        chart,
+      };
+    },
+  });
+
+  const supabaseMetricTool = createTool({
+    description:
+      "Compute a business metric defined in the semantic layer, optionally split by dimensions and a time grain and restricted by named filters and a date range. Always prefer this over hand-written SQL for metrics the semantic layer defines, so definitions stay consistent.",
+    inputSchema: z.object({
+      metric: z.string().describe("Metric name from the semantic layer."),
+      dimensions: z
+        .array(z.string())
+        .optional()
+        .describe("Dimension names to group by."),
+      filters: z
+        .array(z.string())
+        .optional()
+        .describe("Named filters to apply on top of the metric definition."),
+      timeGrain: z
+        .enum(TIME_GRAINS)
+        .optional()
+        .describe("Bucket the metric over time."),
+      from: z
+        .string()
+        .optional()
+        .describe("Inclusive start date (YYYY-MM-DD)."),
+      to: z.string().optional().describe("Exclusive end date (YYYY-MM-DD)."),
+      confirmed: z
+        .boolean()
+        .optional()
+        .describe(
+          "Set to true only after the user explicitly agreed to run a query that was flagged as expensive."
+        ),
+    }),
+    execute: async ({ confirmed, ...request }) => {
+      let sql: string;
+      try {
+        sql = compileMetricQuery(semanticLayer!, request);
+      } catch (error) {
+        if (error instanceof SemanticLayerError) {
+          return {
+            error: { kind: "validation" as const, message: error.message },
+            instruction:
+              "Fix the metric request using only names listed in the semantic layer and call supabaseMetric again.",
+          };
+        }
+        throw error;
+      }
+
+      const result = await executeSupabaseSql(sql, { project, confirmed });
+      if (!result.ok) {
+        return {
+          project: result.project,
+          sql: result.sql,
+          error: result.error,
+          instruction: result.error.requiresConfirmation
+            ? "Tell the user the query is expensive, share the estimate and ask whether to run it. If they agree, call supabaseMetric again with the same arguments and confirmed: true."
+            : "The semantic layer definition failed against the database. Explain this to the user instead of writing your own definition of the metric.",
+        };
+      }
+      return {
+        project: result.project,
+        sql: result.sql,
+        sourceSql: result.sourceSql,
+        rows: result.rows,
+        columns: result.columns,
+        truncated: result.truncated,
+        maxRows: result.maxRows,
+        nextCursor: result.nextCursor,
+      };
+    },
+  });
+
+  const supabaseSavedQueriesTool = createTool({
+    description:
+      "Search the library of queries users saved from earlier results. Call it before writing SQL for a question that sounds like a recurring report; a match can be run as-is or adapted with supabaseSql.",
+    inputSchema: z.object({
+      search: z
+        .string()
+        .describe('Keywords from the question, e.g. "weekly signups by country".'),
+    }),
+    execute: async ({ search }) => {
+      const queries = await listSavedQueries({
+        search,
+        project,
+        limit: MAX_SAVED_QUERY_MATCHES,
+      });
+      return {
+        queries: queries.map((query) => ({
+          name: query.name,
+          question: query.question,
+          tags: query.tags,
+          sql: query.sql,
+        })),
+      };
+    },
+  });
+
+  const tools = {
+    supabaseSchema: supabaseSchemaTool,
+    supabaseSavedQueries: supabaseSavedQueriesTool,
+    supabaseSql: supabaseSqlTool,
+    supabaseChart: supabaseChartTool,
+    ...(semanticLayer && Object.keys(semanticLayer.metrics).length > 0
+      ? { supabaseMetric: supabaseMetricTool }
+      : {}),
+  };
+
+  return streamText({
+    model: model,
+    messages: convertToModelMessages(messages),
+    tools,
+    stopWhen: [], // Allow multiple tool round-trips instead of stopping after the first tool result.
+    system: [
+      "You are a helpful assistant that can answer questions and help with tasks.",
+      "When users need information about the Supabase database, call supabaseSchema to inspect tables/columns and supabaseSql to execute read-only SQL queries instead of guessing.",
+      "Whenever the user requests data or metrics, prefer running supabaseSql and returning the raw rows so the UI can display a table; only summarize without a table if the user explicitly asks for it.",
+      "Never render Markdown tables in text responses unless the user specifically asks for a textual table—rely on the supabaseSql tool output for tabular data and skip any extra commentary unless requested.",
+      "Do not expose internal identifiers (IDs, UUIDs, technical keys) in responses unless a user explicitly asks for them; default to user-friendly fields because the audience is non-technical.",
+      "Reference tables and views by the schema-qualified names supabaseSchema lists (e.g. analytics.events); other schemas, including system catalogs, are not queryable.",
+      "If supabaseSql returns an error instead of rows, read its code, message, hint and position, correct the query and retry silently without apologizing to the user; only explain the failure once instruction tells you to stop retrying.",
+      "When a question looks like a report someone may have run before, call supabaseSavedQueries first and prefer a matching saved query (run it with supabaseSql, adapting filters or dates if the question differs) over writing new SQL.",
+      "The UI charts supabaseSql results automatically when their shape suggests one; call supabaseChart instead when the user asks for a particular chart type, axes or series.",
+      "When supabaseSql reports truncated: true only the first maxRows rows are shown; if it also returns a nextCursor the user can load further pages from the table themselves, so never re-query just to fetch more rows.",
+      "Only queries with an ORDER BY can be paged, so order any result that may exceed maxRows.",
+      ...(semanticLayer && Object.keys(semanticLayer.metrics).length > 0
+        ? [
+            "The semantic layer below holds the agreed business definitions. For any of these metrics call supabaseMetric instead of writing SQL, and never substitute your own definition.",
+            `Semantic layer:\n${summarizeSemanticLayer(semanticLayer)}`,
+          ]
+        : []),
+      ...(schemaContext
+        ? [
+            schemaContext.omitted.length > 0
+              ? `The database has more tables than fit here. These are the ones most relevant to the latest question; call supabaseSchema with tables to describe any other (${describeOmittedRelations(schemaContext.omitted)}).`
+              : "This is the complete database schema.",
+            `Schema:\n${summarizeSchemaRelations(schemaContext.relations)}`,
+          ]
+        : []),
+      "IMPORTANT: After returning supabaseSql results, never restate, serialize, or otherwise repeat the rows in text because the UI already shows that data.",
+    ].join(" "),
+  });
+};
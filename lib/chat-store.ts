@@ -0,0 +1,160 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { UIMessage } from "ai";
+import { readJsonFile, withFileLock, writeJsonFile } from "./json-files";
+
+export type ChatSummary = {
+  id: string;
+  title: string;
+  /** Whether the user renamed the chat, which stops automatic titles. */
+  customTitle?: boolean;
+  project?: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type StoredChat = ChatSummary & {
+  messages: UIMessage[];
+};
+
+export class ChatStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatStoreError";
+  }
+}
+
+const DEFAULT_CHAT_STORE_DIR = ".data/chats";
+const MAX_TITLE_LENGTH = 60;
+const UNTITLED_CHAT = "New chat";
+const CHAT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const resolveStoreDir = (): string =>
+  path.resolve(
+    process.cwd(),
+    process.env.CHAT_STORE_DIR || DEFAULT_CHAT_STORE_DIR
+  );
+
+// Ids come from the client and become file names, so anything beyond a
+// plain token is rejected.
+const resolveChatFile = (id: string): string => {
+  // test() would turn a missing id into the string "undefined".
+  if (typeof id !== "string" || !CHAT_ID_PATTERN.test(id)) {
+    throw new ChatStoreError(`Invalid chat id "${id}".`);
+  }
+  return path.join(resolveStoreDir(), `${id}.json`);
+};
+
+const messageText = (message: UIMessage): string =>
+  message.parts
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join(" ");
+
+/** Derives a title from the first question of a chat. */
+export const buildChatTitle = (messages: UIMessage[]): string => {
+  const question = messages.find((message) => message.role === "user");
+  const text = question ? messageText(question).replace(/\s+/g, " ").trim() : "";
+  if (!text) {
+    return UNTITLED_CHAT;
+  }
+  return text.length > MAX_TITLE_LENGTH
+    ? `${text.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : text;
+};
+
+export const loadChat = async (id: string): Promise<StoredChat | undefined> =>
+  readJsonFile<StoredChat | undefined>(resolveChatFile(id), undefined);
+
+const writeChat = (chat: StoredChat) =>
+  writeJsonFile(resolveChatFile(chat.id), chat, 0);
+
+export const saveChat = async (
+  id: string,
+  messages: UIMessage[],
+  project?: string
+): Promise<StoredChat> =>
+  withFileLock(resolveChatFile(id), async () => {
+    const existing = await loadChat(id);
+    const now = Date.now();
+    const chat: StoredChat = {
+      id,
+      title: existing?.customTitle ? existing.title : buildChatTitle(messages),
+      customTitle: existing?.customTitle,
+      project: project ?? existing?.project,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      messages,
+    };
+    await writeChat(chat);
+    return chat;
+  });
+
+export const renameChat = async (
+  id: string,
+  title: string
+): Promise<StoredChat | undefined> =>
+  withFileLock(resolveChatFile(id), async () => {
+    const existing = await loadChat(id);
+    if (!existing) {
+      return undefined;
+    }
+    const chat = { ...existing, title: title.trim(), customTitle: true };
+    await writeChat(chat);
+    return chat;
+  });
+
+export const deleteChat = async (id: string): Promise<boolean> =>
+  withFileLock(resolveChatFile(id), async () => {
+    try {
+      await fs.unlink(resolveChatFile(id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  });
+
+export const summarizeChat = (chat: StoredChat): ChatSummary => ({
+  id: chat.id,
+  title: chat.title,
+  customTitle: chat.customTitle,
+  project: chat.project,
+  createdAt: chat.createdAt,
+  updatedAt: chat.updatedAt,
+});
+
+/**
+ * Lists chats, most recently updated first. A query matches titles and the
+ * text of every message.
+ */
+export const listChats = async (query?: string): Promise<ChatSummary[]> => {
+  let files: string[];
+  try {
+    files = await fs.readdir(resolveStoreDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+  const needle = query?.trim().toLowerCase();
+  const chats = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => loadChat(path.basename(file, ".json")).catch(() => undefined))
+  );
+  return chats
+    .filter((chat): chat is StoredChat => Boolean(chat))
+    .filter(
+      (chat) =>
+        !needle ||
+        chat.title.toLowerCase().includes(needle) ||
+        chat.messages.some((message) =>
+          messageText(message).toLowerCase().includes(needle)
+        )
+    )
+    .sort((left, right) => right.updatedAt - left.updatedAt)
+    .map(summarizeChat);
+};
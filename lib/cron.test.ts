@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { CronError, nextCronOccurrence, parseCronExpression } from "./cron";
+
+// Dates are built and compared in local time, like the scheduler uses them.
+const next = (expression: string, after: Date) =>
+  nextCronOccurrence(parseCronExpression(expression), after);
+
+describe("parseCronExpression", () => {
+  it("expands lists, ranges, steps and names", () => {
+    const schedule = parseCronExpression("*/15 9-11 1,15 jan-mar mon-fri");
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("accepts aliases and 7 as Sunday", () => {
+    expect(parseCronExpression("@daily")).toMatchObject({
+      minutes: new Set([0]),
+      hours: new Set([0]),
+    });
+    expect([...parseCronExpression("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  it("rejects malformed expressions", () => {
+    for (const expression of [
+      "* * * *",
+      "60 * * * *",
+      "* * * * funday",
+      "*/0 * * * *",
+      "0 10-5 * * *",
+    ]) {
+      expect(() => parseCronExpression(expression)).toThrow(CronError);
+    }
+  });
+});
+
+describe("nextCronOccurrence", () => {
+  it("returns the next matching minute strictly after the given time", () => {
+    expect(next("30 10 * * *", new Date(2026, 0, 5, 10, 30))).toEqual(
+      new Date(2026, 0, 6, 10, 30)
+    );
+    expect(next("*/15 * * * *", new Date(2026, 0, 5, 10, 31, 20))).toEqual(
+      new Date(2026, 0, 5, 10, 45)
+    );
+  });
+
+  it("matches either a restricted day of month or day of week", () => {
+    // Thursday 1 January 2026; the 3rd is a Saturday, Monday is the 5th.
+    expect(next("0 8 3 * mon", new Date(2026, 0, 1, 12))).toEqual(
+      new Date(2026, 0, 3, 8)
+    );
+    expect(next("0 8 * * mon", new Date(2026, 0, 1, 12))).toEqual(
+      new Date(2026, 0, 5, 8)
+    );
+  });
+
+  it("rolls over months and years", () => {
+    expect(next("0 0 1 * *", new Date(2026, 11, 15))).toEqual(
+      new Date(2027, 0, 1)
+    );
+    expect(next("0 0 29 2 *", new Date(2026, 2, 1))).toEqual(
+      new Date(2028, 1, 29)
+    );
+  });
+
+  it("gives up on expressions that never match", () => {
+    expect(() => next("0 0 31 2 *", new Date(2026, 0, 1))).toThrow(
+      "never matches"
+    );
+  });
+});
@@ -0,0 +1,186 @@
+export type CronSchedule = {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 is Sunday. */
+  daysOfWeek: Set<number>;
+  /** Whether the day-of-month field was `*`. */
+  anyDayOfMonth: boolean;
+  /** Whether the day-of-week field was `*`. */
+  anyDayOfWeek: boolean;
+};
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronError";
+  }
+}
+
+type CronField = {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+};
+
+const CRON_FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: "jan feb mar apr may jun jul aug sep oct nov dec".split(" "),
+  },
+  // 7 is accepted as Sunday, like in most cron implementations.
+  {
+    name: "day of week",
+    min: 0,
+    max: 7,
+    names: "sun mon tue wed thu fri sat".split(" "),
+  },
+];
+
+const CRON_ALIASES: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+// Searching further than this means the expression can never match, e.g.
+// "0 0 31 2 *".
+const MAX_SEARCH_YEARS = 5;
+
+const parseValue = (value: string, field: CronField): number => {
+  const nameIndex = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  const parsed =
+    nameIndex === -1 ? Number(value) : nameIndex + (field.min === 1 ? 1 : 0);
+  if (!/^\d+$/.test(value) && nameIndex === -1) {
+    throw new CronError(`"${value}" is not a valid ${field.name}.`);
+  }
+  if (parsed < field.min || parsed > field.max) {
+    throw new CronError(
+      `${field.name} ${value} is outside ${field.min}-${field.max}.`
+    );
+  }
+  return parsed;
+};
+
+const parseField = (source: string, field: CronField): Set<number> => {
+  const values = new Set<number>();
+  for (const part of source.split(",")) {
+    const [range, stepSource] = part.split("/");
+    const step = stepSource === undefined ? 1 : Number(stepSource);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronError(`"${part}" has an invalid step for ${field.name}.`);
+    }
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (start > end) {
+        throw new CronError(`"${range}" is an empty ${field.name} range.`);
+      }
+    } else {
+      start = parseValue(range, field);
+      end = stepSource === undefined ? start : field.max;
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+};
+
+/**
+ * Parses a five-field cron expression (minute, hour, day of month, month, day
+ * of week) with lists, ranges, steps, month and weekday names and the usual
+ * @daily style aliases.
+ */
+export const parseCronExpression = (expression: string): CronSchedule => {
+  const trimmed = expression.trim();
+  const fields = (CRON_ALIASES[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new CronError(
+      `"${expression}" needs 5 fields (minute hour day month weekday).`
+    );
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (source, index) => parseField(source, CRON_FIELDS[index])
+  );
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+};
+
+// As in classic cron, a restricted day of month and day of week match when
+// either one does.
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+};
+
+/**
+ * Returns the first time strictly after `after` that the schedule matches,
+ * in the server's local time zone.
+ */
+export const nextCronOccurrence = (
+  schedule: CronSchedule,
+  after: Date
+): Date => {
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+  const limit = new Date(after.getTime());
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  while (candidate <= limit) {
+    if (!schedule.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1);
+      continue;
+    }
+    return candidate;
+  }
+  throw new CronError(`"${schedule.expression}" never matches.`);
+};
@@ -0,0 +1,220 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { readJsonFile, withFileLock, writeJsonFile } from "./json-files";
+import type { ChartSpec } from "./result-chart";
+
+export const TILE_VIEWS = ["table", "chart"] as const;
+
+export type TileView = (typeof TILE_VIEWS)[number];
+
+/** Columns a tile spans in the dashboard grid. */
+export const TILE_WIDTHS = [1, 2] as const;
+
+export type TileWidth = (typeof TILE_WIDTHS)[number];
+
+export type DashboardTile = {
+  id: string;
+  title: string;
+  sql: string;
+  project?: string;
+  view: TileView;
+  /** Chart pinned with the tile; otherwise one is inferred from the result. */
+  chart?: ChartSpec;
+  width: TileWidth;
+  createdAt: number;
+};
+
+export type Dashboard = {
+  id: string;
+  name: string;
+  /** Seconds between automatic refreshes; unset refreshes only on load. */
+  refreshIntervalSeconds?: number;
+  tiles: DashboardTile[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type DashboardSummary = Omit<Dashboard, "tiles"> & {
+  tileCount: number;
+};
+
+export type DashboardTileInput = Pick<DashboardTile, "title" | "sql"> &
+  Partial<Pick<DashboardTile, "project" | "view" | "chart" | "width">>;
+
+export type DashboardChanges = {
+  name?: string;
+  /** 0 turns automatic refreshes off. */
+  refreshIntervalSeconds?: number;
+  /** Tile layout in display order; tiles left out are kept at the end. */
+  layout?: { id: string; width?: TileWidth }[];
+};
+
+export class DashboardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DashboardError";
+  }
+}
+
+const DEFAULT_DASHBOARDS_FILE = ".data/dashboards.json";
+const MIN_REFRESH_INTERVAL_SECONDS = 30;
+
+const resolveDashboardsFile = (): string =>
+  path.resolve(
+    process.cwd(),
+    process.env.DASHBOARDS_FILE || DEFAULT_DASHBOARDS_FILE
+  );
+
+const readDashboards = () =>
+  readJsonFile<Dashboard[]>(resolveDashboardsFile(), []);
+
+const writeDashboards = (dashboards: Dashboard[]) =>
+  writeJsonFile(resolveDashboardsFile(), dashboards);
+
+const lockDashboards = <T>(task: () => Promise<T>) =>
+  withFileLock(resolveDashboardsFile(), task);
+
+const normalizeName = (name: string, label: string): string => {
+  const trimmed = name.replace(/\s+/g, " ").trim();
+  if (!trimmed) {
+    throw new DashboardError(`A ${label} needs a name.`);
+  }
+  return trimmed;
+};
+
+const normalizeRefreshInterval = (seconds: number): number | undefined => {
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    return undefined;
+  }
+  if (seconds < MIN_REFRESH_INTERVAL_SECONDS) {
+    throw new DashboardError(
+      `Dashboards refresh at most every ${MIN_REFRESH_INTERVAL_SECONDS} seconds.`
+    );
+  }
+  return Math.round(seconds);
+};
+
+// Reads, changes and writes the whole file under its lock; returns undefined
+// when the dashboard does not exist.
+const updateStoredDashboard = async (
+  id: string,
+  change: (dashboard: Dashboard) => Dashboard
+): Promise<Dashboard | undefined> =>
+  lockDashboards(async () => {
+    const dashboards = await readDashboards();
+    const existing = dashboards.find((dashboard) => dashboard.id === id);
+    if (!existing) {
+      return undefined;
+    }
+    const updated = { ...change(existing), updatedAt: Date.now() };
+    await writeDashboards(
+      dashboards.map((dashboard) => (dashboard.id === id ? updated : dashboard))
+    );
+    return updated;
+  });
+
+export const summarizeDashboard = ({
+  tiles,
+  ...dashboard
+}: Dashboard): DashboardSummary => ({ ...dashboard, tileCount: tiles.length });
+
+export const listDashboards = async (): Promise<DashboardSummary[]> =>
+  (await readDashboards())
+    .sort((left, right) => right.updatedAt - left.updatedAt)
+    .map(summarizeDashboard);
+
+export const loadDashboard = async (
+  id: string
+): Promise<Dashboard | undefined> =>
+  (await readDashboards()).find((dashboard) => dashboard.id === id);
+
+export const createDashboard = async (name: string): Promise<Dashboard> => {
+  const now = Date.now();
+  const dashboard: Dashboard = {
+    id: randomUUID(),
+    name: normalizeName(name, "dashboard"),
+    tiles: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  await lockDashboards(async () =>
+    writeDashboards([...(await readDashboards()), dashboard])
+  );
+  return dashboard;
+};
+
+export const updateDashboard = (
+  id: string,
+  { name, refreshIntervalSeconds, layout }: DashboardChanges
+): Promise<Dashboard | undefined> => {
+  const normalizedName =
+    name === undefined ? undefined : normalizeName(name, "dashboard");
+  const interval =
+    refreshIntervalSeconds === undefined
+      ? undefined
+      : normalizeRefreshInterval(refreshIntervalSeconds);
+  return updateStoredDashboard(id, (dashboard) => {
+    let tiles = dashboard.tiles;
+    if (layout) {
+      const byId = new Map(tiles.map((tile) => [tile.id, tile]));
+      const arranged = layout.flatMap(({ id: tileId, width }) => {
+        const tile = byId.get(tileId);
+        byId.delete(tileId);
+        return tile ? [{ ...tile, width: width ?? tile.width }] : [];
+      });
+      tiles = [...arranged, ...byId.values()];
+    }
+    return {
+      ...dashboard,
+      name: normalizedName ?? dashboard.name,
+      refreshIntervalSeconds:
+        refreshIntervalSeconds === undefined
+          ? dashboard.refreshIntervalSeconds
+          : interval,
+      tiles,
+    };
+  });
+};
+
+export const deleteDashboard = async (id: string): Promise<boolean> =>
+  lockDashboards(async () => {
+    const dashboards = await readDashboards();
+    const remaining = dashboards.filter((dashboard) => dashboard.id !== id);
+    if (remaining.length === dashboards.length) {
+      return false;
+    }
+    await writeDashboards(remaining);
+    return true;
+  });
+
+export const pinDashboardTile = (
+  dashboardId: string,
+  input: DashboardTileInput
+): Promise<Dashboard | undefined> => {
+  if (!input.sql.trim()) {
+    throw new DashboardError("A tile needs SQL.");
+  }
+  const tile: DashboardTile = {
+    id: randomUUID(),
+    title: normalizeName(input.title, "tile"),
+    sql: input.sql.trim(),
+    project: input.project,
+    view: input.view ?? (input.chart ? "chart" : "table"),
+    chart: input.chart,
+    width: input.width ?? 1,
+    createdAt: Date.now(),
+  };
+  return updateStoredDashboard(dashboardId, (dashboard) => ({
+    ...dashboard,
+    tiles: [...dashboard.tiles, tile],
+  }));
+};
+
+export const removeDashboardTile = (
+  dashboardId: string,
+  tileId: string
+): Promise<Dashboard | undefined> =>
+  updateStoredDashboard(dashboardId, (dashboard) => ({
+    ...dashboard,
+    tiles: dashboard.tiles.filter((tile) => tile.id !== tileId),
+  }));
@@ -0,0 +1,61 @@
+export type DataSourceField = {
+  name: string;
+  /** Postgres type OID, when the backend reports it. */
+  dataTypeId?: number;
+  /** Postgres type name, e.g. `timestamp with time zone`. */
+  type?: string;
+};
+
+export type DataSourceQueryResult = {
+  rows: unknown;
+  /** Result columns in select-list order, when the backend reports them. */
+  fields?: DataSourceField[];
+  /** SQL the backend says it ran, if it differs from the input. */
+  sql?: string;
+  raw: unknown;
+};
+
+/**
+ * Keys rows given as arrays of values by column name. Rows are objects keyed by
+ * name everywhere else, so a repeated name gets a numbered alias (`id`, `id_2`)
+ * instead of overwriting the earlier column.
+ */
+export const toNamedRows = (
+  columnNames: string[],
+  rows: unknown[][]
+): { names: string[]; rows: Record<string, unknown>[] } => {
+  const used = new Set<string>();
+  const names = columnNames.map((name) => {
+    let alias = name;
+    for (let suffix = 2; used.has(alias); suffix += 1) {
+      alias = `${name}_${suffix}`;
+    }
+    used.add(alias);
+    return alias;
+  });
+  return {
+    names,
+    rows: rows.map((values) =>
+      Object.fromEntries(names.map((name, index) => [name, values[index]]))
+    ),
+  };
+};
+
+/**
+ * A backend that runs a single SQL string (possibly several statements, of
+ * which the last one's rows are returned) against a project's database.
+ */
+export type SqlDataSource = {
+  query: (sql: string) => Promise<DataSourceQueryResult>;
+};
+
+/** The database rejected the query; `payload` is the Postgres error. */
+export class DataSourceQueryError extends Error {
+  readonly payload: unknown;
+
+  constructor(message: string, payload: unknown) {
+    super(message);
+    this.name = "DataSourceQueryError";
+    this.payload = payload;
+  }
+}
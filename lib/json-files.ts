@@ -0,0 +1,56 @@
+import { randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// Route handlers and the instrumentation hook can each load their own copy of
+// this module, so the write queues live on the global object.
+const writeQueues = ((
+  globalThis as { jsonFileWriteQueues?: Map<string, Promise<unknown>> }
+).jsonFileWriteQueues ??= new Map());
+
+/** Parses a JSON file, or returns `fallback` when it does not exist yet. */
+export const readJsonFile = async <T>(file: string, fallback: T): Promise<T> => {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf-8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return fallback;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Writes to a uniquely named temporary file first, so a crash never leaves
+ * half a file and two writers never share one.
+ */
+export const writeJsonFile = async (
+  file: string,
+  value: unknown,
+  indent = 2
+) => {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${randomUUID()}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(value, null, indent));
+  await fs.rename(temporary, file);
+};
+
+/**
+ * Runs `task` once every earlier task for the same file has settled. Wrap each
+ * read-modify-write in it so concurrent requests never drop each other's
+ * changes.
+ */
+export const withFileLock = <T>(
+  file: string,
+  task: () => Promise<T>
+): Promise<T> => {
+  const run = (writeQueues.get(file) ?? Promise.resolve()).then(task);
+  const settled = run.catch(() => undefined);
+  writeQueues.set(file, settled);
+  void settled.then(() => {
+    if (writeQueues.get(file) === settled) {
+      writeQueues.delete(file);
+    }
+  });
+  return run;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { createNotifier, describeInvalidNotifier } from "./notifiers";
+
+describe("describeInvalidNotifier", () => {
+  it("accepts well-formed configs", () => {
+    for (const config of [
+      { kind: "webhook", url: "https://example.com/hook" },
+      { kind: "smtp", to: ["ops@example.com"], subject: "Daily" },
+      { kind: "file" },
+      { kind: "file", directory: "finance/daily" },
+    ]) {
+      expect(describeInvalidNotifier(config)).toBeUndefined();
+    }
+  });
+
+  it("rejects unknown kinds and malformed shapes", () => {
+    for (const config of [
+      null,
+      "webhook",
+      { kind: "pager" },
+      { kind: "webhook" },
+      { kind: "webhook", url: "ftp://example.com" },
+      { kind: "webhook", url: "https://example.com", headers: { a: 1 } },
+      { kind: "smtp", to: "ops@example.com" },
+      { kind: "smtp", to: [] },
+      { kind: "smtp", to: [""] },
+      { kind: "file", directory: 42 },
+    ]) {
+      expect(describeInvalidNotifier(config)).toEqual(expect.any(String));
+    }
+  });
+
+  it("keeps file drops inside the drop folder", () => {
+    for (const directory of ["..", "../elsewhere", "/etc"]) {
+      expect(describeInvalidNotifier({ kind: "file", directory })).toBe(
+        "A file drop directory must stay inside the drop folder."
+      );
+    }
+  });
+});
+
+describe("createNotifier", () => {
+  it("throws for a stored config with an unknown kind", () => {
+    expect(() => createNotifier({ kind: "pager" } as never)).toThrow(
+      'Unknown notifier kind "pager".'
+    );
+  });
+});
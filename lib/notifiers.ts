@@ -0,0 +1,257 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { ResultColumn } from "./result-columns";
+
+export type NotifierConfig =
+  | { kind: "webhook"; url: string; headers?: Record<string, string> }
+  | { kind: "smtp"; to: string[]; subject?: string }
+  | {
+      kind: "file";
+      /** Subdirectory of the server's drop directory (REPORT_DROP_DIR). */
+      directory?: string;
+    };
+
+export type NotificationResult = {
+  notifier: NotifierConfig["kind"];
+  ok: boolean;
+  error?: string;
+};
+
+/** A message for any notifier; reports and alerts each build their own. */
+export type Notification = {
+  /** Email subject and first line of the digest. */
+  subject: string;
+  /** Plain-text digest. */
+  summary: string;
+  /** JSON posted to webhooks and written to the file drop. */
+  payload: Record<string, unknown>;
+  /** Base name for dropped files and attachments, without extension. */
+  fileName: string;
+  /** Rows as CSV, when there are any. */
+  csv?: string;
+};
+
+/** Delivers a notification somewhere; throws when delivery fails. */
+export type Notifier = {
+  kind: NotifierConfig["kind"];
+  deliver: (notification: Notification) => Promise<void>;
+};
+
+const DEFAULT_REPORT_DROP_DIR = ".data/report-drop";
+const WEBHOOK_TIMEOUT_MS = 15_000;
+const SUMMARY_PREVIEW_ROWS = 10;
+const SUMMARY_CELL_WIDTH = 24;
+
+const formatCell = (value: unknown): string => {
+  const text =
+    value === null || value === undefined
+      ? "null"
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  return text.length > SUMMARY_CELL_WIDTH
+    ? `${text.slice(0, SUMMARY_CELL_WIDTH - 1)}…`
+    : text;
+};
+
+/** Plain-text preview of result rows for notification digests. */
+export const formatRowsPreview = (
+  columns: ResultColumn[],
+  rows: Record<string, unknown>[],
+  truncated?: boolean
+): string[] => {
+  const names = columns.map((column) => column.name);
+  const lines = [
+    `${rows.length} ${rows.length === 1 ? "row" : "rows"}${
+      truncated ? " (truncated at the row limit)" : ""
+    }`,
+    names.join(" | "),
+    ...rows
+      .slice(0, SUMMARY_PREVIEW_ROWS)
+      .map((row) => names.map((name) => formatCell(row[name])).join(" | ")),
+  ];
+  if (rows.length > SUMMARY_PREVIEW_ROWS) {
+    lines.push(`… ${rows.length - SUMMARY_PREVIEW_ROWS} more`);
+  }
+  return lines;
+};
+
+// Configs arrive in request bodies, so a file notifier may only pick a folder
+// inside the drop directory the server was configured with.
+const resolveDropDirectory = (subdirectory = ""): string | undefined => {
+  const root = path.resolve(
+    process.cwd(),
+    process.env.REPORT_DROP_DIR || DEFAULT_REPORT_DROP_DIR
+  );
+  const directory = path.resolve(root, subdirectory);
+  const relative = path.relative(root, directory);
+  return relative === ".." ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+    ? undefined
+    : directory;
+};
+
+export const toFileName = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "notification";
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every((entry) => typeof entry === "string");
+
+/**
+ * Returns why a notifier config is unusable, or undefined when it is fine.
+ * Configs come straight from request bodies, so the shape is checked too.
+ */
+export const describeInvalidNotifier = (
+  config: unknown
+): string | undefined => {
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    return "Each notifier must be an object with a kind.";
+  }
+  const notifier = config as Record<string, unknown>;
+  switch (notifier.kind) {
+    case "webhook":
+      if (
+        typeof notifier.url !== "string" ||
+        !/^https?:\/\//.test(notifier.url)
+      ) {
+        return "A webhook needs an http(s) URL.";
+      }
+      if (notifier.headers !== undefined && !isStringRecord(notifier.headers)) {
+        return "Webhook headers must map names to string values.";
+      }
+      return undefined;
+    case "smtp":
+      if (
+        !Array.isArray(notifier.to) ||
+        notifier.to.length === 0 ||
+        !notifier.to.every((address) => typeof address === "string" && address)
+      ) {
+        return "An email notifier needs a list of recipients.";
+      }
+      if (
+        notifier.subject !== undefined &&
+        typeof notifier.subject !== "string"
+      ) {
+        return "An email subject must be text.";
+      }
+      return undefined;
+    case "file":
+      if (
+        notifier.directory !== undefined &&
+        typeof notifier.directory !== "string"
+      ) {
+        return "A file drop directory must be a path.";
+      }
+      if (!resolveDropDirectory(notifier.directory)) {
+        return "A file drop directory must stay inside the drop folder.";
+      }
+      return undefined;
+    default:
+      return 'A notifier kind must be "webhook", "smtp" or "file".';
+  }
+};
+
+const createFileNotifier = (
+  config: Extract<NotifierConfig, { kind: "file" }>
+): Notifier => ({
+  kind: "file",
+  deliver: async ({ summary, payload, fileName, csv }) => {
+    const directory = resolveDropDirectory(config.directory);
+    if (!directory) {
+      throw new Error(
+        `"${config.directory}" is outside the drop folder; nothing was written.`
+      );
+    }
+    await fs.mkdir(directory, { recursive: true });
+    const base = path.join(directory, fileName);
+    await fs.writeFile(`${base}.txt`, summary);
+    await fs.writeFile(`${base}.json`, JSON.stringify(payload, null, 2));
+    if (csv !== undefined) {
+      await fs.writeFile(`${base}.csv`, csv);
+    }
+  },
+});
+
+const createWebhookNotifier = (
+  config: Extract<NotifierConfig, { kind: "webhook" }>
+): Notifier => ({
+  kind: "webhook",
+  deliver: async ({ summary, payload }) => {
+    const response = await fetch(config.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...config.headers },
+      body: JSON.stringify({ ...payload, summary }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook answered with status ${response.status}.`);
+    }
+  },
+});
+
+// SMTP_URL takes a nodemailer connection URL, e.g. smtp://localhost:1025 for
+// a local capture server.
+const createSmtpNotifier = (
+  config: Extract<NotifierConfig, { kind: "smtp" }>
+): Notifier => ({
+  kind: "smtp",
+  deliver: async ({ subject, summary, fileName, csv }) => {
+    const smtpUrl = process.env.SMTP_URL;
+    if (!smtpUrl) {
+      throw new Error("Set SMTP_URL to send notifications by email.");
+    }
+    const { createTransport } = await import("nodemailer");
+    await createTransport(smtpUrl).sendMail({
+      from: process.env.REPORT_EMAIL_FROM || "reports@localhost",
+      to: config.to,
+      subject: config.subject || subject,
+      text: summary,
+      attachments:
+        csv === undefined ? [] : [{ filename: `${fileName}.csv`, content: csv }],
+    });
+  },
+});
+
+export const createNotifier = (config: NotifierConfig): Notifier => {
+  switch (config.kind) {
+    case "file":
+      return createFileNotifier(config);
+    case "webhook":
+      return createWebhookNotifier(config);
+    case "smtp":
+      return createSmtpNotifier(config);
+    default:
+      throw new Error(
+        `Unknown notifier kind "${(config as { kind?: unknown }).kind}".`
+      );
+  }
+};
+
+/** Sends a notification through every notifier, collecting failures. */
+export const sendNotification = async (
+  notifiers: Notifier[],
+  notification: Notification
+): Promise<NotificationResult[]> => {
+  const results: NotificationResult[] = [];
+  for (const notifier of notifiers) {
+    try {
+      await notifier.deliver(notification);
+      results.push({ notifier: notifier.kind, ok: true });
+    } catch (error) {
+      console.error(`"${notification.subject}" was not delivered:`, error);
+      results.push({
+        notifier: notifier.kind,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return results;
+};
@@ -0,0 +1,135 @@
+import {
+  DatabaseError,
+  Pool,
+  types,
+  type FieldDef,
+  type PoolClient,
+  type QueryResult,
+} from "pg";
+import {
+  DataSourceQueryError,
+  toNamedRows,
+  type DataSourceField,
+  type SqlDataSource,
+} from "./data-source";
+
+export type PostgresDataSourceConfig = {
+  /** Connection string of a read-only role, e.g. `postgres://reader:...`. */
+  connectionString: string;
+  maxConnections?: number;
+};
+
+const DEFAULT_MAX_CONNECTIONS = 5;
+
+const INT8_OID = 20;
+const DATE_OID = 1082;
+const TIMESTAMP_OID = 1114;
+const TIMESTAMPTZ_OID = 1184;
+
+// Dates and timestamps stay as the text Postgres sent: a JS Date would shift
+// `timestamp without time zone` values into the server's timezone. int8
+// becomes a number whenever it is exactly representable.
+const getTypeParser = ((oid: number, format?: "text" | "binary") => {
+  if (oid === DATE_OID || oid === TIMESTAMP_OID || oid === TIMESTAMPTZ_OID) {
+    return (value: string) => value;
+  }
+  if (oid === INT8_OID) {
+    return (value: string) => {
+      const parsed = Number(value);
+      return Number.isSafeInteger(parsed) ? parsed : value;
+    };
+  }
+  return types.getTypeParser(oid, format);
+}) as typeof types.getTypeParser;
+
+export const createPostgresDataSource = (
+  config: PostgresDataSourceConfig
+): SqlDataSource => {
+  let pool: Pool | null = null;
+  // Type names by OID. User-defined types (enums, domains) differ per
+  // database, so the cache belongs to the data source.
+  const typeNames = new Map<number, string>();
+
+  const getPool = (): Pool => {
+    if (!pool) {
+      pool = new Pool({
+        connectionString: config.connectionString,
+        max: config.maxConnections ?? DEFAULT_MAX_CONNECTIONS,
+        application_name: "obelis-supa-queries",
+        types: { getTypeParser },
+      });
+      pool.on("error", (error) => {
+        console.error("Postgres pool error:", error);
+      });
+    }
+    return pool;
+  };
+
+  const describeFields = async (
+    client: PoolClient,
+    fields: FieldDef[]
+  ): Promise<DataSourceField[]> => {
+    const unknownOids = [
+      ...new Set(
+        fields
+          .map((field) => field.dataTypeID)
+          .filter((oid) => !typeNames.has(oid))
+      ),
+    ];
+    if (unknownOids.length > 0) {
+      const { rows } = await client.query<{ oid: number; name: string }>(
+        "select oid::int as oid, format_type(oid, null) as name from pg_type where oid = any($1::int[])",
+        [unknownOids]
+      );
+      for (const row of rows) {
+        typeNames.set(row.oid, row.name);
+      }
+    }
+    return fields.map((field) => ({
+      name: field.name,
+      dataTypeId: field.dataTypeID,
+      type: typeNames.get(field.dataTypeID),
+    }));
+  };
+
+  const query = async (sql: string) => {
+    const client = await getPool().connect();
+    let connectionError: Error | undefined;
+    try {
+      // The role should already be read-only; the transaction makes sure.
+      await client.query("begin transaction read only");
+      // Array rows keep every column when two share a name.
+      const results = (await client.query({ text: sql, rowMode: "array" })) as
+        | QueryResult<unknown[]>
+        | QueryResult<unknown[]>[];
+      const result = Array.isArray(results)
+        ? results[results.length - 1]
+        : results;
+      const fields = await describeFields(client, result.fields ?? []);
+      const { names, rows } = toNamedRows(
+        fields.map((field) => field.name),
+        result.rows
+      );
+      return {
+        rows,
+        fields: fields.map((field, index) => ({ ...field, name: names[index] })),
+        raw: { command: result.command, rowCount: result.rowCount },
+      };
+    } catch (error) {
+      if (error instanceof DatabaseError) {
+        throw new DataSourceQueryError(error.message, error);
+      }
+      connectionError = error instanceof Error ? error : new Error(String(error));
+      throw error;
+    } finally {
+      if (!connectionError) {
+        await client.query("rollback").catch((error: Error) => {
+          connectionError = error;
+        });
+      }
+      client.release(connectionError);
+    }
+  };
+
+  return { query };
+};
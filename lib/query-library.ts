@@ -0,0 +1,177 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { readJsonFile, withFileLock, writeJsonFile } from "./json-files";
+import { scoreLexically, tokenize } from "./schema-retrieval";
+
+export type SavedQuery = {
+  id: string;
+  name: string;
+  sql: string;
+  /** Question the query was written for. */
+  question?: string;
+  project?: string;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type SavedQueryInput = {
+  name: string;
+  sql: string;
+  question?: string;
+  project?: string;
+  tags?: string[];
+};
+
+export type SavedQuerySearch = {
+  search?: string;
+  /** Only queries saved for this project (or for no project). */
+  project?: string;
+  limit?: number;
+};
+
+export class SavedQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SavedQueryError";
+  }
+}
+
+const DEFAULT_SAVED_QUERIES_FILE = ".data/saved-queries.json";
+const MAX_NAME_LENGTH = 120;
+
+const resolveLibraryFile = (): string =>
+  path.resolve(
+    process.cwd(),
+    process.env.SAVED_QUERIES_FILE || DEFAULT_SAVED_QUERIES_FILE
+  );
+
+const readLibrary = () =>
+  readJsonFile<SavedQuery[]>(resolveLibraryFile(), []);
+
+const writeLibrary = (queries: SavedQuery[]) =>
+  writeJsonFile(resolveLibraryFile(), queries);
+
+// Every change rewrites the whole file, so changes wait for each other.
+const lockLibrary = <T>(task: () => Promise<T>) =>
+  withFileLock(resolveLibraryFile(), task);
+
+const normalizeTags = (tags: string[] = []): string[] => [
+  ...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)),
+];
+
+const normalizeName = (name: string): string => {
+  const trimmed = name.replace(/\s+/g, " ").trim();
+  if (!trimmed) {
+    throw new SavedQueryError("A saved query needs a name.");
+  }
+  return trimmed.slice(0, MAX_NAME_LENGTH);
+};
+
+// Names, questions and tags describe intent better than the SQL, so they
+// count twice.
+const buildQueryDocument = (query: SavedQuery): string[] =>
+  tokenize(
+    [
+      query.name,
+      query.name,
+      query.question ?? "",
+      query.question ?? "",
+      ...query.tags,
+      ...query.tags,
+      query.sql,
+    ].join(" ")
+  );
+
+/**
+ * Lists saved queries, most recently updated first, or ranked by relevance
+ * when a search is given. Queries saved without a project match any project.
+ */
+export const listSavedQueries = async ({
+  search,
+  project,
+  limit,
+}: SavedQuerySearch = {}): Promise<SavedQuery[]> => {
+  const queries = (await readLibrary()).filter(
+    (query) => !project || !query.project || query.project === project
+  );
+  const searchTokens = search ? tokenize(search) : [];
+  const ranked =
+    searchTokens.length > 0
+      ? (() => {
+          const scores = scoreLexically(
+            queries.map(buildQueryDocument),
+            searchTokens
+          );
+          return queries
+            .map((query, index) => ({ query, score: scores[index] }))
+            .filter(({ score }) => score > 0)
+            .sort((left, right) => right.score - left.score)
+            .map(({ query }) => query);
+        })()
+      : [...queries].sort((left, right) => right.updatedAt - left.updatedAt);
+  return limit ? ranked.slice(0, limit) : ranked;
+};
+
+export const loadSavedQuery = async (
+  id: string
+): Promise<SavedQuery | undefined> =>
+  (await readLibrary()).find((query) => query.id === id);
+
+export const createSavedQuery = async (
+  input: SavedQueryInput
+): Promise<SavedQuery> => {
+  if (!input.sql.trim()) {
+    throw new SavedQueryError("A saved query needs SQL.");
+  }
+  const now = Date.now();
+  const query: SavedQuery = {
+    id: randomUUID(),
+    name: normalizeName(input.name),
+    sql: input.sql.trim(),
+    question: input.question?.trim() || undefined,
+    project: input.project,
+    tags: normalizeTags(input.tags),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await lockLibrary(async () =>
+    writeLibrary([...(await readLibrary()), query])
+  );
+  return query;
+};
+
+export const updateSavedQuery = async (
+  id: string,
+  changes: Partial<Pick<SavedQueryInput, "name" | "tags">>
+): Promise<SavedQuery | undefined> =>
+  lockLibrary(async () => {
+    const queries = await readLibrary();
+    const existing = queries.find((query) => query.id === id);
+    if (!existing) {
+      return undefined;
+    }
+    const updated: SavedQuery = {
+      ...existing,
+      name:
+        changes.name === undefined ? existing.name : normalizeName(changes.name),
+      tags:
+        changes.tags === undefined ? existing.tags : normalizeTags(changes.tags),
+      updatedAt: Date.now(),
+    };
+    await writeLibrary(
+      queries.map((query) => (query.id === id ? updated : query))
+    );
+    return updated;
+  });
+
+export const deleteSavedQuery = async (id: string): Promise<boolean> =>
+  lockLibrary(async () => {
+    const queries = await readLibrary();
+    const remaining = queries.filter((query) => query.id !== id);
+    if (remaining.length === queries.length) {
+      return false;
+    }
+    await writeLibrary(remaining);
+    return true;
+  });
@@ -0,0 +1,78 @@
+export type QueryPlanNode = {
+  id: string;
+  nodeType: string;
+  relationName?: string;
+  alias?: string;
+  indexName?: string;
+  joinType?: string;
+  condition?: string;
+  startupCost: number;
+  totalCost: number;
+  planRows: number;
+  planWidth: number;
+  /** Sequential scan whose own cost suggests it reads a large table. */
+  isLargeSeqScan: boolean;
+  children: QueryPlanNode[];
+};
+
+// A sequential scan costs roughly one unit per page plus a fraction per row,
+// so its total cost is a cheap proxy for table size (1000 ≈ 8 MB of heap).
+export const LARGE_SEQ_SCAN_COST = 1000;
+
+const CONDITION_FIELDS = [
+  "Hash Cond",
+  "Merge Cond",
+  "Join Filter",
+  "Index Cond",
+  "Recheck Cond",
+  "Filter",
+];
+
+const readNumber = (plan: Record<string, unknown>, key: string): number => {
+  const value = Number(plan[key]);
+  return Number.isFinite(value) ? value : 0;
+};
+
+const readString = (
+  plan: Record<string, unknown>,
+  key: string
+): string | undefined =>
+  typeof plan[key] === "string" ? (plan[key] as string) : undefined;
+
+/**
+ * Converts a plan node from `EXPLAIN (FORMAT JSON)` output into a
+ * {@link QueryPlanNode} tree with stable, path-based ids.
+ */
+export const toQueryPlanTree = (
+  plan: Record<string, unknown>,
+  id = "0"
+): QueryPlanNode => {
+  const nodeType = readString(plan, "Node Type") ?? "Unknown";
+  const totalCost = readNumber(plan, "Total Cost");
+  const subPlans = Array.isArray(plan.Plans) ? plan.Plans : [];
+  const condition = CONDITION_FIELDS.map((field) => readString(plan, field)).find(
+    Boolean
+  );
+
+  return {
+    id,
+    nodeType,
+    relationName: readString(plan, "Relation Name"),
+    alias: readString(plan, "Alias"),
+    indexName: readString(plan, "Index Name"),
+    joinType: readString(plan, "Join Type"),
+    condition,
+    startupCost: readNumber(plan, "Startup Cost"),
+    totalCost,
+    planRows: readNumber(plan, "Plan Rows"),
+    planWidth: readNumber(plan, "Plan Width"),
+    isLargeSeqScan:
+      nodeType === "Seq Scan" && totalCost >= LARGE_SEQ_SCAN_COST,
+    children: subPlans
+      .filter(
+        (child): child is Record<string, unknown> =>
+          Boolean(child) && typeof child === "object"
+      )
+      .map((child, index) => toQueryPlanTree(child, `${id}.${index}`)),
+  };
+};
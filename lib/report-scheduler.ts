@@ -0,0 +1,293 @@
+import { randomUUID } from "node:crypto";
+import {
+  generateId,
+  isToolOrDynamicToolUIPart,
+  readUIMessageStream,
+  type UIMessage,
+} from "ai";
+import { streamChatAgent } from "./chat-agent";
+import { loadSavedQuery } from "./query-library";
+import {
+  createNotifier,
+  formatRowsPreview,
+  sendNotification,
+  toFileName,
+  type Notification,
+  type Notifier,
+} from "./notifiers";
+import {
+  listReportSchedules,
+  saveReportSnapshot,
+  updateReportSchedule,
+  type ReportSchedule,
+  type ReportSnapshot,
+} from "./report-schedules";
+import type { ResultColumn } from "./result-columns";
+import { exportResultRows } from "./result-export";
+import { formatSqlExecutionError, type SqlExecutionError } from "./sql-errors";
+import { executeSupabaseSql } from "./supabase-mcp";
+
+export type ReportRunOptions = {
+  /** Replaces the schedule's own notifiers, e.g. with local stand-ins. */
+  notifiers?: Notifier[];
+};
+
+type ReportOutcome = Pick<
+  ReportSnapshot,
+  | "status"
+  | "project"
+  | "sql"
+  | "columns"
+  | "rows"
+  | "truncated"
+  | "text"
+  | "error"
+>;
+
+const DEFAULT_REPORT_MODEL = "openai/gpt-5-nano";
+const DEFAULT_SCHEDULER_TICK_MS = 30_000;
+
+const toReportError = (error: unknown): SqlExecutionError => ({
+  kind: "database",
+  message: error instanceof Error ? error.message : String(error),
+});
+
+const toReportRows = (rows: unknown) =>
+  Array.isArray(rows) ? (rows as Record<string, unknown>[]) : undefined;
+
+const runSavedQueryReport = async (
+  schedule: ReportSchedule,
+  queryId: string
+): Promise<ReportOutcome> => {
+  const query = await loadSavedQuery(queryId);
+  if (!query) {
+    return {
+      status: "error",
+      project: schedule.project,
+      error: toReportError(`Saved query ${queryId} no longer exists.`),
+    };
+  }
+  const result = await executeSupabaseSql(query.sql, {
+    project: schedule.project ?? query.project,
+  });
+  return result.ok
+    ? {
+        status: "ok",
+        project: result.project,
+        sql: result.sql,
+        columns: result.columns,
+        rows: toReportRows(result.rows),
+        truncated: result.truncated,
+      }
+    : {
+        status: "error",
+        project: result.project,
+        sql: result.sql,
+        error: result.error,
+      };
+};
+
+// The prompt goes through the same agent as the chat; the answer text and the
+// last query result it produced make up the snapshot.
+const runPromptReport = async (
+  schedule: ReportSchedule,
+  prompt: string,
+  model?: string
+): Promise<ReportOutcome> => {
+  const message: UIMessage = {
+    id: generateId(),
+    role: "user",
+    parts: [{ type: "text", text: prompt }],
+  };
+  const result = await streamChatAgent({
+    messages: [message],
+    model: model || process.env.REPORT_MODEL || DEFAULT_REPORT_MODEL,
+    project: schedule.project,
+  });
+  let answer: UIMessage | undefined;
+  for await (const state of readUIMessageStream({
+    stream: result.toUIMessageStream(),
+    terminateOnError: true,
+  })) {
+    answer = state;
+  }
+
+  const outcome: ReportOutcome = {
+    status: "ok",
+    project: schedule.project,
+    text: answer?.parts
+      .map((part) => (part.type === "text" ? part.text : ""))
+      .join("")
+      .trim(),
+  };
+  const queryOutput = answer?.parts
+    .filter(isToolOrDynamicToolUIPart)
+    .map((part) =>
+      part.state === "output-available"
+        ? (part.output as {
+            project?: string;
+            sql?: string;
+            columns?: ResultColumn[];
+            rows?: unknown;
+            truncated?: boolean;
+          })
+        : undefined
+    )
+    .findLast((output) => Array.isArray(output?.rows));
+  if (queryOutput) {
+    outcome.project = queryOutput.project ?? outcome.project;
+    outcome.sql = queryOutput.sql;
+    outcome.columns = queryOutput.columns;
+    outcome.rows = toReportRows(queryOutput.rows);
+    outcome.truncated = queryOutput.truncated;
+  }
+  return outcome;
+};
+
+/** Builds the notification for a snapshot: a text digest plus the rows as CSV. */
+export const buildReportNotification = async (
+  schedule: ReportSchedule,
+  snapshot: ReportSnapshot
+): Promise<Notification> => {
+  const ranAt = new Date(snapshot.ranAt).toISOString();
+  const lines = [`${schedule.name} — ${ranAt}`, ""];
+  if (snapshot.error) {
+    lines.push(`The report failed: ${formatSqlExecutionError(snapshot.error)}`);
+  }
+  if (snapshot.text) {
+    lines.push(snapshot.text, "");
+  }
+  let csv: string | undefined;
+  if (snapshot.rows && snapshot.columns) {
+    lines.push(
+      ...formatRowsPreview(snapshot.columns, snapshot.rows, snapshot.truncated)
+    );
+    csv = await (
+      await exportResultRows("csv", snapshot.columns, snapshot.rows)
+    ).text();
+  }
+  return {
+    subject: `${schedule.name} (${ranAt.slice(0, 10)})`,
+    summary: lines.join("\n"),
+    payload: { report: { id: schedule.id, name: schedule.name }, snapshot },
+    fileName: `${toFileName(schedule.name)}-${ranAt.replace(/[:.]/g, "-")}`,
+    csv,
+  };
+};
+
+/**
+ * Runs a report once: executes its saved query or prompt, delivers the result
+ * through every notifier and stores the snapshot. Failures are recorded in
+ * the snapshot rather than thrown.
+ */
+export const runReportSchedule = async (
+  schedule: ReportSchedule,
+  { notifiers }: ReportRunOptions = {}
+): Promise<ReportSnapshot> => {
+  const ranAt = Date.now();
+  let outcome: ReportOutcome;
+  try {
+    outcome =
+      schedule.target.kind === "saved-query"
+        ? await runSavedQueryReport(schedule, schedule.target.queryId)
+        : await runPromptReport(
+            schedule,
+            schedule.target.prompt,
+            schedule.target.model
+          );
+  } catch (error) {
+    outcome = {
+      status: "error",
+      project: schedule.project,
+      error: toReportError(error),
+    };
+  }
+
+  const snapshot: ReportSnapshot = {
+    ...outcome,
+    id: randomUUID(),
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    ranAt,
+    deliveries: [],
+  };
+  // The run counts even when delivery fails, or the report would be retried
+  // on every tick.
+  try {
+    snapshot.deliveries = await sendNotification(
+      notifiers ?? schedule.notifiers.map(createNotifier),
+      await buildReportNotification(schedule, snapshot)
+    );
+    await saveReportSnapshot(snapshot);
+  } finally {
+    await updateReportSchedule(schedule.id, {
+      lastRunAt: ranAt,
+      lastStatus: snapshot.status,
+    });
+  }
+  return snapshot;
+};
+
+/** Runs every enabled report whose next run time has passed, one at a time. */
+export const runDueReports = async (
+  now = Date.now(),
+  options?: ReportRunOptions
+): Promise<ReportSnapshot[]> => {
+  const due = (await listReportSchedules()).filter(
+    (schedule) =>
+      schedule.enabled &&
+      schedule.nextRunAt !== undefined &&
+      schedule.nextRunAt <= now
+  );
+  const snapshots: ReportSnapshot[] = [];
+  for (const schedule of due) {
+    try {
+      snapshots.push(await runReportSchedule(schedule, options));
+    } catch (error) {
+      console.error(`Scheduled report "${schedule.name}" failed:`, error);
+    }
+  }
+  return snapshots;
+};
+
+let schedulerTimer: ReturnType<typeof setInterval> | undefined;
+let isTicking = false;
+
+const resolveTickMs = (): number => {
+  const configured = Number(process.env.REPORT_SCHEDULER_TICK_MS);
+  return Number.isFinite(configured) && configured > 0
+    ? configured
+    : DEFAULT_SCHEDULER_TICK_MS;
+};
+
+/**
+ * Starts the in-process worker that checks for due reports on a fixed tick.
+ * Reports missed while the server was down run once on the first tick.
+ */
+export const startReportScheduler = () => {
+  if (schedulerTimer) {
+    return;
+  }
+  const tick = async () => {
+    // A slow report must not start the same report again on the next tick.
+    if (isTicking) {
+      return;
+    }
+    isTicking = true;
+    try {
+      await runDueReports();
+    } catch (error) {
+      console.error("Scheduled reports failed:", error);
+    } finally {
+      isTicking = false;
+    }
+  };
+  schedulerTimer = setInterval(tick, resolveTickMs());
+  schedulerTimer.unref?.();
+  void tick();
+};
+
+export const stopReportScheduler = () => {
+  clearInterval(schedulerTimer);
+  schedulerTimer = undefined;
+};
@@ -0,0 +1,298 @@
+import { randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { nextCronOccurrence, parseCronExpression } from "./cron";
+import { readJsonFile, withFileLock, writeJsonFile } from "./json-files";
+import {
+  describeInvalidNotifier,
+  type NotificationResult,
+  type NotifierConfig,
+} from "./notifiers";
+import type { ResultColumn } from "./result-columns";
+import type { SqlExecutionError } from "./sql-errors";
+
+export type ReportTarget =
+  | { kind: "saved-query"; queryId: string }
+  | { kind: "prompt"; prompt: string; model?: string };
+
+export type ReportSchedule = {
+  id: string;
+  name: string;
+  /** Five-field cron expression, evaluated in the server's time zone. */
+  cron: string;
+  target: ReportTarget;
+  project?: string;
+  notifiers: NotifierConfig[];
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+  nextRunAt?: number;
+  lastRunAt?: number;
+  lastStatus?: ReportSnapshot["status"];
+};
+
+export type ReportScheduleInput = Pick<
+  ReportSchedule,
+  "name" | "cron" | "target"
+> &
+  Partial<Pick<ReportSchedule, "project" | "notifiers" | "enabled">>;
+
+/** Edits to a report; an empty or null project goes back to the default. */
+export type ReportScheduleChanges = Partial<
+  Omit<ReportScheduleInput, "project">
+> & { project?: string | null };
+
+export type ReportSnapshot = {
+  id: string;
+  scheduleId: string;
+  scheduleName: string;
+  ranAt: number;
+  status: "ok" | "error";
+  project?: string;
+  sql?: string;
+  columns?: ResultColumn[];
+  rows?: Record<string, unknown>[];
+  truncated?: boolean;
+  /** The assistant's answer for prompt reports. */
+  text?: string;
+  error?: SqlExecutionError;
+  deliveries: NotificationResult[];
+};
+
+export type ReportSnapshotSummary = Omit<ReportSnapshot, "columns" | "rows"> & {
+  rowCount?: number;
+};
+
+export class ReportScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReportScheduleError";
+  }
+}
+
+const DEFAULT_REPORT_SCHEDULES_FILE = ".data/report-schedules.json";
+const DEFAULT_REPORT_SNAPSHOTS_DIR = ".data/report-snapshots";
+const DEFAULT_SNAPSHOT_LIMIT = 20;
+const SNAPSHOT_ID_PATTERN = /^[\w-]+$/;
+
+const resolveSchedulesFile = (): string =>
+  path.resolve(
+    process.cwd(),
+    process.env.REPORT_SCHEDULES_FILE || DEFAULT_REPORT_SCHEDULES_FILE
+  );
+
+const resolveSnapshotsDir = (scheduleId: string): string => {
+  if (!SNAPSHOT_ID_PATTERN.test(scheduleId)) {
+    throw new ReportScheduleError(`Invalid report id "${scheduleId}".`);
+  }
+  return path.resolve(
+    process.cwd(),
+    process.env.REPORT_SNAPSHOTS_DIR || DEFAULT_REPORT_SNAPSHOTS_DIR,
+    scheduleId
+  );
+};
+
+const readSchedules = () =>
+  readJsonFile<ReportSchedule[]>(resolveSchedulesFile(), []);
+
+const writeSchedules = (schedules: ReportSchedule[]) =>
+  writeJsonFile(resolveSchedulesFile(), schedules);
+
+// The scheduler and the API both rewrite the file, so they take turns.
+const lockSchedules = <T>(task: () => Promise<T>) =>
+  withFileLock(resolveSchedulesFile(), task);
+
+/** Next run time of a cron expression; throws ReportScheduleError if invalid. */
+export const computeNextRunAt = (cron: string, after = new Date()): number => {
+  try {
+    return nextCronOccurrence(parseCronExpression(cron), after).getTime();
+  } catch (error) {
+    throw new ReportScheduleError(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+};
+
+const validateTarget = (target: ReportTarget): ReportTarget => {
+  if (target.kind === "saved-query" && target.queryId) {
+    return { kind: "saved-query", queryId: target.queryId };
+  }
+  if (target.kind === "prompt" && target.prompt?.trim()) {
+    return { kind: "prompt", prompt: target.prompt.trim(), model: target.model };
+  }
+  throw new ReportScheduleError(
+    "A report runs either a saved query or a prompt."
+  );
+};
+
+const validateNotifiers = (notifiers: NotifierConfig[]): NotifierConfig[] =>
+  notifiers.map((notifier) => {
+    const problem = describeInvalidNotifier(notifier);
+    if (problem) {
+      throw new ReportScheduleError(problem);
+    }
+    return notifier;
+  });
+
+export const listReportSchedules = async (): Promise<ReportSchedule[]> =>
+  (await readSchedules()).sort((left, right) =>
+    left.name.localeCompare(right.name)
+  );
+
+export const loadReportSchedule = async (
+  id: string
+): Promise<ReportSchedule | undefined> =>
+  (await readSchedules()).find((schedule) => schedule.id === id);
+
+export const createReportSchedule = async (
+  input: ReportScheduleInput
+): Promise<ReportSchedule> => {
+  const name = input.name.trim();
+  if (!name) {
+    throw new ReportScheduleError("A report needs a name.");
+  }
+  const now = Date.now();
+  const enabled = input.enabled ?? true;
+  const schedule: ReportSchedule = {
+    id: randomUUID(),
+    name,
+    cron: input.cron.trim(),
+    target: validateTarget(input.target),
+    project: input.project || undefined,
+    notifiers: validateNotifiers(input.notifiers ?? []),
+    enabled,
+    createdAt: now,
+    updatedAt: now,
+    nextRunAt: computeNextRunAt(input.cron),
+  };
+  await lockSchedules(async () =>
+    writeSchedules([...(await readSchedules()), schedule])
+  );
+  return schedule;
+};
+
+export const updateReportSchedule = async (
+  id: string,
+  changes: ReportScheduleChanges &
+    Partial<Pick<ReportSchedule, "lastRunAt" | "lastStatus">>
+): Promise<ReportSchedule | undefined> =>
+  lockSchedules(async () => {
+    const schedules = await readSchedules();
+    const existing = schedules.find((schedule) => schedule.id === id);
+    if (!existing) {
+      return undefined;
+    }
+    const cron = changes.cron?.trim() ?? existing.cron;
+    const updated: ReportSchedule = {
+      ...existing,
+      name: changes.name?.trim() || existing.name,
+      cron,
+      target: changes.target ? validateTarget(changes.target) : existing.target,
+      project:
+        changes.project === undefined
+          ? existing.project
+          : changes.project || undefined,
+      notifiers: changes.notifiers
+        ? validateNotifiers(changes.notifiers)
+        : existing.notifiers,
+      enabled: changes.enabled ?? existing.enabled,
+      lastRunAt: changes.lastRunAt ?? existing.lastRunAt,
+      lastStatus: changes.lastStatus ?? existing.lastStatus,
+      updatedAt: Date.now(),
+      // Re-planned from now whenever a run happens or the timing changes.
+      nextRunAt:
+        changes.cron !== undefined ||
+        changes.enabled !== undefined ||
+        changes.lastRunAt !== undefined
+          ? computeNextRunAt(cron)
+          : existing.nextRunAt,
+    };
+    await writeSchedules(
+      schedules.map((schedule) => (schedule.id === id ? updated : schedule))
+    );
+    return updated;
+  });
+
+export const deleteReportSchedule = async (id: string): Promise<boolean> => {
+  const deleted = await lockSchedules(async () => {
+    const schedules = await readSchedules();
+    const remaining = schedules.filter((schedule) => schedule.id !== id);
+    if (remaining.length === schedules.length) {
+      return false;
+    }
+    await writeSchedules(remaining);
+    return true;
+  });
+  if (deleted) {
+    await fs.rm(resolveSnapshotsDir(id), { recursive: true, force: true });
+  }
+  return deleted;
+};
+
+// Snapshot files are named by run time, so a directory listing is already in
+// chronological order.
+const snapshotFileName = (snapshot: Pick<ReportSnapshot, "id" | "ranAt">) =>
+  `${String(snapshot.ranAt).padStart(15, "0")}-${snapshot.id}.json`;
+
+export const saveReportSnapshot = (snapshot: ReportSnapshot) =>
+  writeJsonFile(
+    path.join(
+      resolveSnapshotsDir(snapshot.scheduleId),
+      snapshotFileName(snapshot)
+    ),
+    snapshot
+  );
+
+export const summarizeReportSnapshot = (
+  snapshot: ReportSnapshot
+): ReportSnapshotSummary => {
+  const summary: ReportSnapshotSummary &
+    Partial<Pick<ReportSnapshot, "columns" | "rows">> = {
+    ...snapshot,
+    rowCount: snapshot.rows?.length,
+  };
+  delete summary.columns;
+  delete summary.rows;
+  return summary;
+};
+
+const listSnapshotFiles = async (scheduleId: string): Promise<string[]> => {
+  try {
+    return (await fs.readdir(resolveSnapshotsDir(scheduleId)))
+      .filter((file) => file.endsWith(".json"))
+      .sort()
+      .reverse();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+};
+
+const readSnapshotFile = async (scheduleId: string, file: string) =>
+  JSON.parse(
+    await fs.readFile(path.join(resolveSnapshotsDir(scheduleId), file), "utf-8")
+  ) as ReportSnapshot;
+
+/** Most recent snapshots of a report, newest first. */
+export const listReportSnapshots = async (
+  scheduleId: string,
+  limit = DEFAULT_SNAPSHOT_LIMIT
+): Promise<ReportSnapshotSummary[]> => {
+  const files = (await listSnapshotFiles(scheduleId)).slice(0, limit);
+  const snapshots = await Promise.all(
+    files.map((file) => readSnapshotFile(scheduleId, file))
+  );
+  return snapshots.map(summarizeReportSnapshot);
+};
+
+export const loadReportSnapshot = async (
+  scheduleId: string,
+  snapshotId: string
+): Promise<ReportSnapshot | undefined> => {
+  const file = (await listSnapshotFiles(scheduleId)).find((name) =>
+    name.endsWith(`-${snapshotId}.json`)
+  );
+  return file ? readSnapshotFile(scheduleId, file) : undefined;
+};
@@ -0,0 +1,247 @@
+import {
+  parseColumnDate,
+  type ColumnKind,
+  type ResultColumn,
+} from "./result-columns";
+
+export const CHART_TYPES = [
+  "line",
+  "area",
+  "bar",
+  "stacked-bar",
+  "scatter",
+  "kpi",
+] as const;
+
+export type ChartType = (typeof CHART_TYPES)[number];
+
+export type ChartSpec = {
+  type: ChartType;
+  /** Column on the x axis; the label column for a KPI. */
+  x?: string;
+  /** Numeric columns plotted as series (the first one for a KPI). */
+  y: string[];
+  /** Column whose values are split into separate (stacked) series. */
+  series?: string;
+  title?: string;
+};
+
+export type ChartSeries = {
+  /** Key in the chart data; safe to use in CSS variable names. */
+  key: string;
+  label: string;
+};
+
+export type ChartData = {
+  points: Record<string, unknown>[];
+  series: ChartSeries[];
+};
+
+export class ChartSpecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChartSpecError";
+  }
+}
+
+type Row = Record<string, unknown>;
+
+const MAX_SERIES = 8;
+const MAX_CATEGORIES = 50;
+const OTHER_SERIES_LABEL = "Other";
+
+const TEMPORAL_KINDS = new Set<ColumnKind>(["timestamptz", "timestamp", "date"]);
+
+const isTemporal = (column: ResultColumn) => TEMPORAL_KINDS.has(column.kind);
+
+const isCategory = (column: ResultColumn) =>
+  column.kind === "text" || column.kind === "boolean";
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toLabel = (value: unknown): string =>
+  value === null || value === undefined ? "null" : String(value);
+
+const countDistinct = (rows: Row[], name: string) =>
+  new Set(rows.map((row) => toLabel(row[name]))).size;
+
+/**
+ * Picks a chart for a result from its column kinds: a KPI card for a single
+ * number, a line over time, bars per category, stacked bars for two
+ * dimensions and a scatter plot for two measures. Returns undefined when no
+ * chart fits better than the table.
+ */
+export const inferChartSpec = (
+  columns: ResultColumn[],
+  rows: Row[]
+): ChartSpec | undefined => {
+  const measures = columns.filter((column) => column.kind === "number");
+  const times = columns.filter(isTemporal);
+  const categories = columns.filter(isCategory);
+  if (rows.length === 0 || measures.length === 0) {
+    return undefined;
+  }
+
+  if (rows.length === 1 && times.length === 0 && measures.length === 1) {
+    return { type: "kpi", x: categories[0]?.name, y: [measures[0].name] };
+  }
+
+  const dimensions = [...times, ...categories];
+  if (dimensions.length >= 2 && measures.length === 1) {
+    const [x, series] = dimensions;
+    if (countDistinct(rows, series.name) <= MAX_CATEGORIES) {
+      return {
+        type: "stacked-bar",
+        x: x.name,
+        y: [measures[0].name],
+        series: series.name,
+      };
+    }
+  }
+
+  const y = measures.slice(0, MAX_SERIES).map((column) => column.name);
+  if (times.length > 0) {
+    return { type: "line", x: times[0].name, y };
+  }
+  if (categories.length > 0) {
+    return countDistinct(rows, categories[0].name) <= MAX_CATEGORIES
+      ? { type: "bar", x: categories[0].name, y }
+      : undefined;
+  }
+  if (measures.length >= 2) {
+    return { type: "scatter", x: measures[0].name, y: [measures[1].name] };
+  }
+  return undefined;
+};
+
+/** Checks that a chart spec (e.g. one chosen by the model) fits the result. */
+export const validateChartSpec = (
+  spec: ChartSpec,
+  columns: ResultColumn[]
+): void => {
+  const byName = new Map(columns.map((column) => [column.name, column]));
+  const available = columns.map((column) => column.name).join(", ");
+  for (const name of [spec.x, spec.series, ...spec.y]) {
+    if (name !== undefined && !byName.has(name)) {
+      throw new ChartSpecError(
+        `Column "${name}" is not in the result. Available columns: ${available}.`
+      );
+    }
+  }
+  if (spec.y.length === 0) {
+    throw new ChartSpecError("Choose at least one numeric column for y.");
+  }
+  const nonNumeric = spec.y.filter(
+    (name) => byName.get(name)?.kind !== "number"
+  );
+  if (nonNumeric.length > 0) {
+    throw new ChartSpecError(
+      `y columns must be numeric; ${nonNumeric.join(", ")} ${
+        nonNumeric.length === 1 ? "is" : "are"
+      } not.`
+    );
+  }
+  if (spec.type !== "kpi" && !spec.x) {
+    throw new ChartSpecError(`A ${spec.type} chart needs an x column.`);
+  }
+  if (spec.type === "scatter" && byName.get(spec.x ?? "")?.kind !== "number") {
+    throw new ChartSpecError("A scatter chart needs a numeric x column.");
+  }
+  if (spec.series && spec.y.length > 1) {
+    throw new ChartSpecError(
+      "Split by series or plot several y columns, not both."
+    );
+  }
+};
+
+const sortKey = (column: ResultColumn | undefined, value: unknown) => {
+  if (!column) {
+    return 0;
+  }
+  if (isTemporal(column)) {
+    return parseColumnDate(column.kind, value)?.getTime() ?? 0;
+  }
+  return column.kind === "number" ? (toNumber(value) ?? 0) : 0;
+};
+
+/**
+ * Shapes rows for the chart. Points are ordered along time and numeric x
+ * axes; with a series column the rows are pivoted into one key per series
+ * value, keeping the largest series and folding the rest into "Other".
+ */
+export const buildChartData = (
+  spec: ChartSpec,
+  columns: ResultColumn[],
+  rows: Row[]
+): ChartData => {
+  const xColumn = columns.find((column) => column.name === spec.x);
+  const ordered =
+    xColumn && (isTemporal(xColumn) || xColumn.kind === "number")
+      ? [...rows].sort(
+          (left, right) =>
+            sortKey(xColumn, left[xColumn.name]) -
+            sortKey(xColumn, right[xColumn.name])
+        )
+      : rows;
+
+  if (!spec.series) {
+    const series = spec.y.map((name, index) => ({
+      key: `series${index}`,
+      label: name,
+    }));
+    return {
+      series,
+      points: ordered.map((row) => ({
+        x: spec.x ? row[spec.x] : undefined,
+        ...Object.fromEntries(
+          series.map(({ key, label }) => [key, toNumber(row[label])])
+        ),
+      })),
+    };
+  }
+
+  const seriesName = spec.series;
+  const [measure] = spec.y;
+  const totals = new Map<string, number>();
+  for (const row of ordered) {
+    const label = toLabel(row[seriesName]);
+    totals.set(
+      label,
+      (totals.get(label) ?? 0) + Math.abs(toNumber(row[measure]) ?? 0)
+    );
+  }
+  const ranked = [...totals.keys()].sort(
+    (left, right) => (totals.get(right) ?? 0) - (totals.get(left) ?? 0)
+  );
+  const kept =
+    ranked.length > MAX_SERIES ? ranked.slice(0, MAX_SERIES - 1) : ranked;
+  const series: ChartSeries[] = kept.map((label, index) => ({
+    key: `series${index}`,
+    label,
+  }));
+  if (kept.length < ranked.length) {
+    series.push({ key: `series${kept.length}`, label: OTHER_SERIES_LABEL });
+  }
+  const keyFor = new Map(kept.map((label, index) => [label, `series${index}`]));
+  const otherKey = `series${kept.length}`;
+
+  const points = new Map<string, Record<string, unknown>>();
+  for (const row of ordered) {
+    const xLabel = toLabel(spec.x ? row[spec.x] : undefined);
+    const point = points.get(xLabel) ?? {
+      x: spec.x ? row[spec.x] : undefined,
+    };
+    const key = keyFor.get(toLabel(row[seriesName])) ?? otherKey;
+    point[key] =
+      ((point[key] as number | undefined) ?? 0) +
+      (toNumber(row[measure]) ?? 0);
+    points.set(xLabel, point);
+  }
+  return { series, points: [...points.values()] };
+};
@@ -0,0 +1,151 @@
+import type { DataSourceField } from "./data-source";
+
+export type ColumnKind =
+  | "number"
+  | "boolean"
+  | "timestamptz"
+  | "timestamp"
+  | "date"
+  | "json"
+  | "text";
+
+export type ResultColumn = {
+  name: string;
+  /** Postgres type name, when the data source reports it. */
+  type?: string;
+  kind: ColumnKind;
+};
+
+const NUMBER_TYPES = new Set([
+  "smallint",
+  "integer",
+  "bigint",
+  "real",
+  "double precision",
+  "numeric",
+  "money",
+  "oid",
+]);
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}(:?\d{2})?)?$/;
+const ZONED_TIMESTAMP_PATTERN = /(Z|[+-]\d{2}(:?\d{2})?)$/;
+
+export const columnKindForType = (type: string): ColumnKind => {
+  const normalized = type.toLowerCase().replace(/\(.*\)/, "").trim();
+  if (normalized.endsWith("[]")) {
+    return "json";
+  }
+  if (NUMBER_TYPES.has(normalized)) {
+    return "number";
+  }
+  if (normalized === "boolean") {
+    return "boolean";
+  }
+  if (normalized === "timestamp with time zone") {
+    return "timestamptz";
+  }
+  if (normalized === "timestamp without time zone") {
+    return "timestamp";
+  }
+  if (normalized === "date") {
+    return "date";
+  }
+  if (normalized === "json" || normalized === "jsonb") {
+    return "json";
+  }
+  return "text";
+};
+
+/**
+ * Parses a date or timestamp cell. Postgres renders timestamps as
+ * `2024-01-31 12:00:00+00`, which Date.parse does not accept, so the text is
+ * rewritten as ISO 8601 first. Dates and zone-less timestamps are wall-clock
+ * values and come back as the same wall-clock time in UTC.
+ */
+export const parseColumnDate = (
+  kind: ColumnKind,
+  value: unknown
+): Date | undefined => {
+  if (value instanceof Date) {
+    return value;
+  }
+  let iso = String(value).trim().replace(" ", "T");
+  if (kind === "date") {
+    iso = `${iso}T00:00:00Z`;
+  } else if (kind === "timestamptz") {
+    iso = iso.replace(/([+-]\d{2})$/, "$1:00");
+  } else if (!/Z$/.test(iso)) {
+    iso = `${iso}Z`;
+  }
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+const inferValueKind = (value: unknown): ColumnKind | undefined => {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (typeof value === "number") {
+    return "number";
+  }
+  if (typeof value === "boolean") {
+    return "boolean";
+  }
+  if (typeof value === "object") {
+    return "json";
+  }
+  const text = String(value);
+  if (ISO_DATE_PATTERN.test(text)) {
+    return "date";
+  }
+  if (ISO_TIMESTAMP_PATTERN.test(text)) {
+    return ZONED_TIMESTAMP_PATTERN.test(text) ? "timestamptz" : "timestamp";
+  }
+  return "text";
+};
+
+// Without type metadata (the MCP backend only returns JSON rows) a column
+// gets a kind only when every non-null value agrees on it.
+const inferColumnKind = (
+  rows: Record<string, unknown>[],
+  name: string
+): ColumnKind => {
+  const kinds = new Set(
+    rows.map((row) => inferValueKind(row[name])).filter(Boolean)
+  );
+  return kinds.size === 1 ? ([...kinds][0] as ColumnKind) : "text";
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Lists the result columns in select-list order. Uses the data source's
+ * field metadata when available and otherwise falls back to the keys of the
+ * rows, inferring each column's kind from its values.
+ */
+export const describeResultColumns = (
+  rows: unknown,
+  fields?: DataSourceField[]
+): ResultColumn[] => {
+  const records = Array.isArray(rows) ? rows.filter(isRecord) : [];
+  if (fields && fields.length > 0) {
+    return fields.map((field) => ({
+      name: field.name,
+      type: field.type,
+      kind: field.type
+        ? columnKindForType(field.type)
+        : inferColumnKind(records, field.name),
+    }));
+  }
+  const names = new Set<string>();
+  for (const record of records) {
+    Object.keys(record).forEach((key) => names.add(key));
+  }
+  return [...names].map((name) => ({
+    name,
+    kind: inferColumnKind(records, name),
+  }));
+};
@@ -0,0 +1,99 @@
+import ExcelJS from "exceljs";
+import { describe, expect, it } from "vitest";
+import {
+  createResultExporter,
+  escapeCsvField,
+  exportResultRows,
+  type ExportFormat,
+} from "./result-export";
+import type { ResultColumn } from "./result-columns";
+
+const columns: ResultColumn[] = [
+  { name: "id", type: "bigint", kind: "number" },
+  { name: "name", type: "text", kind: "text" },
+  { name: "paid", type: "boolean", kind: "boolean" },
+  { name: "details", type: "jsonb", kind: "json" },
+];
+
+const rows = [
+  { id: "1", name: 'Ada, "the first"', paid: true, details: '{"plan":"pro"}' },
+  { id: "12345678901234567890", name: null, paid: "f", details: null },
+];
+
+const collect = async (format: ExportFormat, batches: (typeof rows)[]) => {
+  const chunks: Uint8Array[] = [];
+  const exporter = createResultExporter(format, columns, (chunk) => {
+    chunks.push(chunk);
+  });
+  for (const batch of batches) {
+    await exporter.write(batch);
+  }
+  await exporter.finish();
+  return Buffer.concat(chunks);
+};
+
+describe("escapeCsvField", () => {
+  it("quotes fields with separators, quotes and line breaks", () => {
+    expect(escapeCsvField("plain")).toBe("plain");
+    expect(escapeCsvField('say "hi", then\nleave')).toBe(
+      '"say ""hi"", then\nleave"'
+    );
+    expect(escapeCsvField(null)).toBe("");
+    expect(escapeCsvField({ a: 1 })).toBe('"{""a"":1}"');
+  });
+});
+
+describe("createResultExporter", () => {
+  it("writes the CSV header once across batches", async () => {
+    const csv = await collect("csv", [rows.slice(0, 1), rows.slice(1)]);
+    expect(csv.toString()).toBe(
+      [
+        "id,name,paid,details",
+        '1,"Ada, ""the first""",true,"{""plan"":""pro""}"',
+        "12345678901234567890,,f,",
+        "",
+      ].join("\r\n")
+    );
+  });
+
+  it("writes only the header for an empty CSV export", async () => {
+    expect((await collect("csv", [])).toString()).toBe(
+      "id,name,paid,details\r\n"
+    );
+  });
+
+  it("writes NDJSON with JSON columns parsed", async () => {
+    const lines = (await collect("ndjson", [rows])).toString().split("\n");
+    expect(JSON.parse(lines[0])).toEqual({
+      id: "1",
+      name: 'Ada, "the first"',
+      paid: true,
+      details: { plan: "pro" },
+    });
+    expect(JSON.parse(lines[1])).toMatchObject({ name: null, details: null });
+  });
+
+  it("keeps numbers Excel cannot hold exactly as text", async () => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(
+      await (await exportResultRows("xlsx", columns, rows)).arrayBuffer()
+    );
+    const sheet = workbook.getWorksheet("Results")!;
+    expect(sheet.getRow(1).values).toEqual([
+      undefined,
+      "id",
+      "name",
+      "paid",
+      "details",
+    ]);
+    expect(sheet.getCell("A2").value).toBe(1);
+    expect(sheet.getCell("A3").value).toBe("12345678901234567890");
+    expect(sheet.getCell("C3").value).toBe(false);
+  });
+
+  it("writes a Parquet file", async () => {
+    const parquet = await collect("parquet", [rows.slice(0, 1), rows.slice(1)]);
+    expect(parquet.subarray(0, 4).toString()).toBe("PAR1");
+    expect(parquet.subarray(-4).toString()).toBe("PAR1");
+  });
+});
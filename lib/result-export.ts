@@ -0,0 +1,329 @@
+import type { SchemaElement } from "hyparquet-writer";
+import { parseColumnDate, type ResultColumn } from "./result-columns";
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "ndjson", "parquet"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FORMAT_DETAILS: Record<
+  ExportFormat,
+  { label: string; extension: string; contentType: string }
+> = {
+  csv: { label: "CSV", extension: "csv", contentType: "text/csv; charset=utf-8" },
+  xlsx: {
+    label: "Excel (XLSX)",
+    extension: "xlsx",
+    contentType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  ndjson: {
+    label: "Newline-delimited JSON",
+    extension: "ndjson",
+    contentType: "application/x-ndjson",
+  },
+  parquet: {
+    label: "Parquet",
+    extension: "parquet",
+    contentType: "application/vnd.apache.parquet",
+  },
+};
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  EXPORT_FORMATS.includes(value as ExportFormat);
+
+type Row = Record<string, unknown>;
+
+export type ResultExporter = {
+  write: (rows: Row[]) => Promise<void>;
+  finish: () => Promise<void>;
+};
+
+// Excel stores numbers as doubles; longer numerics stay text so no digits
+// are lost.
+const MAX_EXCEL_DIGITS = 15;
+const INTEGER_TYPES = new Set(["smallint", "integer", "bigint"]);
+
+const encoder = new TextEncoder();
+
+const isMissing = (value: unknown): value is null | undefined =>
+  value === null || value === undefined;
+
+const parseJsonValue = (value: unknown): unknown => {
+  if (typeof value !== "string") {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const toText = (value: unknown): string =>
+  typeof value === "object" ? JSON.stringify(value) : String(value);
+
+const toBoolean = (value: unknown): boolean =>
+  value === true || value === "true" || value === "t";
+
+const CSV_SPECIAL_CHARACTERS = /[",\r\n]/;
+
+/** Escapes a field per RFC 4180: quoted when needed, quotes doubled. */
+export const escapeCsvField = (value: unknown): string => {
+  if (isMissing(value)) {
+    return "";
+  }
+  const text = toText(value);
+  return CSV_SPECIAL_CHARACTERS.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+};
+
+const toCsvRecord = (fields: unknown[]): string =>
+  `${fields.map(escapeCsvField).join(",")}\r\n`;
+
+const toExcelValue = (column: ResultColumn, value: unknown): unknown => {
+  if (isMissing(value)) {
+    return null;
+  }
+  switch (column.kind) {
+    case "number": {
+      const parsed = Number(value);
+      const digits = String(value).replace(/[^0-9]/g, "").replace(/^0+/, "");
+      return Number.isFinite(parsed) && digits.length <= MAX_EXCEL_DIGITS
+        ? parsed
+        : String(value);
+    }
+    case "boolean":
+      return toBoolean(value);
+    case "timestamptz":
+    case "timestamp":
+    case "date":
+      return parseColumnDate(column.kind, value) ?? String(value);
+    case "json":
+      return JSON.stringify(parseJsonValue(value));
+    default:
+      return toText(value);
+  }
+};
+
+const EXCEL_NUMBER_FORMATS: Partial<Record<ResultColumn["kind"], string>> = {
+  timestamptz: "yyyy-mm-dd hh:mm:ss",
+  timestamp: "yyyy-mm-dd hh:mm:ss",
+  date: "yyyy-mm-dd",
+};
+
+const toParquetSchemaElement = (column: ResultColumn): SchemaElement => {
+  const base = { name: column.name, repetition_type: "OPTIONAL" } as const;
+  switch (column.kind) {
+    case "number":
+      return column.type && INTEGER_TYPES.has(column.type)
+        ? { ...base, type: "INT64" }
+        : { ...base, type: "DOUBLE" };
+    case "boolean":
+      return { ...base, type: "BOOLEAN" };
+    case "timestamptz":
+    case "timestamp":
+      return { ...base, type: "INT64", converted_type: "TIMESTAMP_MILLIS" };
+    case "date":
+      return { ...base, type: "INT32", converted_type: "DATE" };
+    case "json":
+      return { ...base, type: "BYTE_ARRAY", converted_type: "JSON" };
+    default:
+      return { ...base, type: "BYTE_ARRAY", converted_type: "UTF8" };
+  }
+};
+
+const toParquetValue = (
+  column: ResultColumn,
+  element: SchemaElement,
+  value: unknown
+): unknown => {
+  if (isMissing(value)) {
+    return null;
+  }
+  switch (column.kind) {
+    case "number":
+      if (element.type === "INT64") {
+        return BigInt(String(value));
+      }
+      return Number(value);
+    case "boolean":
+      return toBoolean(value);
+    case "timestamptz":
+    case "timestamp":
+    case "date":
+      return parseColumnDate(column.kind, value) ?? null;
+    case "json":
+      return parseJsonValue(value);
+    default:
+      return toText(value);
+  }
+};
+
+const createCsvExporter = (
+  columns: ResultColumn[],
+  emit: (chunk: Uint8Array) => void
+): ResultExporter => {
+  let started = false;
+  return {
+    write: async (rows) => {
+      let text = "";
+      if (!started) {
+        text += toCsvRecord(columns.map((column) => column.name));
+        started = true;
+      }
+      for (const row of rows) {
+        text += toCsvRecord(columns.map((column) => row[column.name]));
+      }
+      emit(encoder.encode(text));
+    },
+    finish: async () => {
+      if (!started) {
+        emit(encoder.encode(toCsvRecord(columns.map((column) => column.name))));
+      }
+    },
+  };
+};
+
+const createNdjsonExporter = (
+  columns: ResultColumn[],
+  emit: (chunk: Uint8Array) => void
+): ResultExporter => ({
+  write: async (rows) => {
+    const lines = rows.map(
+      (row) =>
+        `${JSON.stringify(
+          Object.fromEntries(
+            columns.map((column) => [
+              column.name,
+              column.kind === "json"
+                ? parseJsonValue(row[column.name] ?? null)
+                : (row[column.name] ?? null),
+            ])
+          )
+        )}\n`
+    );
+    emit(encoder.encode(lines.join("")));
+  },
+  finish: async () => {},
+});
+
+const createXlsxExporter = (
+  columns: ResultColumn[],
+  emit: (chunk: Uint8Array) => void
+): ResultExporter => {
+  const workbookPromise = import("exceljs").then(({ default: ExcelJS }) => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet("Results", {
+      views: [{ state: "frozen", ySplit: 1 }],
+    });
+    sheet.columns = columns.map((column) => ({
+      header: column.name,
+      key: column.name,
+      width: Math.min(Math.max(column.name.length + 2, 12), 40),
+      style: EXCEL_NUMBER_FORMATS[column.kind]
+        ? { numFmt: EXCEL_NUMBER_FORMATS[column.kind] }
+        : undefined,
+    }));
+    sheet.getRow(1).font = { bold: true };
+    return { workbook, sheet };
+  });
+  return {
+    write: async (rows) => {
+      const { sheet } = await workbookPromise;
+      sheet.addRows(
+        rows.map((row) =>
+          columns.map((column) => toExcelValue(column, row[column.name]))
+        )
+      );
+    },
+    finish: async () => {
+      const { workbook } = await workbookPromise;
+      emit(new Uint8Array(await workbook.xlsx.writeBuffer()));
+    },
+  };
+};
+
+const createParquetExporter = (
+  columns: ResultColumn[],
+  emit: (chunk: Uint8Array) => void
+): ResultExporter => {
+  const schema = columns.map(toParquetSchemaElement);
+  const writerPromise = import("hyparquet-writer").then(
+    ({ ByteWriter, ParquetWriter }) => {
+      const writer = new ByteWriter();
+      return {
+        writer,
+        parquet: new ParquetWriter({
+          writer,
+          schema: [{ name: "root", num_children: columns.length }, ...schema],
+        }),
+      };
+    }
+  );
+  return {
+    // Every batch becomes its own row group.
+    write: async (rows) => {
+      if (rows.length === 0) {
+        return;
+      }
+      const { parquet } = await writerPromise;
+      await parquet.write({
+        columnData: columns.map((column, index) => ({
+          name: column.name,
+          data: rows.map((row) =>
+            toParquetValue(column, schema[index], row[column.name])
+          ),
+        })),
+      });
+    },
+    finish: async () => {
+      const { writer, parquet } = await writerPromise;
+      await parquet.finish();
+      emit(writer.getBytes());
+    },
+  };
+};
+
+/**
+ * Creates an exporter that receives rows in batches and passes the encoded
+ * file to `emit`. CSV and NDJSON emit a chunk per batch; XLSX and Parquet are
+ * assembled in memory and emitted once by `finish`. Their encoders are only
+ * loaded on first use, which keeps ExcelJS out of the initial client bundle.
+ */
+export const createResultExporter = (
+  format: ExportFormat,
+  columns: ResultColumn[],
+  emit: (chunk: Uint8Array) => void
+): ResultExporter => {
+  switch (format) {
+    case "csv":
+      return createCsvExporter(columns, emit);
+    case "xlsx":
+      return createXlsxExporter(columns, emit);
+    case "ndjson":
+      return createNdjsonExporter(columns, emit);
+    case "parquet":
+      return createParquetExporter(columns, emit);
+  }
+};
+
+/** Encodes rows that are already loaded into a file of the given format. */
+export const exportResultRows = async (
+  format: ExportFormat,
+  columns: ResultColumn[],
+  rows: Row[]
+): Promise<Blob> => {
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  const exporter = createResultExporter(format, columns, (chunk) => {
+    chunks.push(new Uint8Array(chunk));
+  });
+  await exporter.write(rows);
+  await exporter.finish();
+  return new Blob(chunks, { type: EXPORT_FORMAT_DETAILS[format].contentType });
+};
+
+export const buildExportFileName = (format: ExportFormat, date = new Date()) =>
+  `query-${date.toISOString().slice(0, 19).replace(/[:T]/g, "-")}.${
+    EXPORT_FORMAT_DETAILS[format].extension
+  }`;
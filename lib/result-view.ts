@@ -0,0 +1,182 @@
+import type { ResultColumn } from "./result-columns";
+
+export type SortDirection = "asc" | "desc";
+
+export type ResultViewState = {
+  sort?: { column: string; direction: SortDirection };
+  /** Per-column filter text, keyed by column name. */
+  filters: Record<string, string>;
+  /** Text matched against every visible cell. */
+  search: string;
+  hidden: string[];
+  /** Column names in display order; columns missing here keep query order. */
+  order: string[];
+  /** Column widths in pixels, keyed by column name. */
+  widths: Record<string, number>;
+};
+
+export const EMPTY_RESULT_VIEW: ResultViewState = {
+  filters: {},
+  search: "",
+  hidden: [],
+  order: [],
+  widths: {},
+};
+
+type Row = Record<string, unknown>;
+
+const COMPARISON_PATTERN = /^(>=|<=|!=|>|<|=)\s*(.+)$/;
+
+const collator = new Intl.Collator(undefined, {
+  numeric: true,
+  sensitivity: "base",
+});
+
+const toSearchText = (value: unknown): string =>
+  value === null || value === undefined
+    ? "null"
+    : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+
+// Temporal values are compared as instants when they parse, so offsets like
+// `+00` and `+02:00` order correctly; otherwise as text.
+const toSortKey = (column: ResultColumn, value: unknown): number | string => {
+  switch (column.kind) {
+    case "number": {
+      const parsed = Number(value);
+      return Number.isNaN(parsed) ? toSearchText(value) : parsed;
+    }
+    case "boolean":
+      return value === true || value === "true" || value === "t" ? 1 : 0;
+    case "timestamptz":
+    case "timestamp":
+    case "date": {
+      const parsed = Date.parse(
+        String(value).replace(" ", "T").replace(/([+-]\d{2})$/, "$1:00")
+      );
+      return Number.isNaN(parsed) ? String(value) : parsed;
+    }
+    default:
+      return toSearchText(value);
+  }
+};
+
+const compareValues = (
+  column: ResultColumn,
+  left: unknown,
+  right: unknown
+): number => {
+  const leftKey = toSortKey(column, left);
+  const rightKey = toSortKey(column, right);
+  if (typeof leftKey === "number" && typeof rightKey === "number") {
+    return leftKey - rightKey;
+  }
+  return collator.compare(String(leftKey), String(rightKey));
+};
+
+/**
+ * Matches a cell against a column filter. Number and temporal columns accept
+ * comparisons (`>= 100`, `< 2024-01-01`); everything else, and any filter
+ * that is not a comparison, is a case-insensitive substring match.
+ */
+const matchesFilter = (
+  column: ResultColumn,
+  value: unknown,
+  filter: string
+): boolean => {
+  const comparison =
+    column.kind === "text" || column.kind === "json" || column.kind === "boolean"
+      ? null
+      : filter.match(COMPARISON_PATTERN);
+  if (comparison) {
+    if (value === null || value === undefined) {
+      return false;
+    }
+    const [, operator, operand] = comparison;
+    const difference = compareValues(column, value, operand.trim());
+    switch (operator) {
+      case ">":
+        return difference > 0;
+      case ">=":
+        return difference >= 0;
+      case "<":
+        return difference < 0;
+      case "<=":
+        return difference <= 0;
+      case "!=":
+        return difference !== 0;
+      default:
+        return difference === 0;
+    }
+  }
+  return toSearchText(value).toLowerCase().includes(filter.toLowerCase());
+};
+
+export const orderResultColumns = (
+  columns: ResultColumn[],
+  state: ResultViewState
+): ResultColumn[] => {
+  const position = new Map(state.order.map((name, index) => [name, index]));
+  return columns
+    .map((column, index) => ({ column, index }))
+    .sort(
+      (left, right) =>
+        (position.get(left.column.name) ?? state.order.length + left.index) -
+        (position.get(right.column.name) ?? state.order.length + right.index)
+    )
+    .map(({ column }) => column);
+};
+
+export const visibleResultColumns = (
+  columns: ResultColumn[],
+  state: ResultViewState
+): ResultColumn[] =>
+  orderResultColumns(columns, state).filter(
+    (column) => !state.hidden.includes(column.name)
+  );
+
+/** Filters, searches and sorts `rows`; nulls sort last in both directions. */
+export const applyResultView = (
+  rows: Row[],
+  columns: ResultColumn[],
+  state: ResultViewState
+): Row[] => {
+  const visible = visibleResultColumns(columns, state);
+  const filters = columns
+    .map((column) => ({ column, filter: state.filters[column.name]?.trim() }))
+    .filter(
+      (entry): entry is { column: ResultColumn; filter: string } =>
+        Boolean(entry.filter)
+    );
+  const search = state.search.trim().toLowerCase();
+
+  const filtered = rows.filter(
+    (row) =>
+      filters.every(({ column, filter }) =>
+        matchesFilter(column, row[column.name], filter)
+      ) &&
+      (!search ||
+        visible.some((column) =>
+          toSearchText(row[column.name]).toLowerCase().includes(search)
+        ))
+  );
+
+  const sortColumn = state.sort
+    ? columns.find((column) => column.name === state.sort?.column)
+    : undefined;
+  if (!sortColumn || !state.sort) {
+    return filtered;
+  }
+  const direction = state.sort.direction === "asc" ? 1 : -1;
+  return [...filtered].sort((left, right) => {
+    const leftValue = left[sortColumn.name];
+    const rightValue = right[sortColumn.name];
+    const leftMissing = leftValue === null || leftValue === undefined;
+    const rightMissing = rightValue === null || rightValue === undefined;
+    if (leftMissing || rightMissing) {
+      return Number(leftMissing) - Number(rightMissing);
+    }
+    return direction * compareValues(sortColumn, leftValue, rightValue);
+  });
+};
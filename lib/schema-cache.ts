@@ -0,0 +1,86 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { SchemaSnapshot } from "./schema-snapshot";
+
+export type SchemaCacheEntry = {
+  snapshot: SchemaSnapshot;
+  /** Catalog fingerprint taken right before the snapshot was introspected. */
+  fingerprint?: string;
+  fetchedAt: number;
+  /** Last time the fingerprint was confirmed against the database. */
+  checkedAt: number;
+};
+
+const DEFAULT_SCHEMA_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const memoryCache = new Map<string, SchemaCacheEntry>();
+let fileCacheLoaded = false;
+
+/** How long a snapshot is served without checking the fingerprint. */
+export const resolveSchemaCacheTtlMs = (): number => {
+  const configured = Number(process.env.SUPABASE_SCHEMA_CACHE_TTL_MS);
+  return Number.isFinite(configured) && configured >= 0
+    ? configured
+    : DEFAULT_SCHEMA_CACHE_TTL_MS;
+};
+
+const resolveCacheFile = (): string | undefined => {
+  const configured = process.env.SUPABASE_SCHEMA_CACHE_FILE;
+  return configured ? path.resolve(process.cwd(), configured) : undefined;
+};
+
+// The file cache only warms the in-process cache, so a missing or corrupt
+// file is treated as empty.
+const loadFileCache = () => {
+  if (fileCacheLoaded) {
+    return;
+  }
+  fileCacheLoaded = true;
+  const file = resolveCacheFile();
+  if (!file || !fs.existsSync(file)) {
+    return;
+  }
+  try {
+    const entries = JSON.parse(fs.readFileSync(file, "utf-8")) as Record<
+      string,
+      SchemaCacheEntry
+    >;
+    for (const [key, entry] of Object.entries(entries)) {
+      if (entry?.snapshot && typeof entry.checkedAt === "number") {
+        memoryCache.set(key, entry);
+      }
+    }
+  } catch (error) {
+    console.warn(`Ignoring unreadable schema cache at ${file}:`, error);
+  }
+};
+
+const persistFileCache = () => {
+  const file = resolveCacheFile();
+  if (!file) {
+    return;
+  }
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(Object.fromEntries(memoryCache)));
+  } catch (error) {
+    console.warn(`Unable to write schema cache at ${file}:`, error);
+  }
+};
+
+export const readSchemaCache = (key: string): SchemaCacheEntry | undefined => {
+  loadFileCache();
+  return memoryCache.get(key);
+};
+
+export const writeSchemaCache = (key: string, entry: SchemaCacheEntry) => {
+  loadFileCache();
+  memoryCache.set(key, entry);
+  persistFileCache();
+};
+
+export const isSchemaCacheFresh = (
+  entry: SchemaCacheEntry,
+  ttlMs: number,
+  now = Date.now()
+): boolean => now - entry.checkedAt < ttlMs;
@@ -0,0 +1,309 @@
+import { cosineSimilarity, embed, embedMany } from "ai";
+import type { SchemaRelation, SchemaSnapshot } from "./schema-snapshot";
+
+export type RetrievalOptions = {
+  /** Number of relations handed to the model. */
+  topK?: number;
+  /** AI SDK embedding model id; lexical ranking only when unset. */
+  embeddingModel?: string;
+};
+
+export type SchemaContext = {
+  relations: SchemaRelation[];
+  /** Qualified names of the relations left out of `relations`. */
+  omitted: string[];
+};
+
+export type RankedRelation = {
+  relation: SchemaRelation;
+  score: number;
+};
+
+export const DEFAULT_SCHEMA_TOP_K = 8;
+
+// BM25 parameters and the share of a relation's score passed on to the
+// tables it references or is referenced by.
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const NEIGHBOR_WEIGHT = 0.4;
+const EMBEDDING_WEIGHT = 0.5;
+
+// Past this many, omitted relations are summarized as a count so large
+// schemas do not flood the prompt.
+const MAX_LISTED_OMITTED = 30;
+
+// Embeddings of the last schema's relation documents, keyed by document, so a
+// schema change only re-embeds the relations that changed. Documents of older
+// schemas are dropped.
+let embeddingIndex = { model: "", embeddings: new Map<string, number[]>() };
+
+export const resolveRetrievalOptions = (): RetrievalOptions & {
+  topK: number;
+} => {
+  const topK = Number(process.env.SUPABASE_SCHEMA_TOP_K);
+  return {
+    topK: Number.isInteger(topK) && topK > 0 ? topK : DEFAULT_SCHEMA_TOP_K,
+    embeddingModel: process.env.SUPABASE_SCHEMA_EMBEDDING_MODEL || undefined,
+  };
+};
+
+export const qualifiedRelationName = (relation: SchemaRelation): string =>
+  `${relation.schema}.${relation.name}`;
+
+const stem = (token: string): string => {
+  if (token.length > 4 && token.endsWith("ies")) {
+    return `${token.slice(0, -3)}y`;
+  }
+  if (token.length > 3 && token.endsWith("es") && /(s|x|ch|sh)es$/.test(token)) {
+    return token.slice(0, -2);
+  }
+  if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) {
+    return token.slice(0, -1);
+  }
+  return token;
+};
+
+// Splits identifiers and prose alike: `customerOrders`, `customer_orders`
+// and "customer orders" all yield `customer` and `order`.
+export const tokenize = (text: string): string[] =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1)
+    .map(stem);
+
+// Relation names count three times and column names twice, so a table
+// called `orders` outranks one that merely has an `order_id` column.
+const buildRelationDocument = (relation: SchemaRelation): string =>
+  [
+    relation.name,
+    relation.name,
+    relation.name,
+    relation.schema,
+    relation.comment ?? "",
+    ...relation.columns.flatMap((column) => [
+      column.name,
+      column.name,
+      column.comment ?? "",
+      ...(column.enumValues ?? []),
+    ]),
+  ].join(" ");
+
+const listRelations = (snapshot: SchemaSnapshot): SchemaRelation[] => [
+  ...snapshot.tables,
+  ...snapshot.views,
+  ...snapshot.materializedViews,
+];
+
+/** BM25 score of each tokenized document against the query tokens. */
+export const scoreLexically = (
+  documents: string[][],
+  query: string[]
+): number[] => {
+  const averageLength =
+    documents.reduce((total, document) => total + document.length, 0) /
+      documents.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const document of documents) {
+    for (const token of new Set(document)) {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+  }
+  const queryTokens = [...new Set(query)];
+  return documents.map((document) => {
+    const termFrequency = new Map<string, number>();
+    for (const token of document) {
+      termFrequency.set(token, (termFrequency.get(token) ?? 0) + 1);
+    }
+    return queryTokens.reduce((score, token) => {
+      const frequency = termFrequency.get(token) ?? 0;
+      if (frequency === 0) {
+        return score;
+      }
+      const containing = documentFrequency.get(token) ?? 0;
+      const idf = Math.log(
+        1 + (documents.length - containing + 0.5) / (containing + 0.5)
+      );
+      return (
+        score +
+        (idf * frequency * (BM25_K1 + 1)) /
+          (frequency +
+            BM25_K1 * (1 - BM25_B + (BM25_B * document.length) / averageLength))
+      );
+    }, 0);
+  });
+};
+
+const scoreSemantically = async (
+  documents: string[],
+  question: string,
+  model: string
+): Promise<number[]> => {
+  const known =
+    embeddingIndex.model === model
+      ? embeddingIndex.embeddings
+      : new Map<string, number[]>();
+  const embeddings = new Map<string, number[]>();
+  const missing: string[] = [];
+  for (const document of new Set(documents)) {
+    const cached = known.get(document);
+    if (cached) {
+      embeddings.set(document, cached);
+    } else {
+      missing.push(document);
+    }
+  }
+  if (missing.length > 0) {
+    const { embeddings: computed } = await embedMany({ model, values: missing });
+    missing.forEach((document, index) =>
+      embeddings.set(document, computed[index])
+    );
+  }
+  embeddingIndex = { model, embeddings };
+  const { embedding } = await embed({ model, value: question });
+  return documents.map((document) =>
+    Math.max(cosineSimilarity(embedding, embeddings.get(document)!), 0)
+  );
+};
+
+const normalizeScores = (scores: number[]): number[] => {
+  const max = Math.max(...scores, 0);
+  return max > 0 ? scores.map((score) => score / max) : scores;
+};
+
+/**
+ * Ranks the snapshot's relations by relevance to `question`: BM25 over names,
+ * comments, columns and enum labels, optionally blended with embedding
+ * similarity, then part of each score is propagated to foreign-key neighbours
+ * so join tables come along with the tables they connect.
+ */
+export const rankSchemaRelations = async (
+  snapshot: SchemaSnapshot,
+  question: string,
+  options: RetrievalOptions = {}
+): Promise<RankedRelation[]> => {
+  const relations = listRelations(snapshot);
+  if (relations.length === 0) {
+    return [];
+  }
+  const documents = relations.map(buildRelationDocument);
+  let scores = normalizeScores(
+    scoreLexically(documents.map(tokenize), tokenize(question))
+  );
+
+  if (options.embeddingModel) {
+    try {
+      const semantic = await scoreSemantically(
+        documents,
+        question,
+        options.embeddingModel
+      );
+      scores = scores.map(
+        (score, index) =>
+          (1 - EMBEDDING_WEIGHT) * score + EMBEDDING_WEIGHT * semantic[index]
+      );
+    } catch (error) {
+      console.warn("Falling back to lexical schema retrieval:", error);
+    }
+  }
+
+  const indexByName = new Map(
+    relations.map((relation, index) => [qualifiedRelationName(relation), index])
+  );
+  const propagated = [...scores];
+  relations.forEach((relation, index) => {
+    for (const foreignKey of relation.foreignKeys) {
+      const target = indexByName.get(
+        `${foreignKey.referencedSchema}.${foreignKey.referencedTable}`
+      );
+      if (target === undefined || target === index) {
+        continue;
+      }
+      propagated[target] = Math.max(
+        propagated[target],
+        scores[index] * NEIGHBOR_WEIGHT
+      );
+      propagated[index] = Math.max(
+        propagated[index],
+        scores[target] * NEIGHBOR_WEIGHT
+      );
+    }
+  });
+
+  return relations
+    .map((relation, index) => ({ relation, score: propagated[index] }))
+    .sort((left, right) => right.score - left.score);
+};
+
+export const retrieveRelevantRelations = async (
+  snapshot: SchemaSnapshot,
+  question: string,
+  options: RetrievalOptions = {}
+): Promise<SchemaRelation[]> => {
+  const topK = options.topK ?? DEFAULT_SCHEMA_TOP_K;
+  const ranked = await rankSchemaRelations(snapshot, question, options);
+  return ranked
+    .filter((entry) => entry.score > 0)
+    .slice(0, topK)
+    .map((entry) => entry.relation);
+};
+
+/**
+ * Looks up relations by `schema.name`, or by bare name in every schema.
+ * Returns the matches and the requested names that matched nothing.
+ */
+export const findSchemaRelations = (
+  snapshot: SchemaSnapshot,
+  names: string[]
+): { relations: SchemaRelation[]; missing: string[] } => {
+  const relations = listRelations(snapshot);
+  const found = new Set<SchemaRelation>();
+  const missing: string[] = [];
+  for (const rawName of names) {
+    const name = rawName.trim().replace(/"/g, "").toLowerCase();
+    const matches = relations.filter((relation) =>
+      name.includes(".")
+        ? qualifiedRelationName(relation).toLowerCase() === name
+        : relation.name.toLowerCase() === name
+    );
+    if (matches.length === 0) {
+      missing.push(rawName);
+    }
+    matches.forEach((relation) => found.add(relation));
+  }
+  return { relations: [...found], missing };
+};
+
+/** Names the omitted relations, or just counts the ones past the limit. */
+export const describeOmittedRelations = (omitted: string[]): string =>
+  omitted.length > MAX_LISTED_OMITTED
+    ? `${omitted.slice(0, MAX_LISTED_OMITTED).join(", ")} and ${
+        omitted.length - MAX_LISTED_OMITTED
+      } more`
+    : omitted.join(", ");
+
+/**
+ * Picks the relations to show the model for `question`: the whole schema when
+ * it has at most `topK` relations, otherwise the most relevant ones.
+ */
+export const selectSchemaContext = async (
+  snapshot: SchemaSnapshot,
+  question: string,
+  options: RetrievalOptions = {}
+): Promise<SchemaContext> => {
+  const relations = listRelations(snapshot);
+  if (relations.length <= (options.topK ?? DEFAULT_SCHEMA_TOP_K)) {
+    return { relations, omitted: [] };
+  }
+  const relevant = await retrieveRelevantRelations(snapshot, question, options);
+  const included = new Set(relevant);
+  return {
+    relations: relevant,
+    omitted: relations
+      .filter((relation) => !included.has(relation))
+      .map(qualifiedRelationName),
+  };
+};
@@ -0,0 +1,397 @@
+export type SchemaRelationKind = "table" | "view" | "materialized_view";
+
+export type SchemaColumn = {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default?: string;
+  comment?: string;
+  /** Labels of the column's enum type, in declaration order. */
+  enumValues?: string[];
+};
+
+export type SchemaForeignKey = {
+  name: string;
+  columns: string[];
+  referencedSchema: string;
+  referencedTable: string;
+  referencedColumns: string[];
+};
+
+export type SchemaIndex = {
+  name: string;
+  unique: boolean;
+  primary: boolean;
+  definition: string;
+};
+
+export type SchemaRelation = {
+  schema: string;
+  name: string;
+  kind: SchemaRelationKind;
+  comment?: string;
+  columns: SchemaColumn[];
+  primaryKey?: string[];
+  uniqueConstraints: string[][];
+  foreignKeys: SchemaForeignKey[];
+  indexes: SchemaIndex[];
+};
+
+export type SchemaSnapshot = {
+  schemas: string[];
+  tables: SchemaRelation[];
+  views: SchemaRelation[];
+  materializedViews: SchemaRelation[];
+  /** Compact, prompt-friendly rendering of the snapshot. */
+  summary: string;
+};
+
+/** Relation and column names only, e.g. for editor autocompletion. */
+export type SchemaOutline = {
+  schemas: string[];
+  relations: {
+    schema: string;
+    name: string;
+    kind: SchemaRelationKind;
+    columns: { name: string; type: string }[];
+  }[];
+};
+
+type RawConstraint = {
+  name?: unknown;
+  type?: unknown;
+  columns?: unknown;
+  foreignSchema?: unknown;
+  foreignTable?: unknown;
+  foreignColumns?: unknown;
+};
+
+const quoteLiteral = (value: string): string =>
+  `'${value.replace(/'/g, "''")}'`;
+
+/**
+ * Builds a single catalog query that returns every table, view and
+ * materialized view in `schemas` as one JSON document, so large schemas are
+ * not cut off by a row limit.
+ */
+export const buildSchemaIntrospectionSql = (schemas: string[]): string => `
+    with relations as (
+      select c.oid, n.nspname as schema, c.relname as name,
+        case c.relkind
+          when 'v' then 'view'
+          when 'm' then 'materialized_view'
+          else 'table'
+        end as kind,
+        obj_description(c.oid, 'pg_class') as comment
+      from pg_class c
+      join pg_namespace n on n.oid = c.relnamespace
+      where n.nspname in (${schemas.map(quoteLiteral).join(", ")})
+        and c.relkind in ('r', 'p', 'f', 'v', 'm')
+    ),
+    columns as (
+      select a.attrelid as oid,
+        json_agg(json_build_object(
+          'name', a.attname,
+          'type', format_type(a.atttypid, a.atttypmod),
+          'nullable', not a.attnotnull,
+          'default', pg_get_expr(d.adbin, d.adrelid),
+          'comment', col_description(a.attrelid, a.attnum),
+          'enumValues', (
+            select json_agg(e.enumlabel order by e.enumsortorder)
+            from pg_enum e
+            where e.enumtypid = a.atttypid
+          )
+        ) order by a.attnum) as columns
+      from pg_attribute a
+      join relations r on r.oid = a.attrelid
+      left join pg_attrdef d on d.adrelid = a.attrelid and d.adnum = a.attnum
+      where a.attnum > 0 and not a.attisdropped
+      group by a.attrelid
+    ),
+    constraints as (
+      select con.conrelid as oid,
+        json_agg(json_build_object(
+          'name', con.conname,
+          'type', con.contype,
+          'columns', (
+            select json_agg(att.attname order by k.ord)
+            from unnest(con.conkey) with ordinality k(attnum, ord)
+            join pg_attribute att
+              on att.attrelid = con.conrelid and att.attnum = k.attnum
+          ),
+          'foreignSchema', fn.nspname,
+          'foreignTable', fc.relname,
+          'foreignColumns', (
+            select json_agg(att.attname order by k.ord)
+            from unnest(con.confkey) with ordinality k(attnum, ord)
+            join pg_attribute att
+              on att.attrelid = con.confrelid and att.attnum = k.attnum
+          )
+        ) order by con.conname) as constraints
+      from pg_constraint con
+      join relations r on r.oid = con.conrelid
+      left join pg_class fc on fc.oid = con.confrelid
+      left join pg_namespace fn on fn.oid = fc.relnamespace
+      where con.contype in ('p', 'u', 'f')
+      group by con.conrelid
+    ),
+    indexes as (
+      select i.indrelid as oid,
+        json_agg(json_build_object(
+          'name', ic.relname,
+          'unique', i.indisunique,
+          'primary', i.indisprimary,
+          'definition', pg_get_indexdef(i.indexrelid)
+        ) order by ic.relname) as indexes
+      from pg_index i
+      join relations r on r.oid = i.indrelid
+      join pg_class ic on ic.oid = i.indexrelid
+      group by i.indrelid
+    )
+    select coalesce(json_agg(json_build_object(
+      'schema', r.schema,
+      'name', r.name,
+      'kind', r.kind,
+      'comment', r.comment,
+      'columns', coalesce(c.columns, '[]'::json),
+      'constraints', coalesce(k.constraints, '[]'::json),
+      'indexes', coalesce(i.indexes, '[]'::json)
+    ) order by r.schema, r.name), '[]'::json) as relations
+    from relations r
+    left join columns c on c.oid = r.oid
+    left join constraints k on k.oid = r.oid
+    left join indexes i on i.oid = r.oid;
+  `;
+
+/**
+ * Builds a cheap query that hashes the catalog entries the snapshot is made
+ * of (relations, indexes, columns, constraints, comments and enum labels),
+ * so a changed fingerprint means the snapshot is stale.
+ */
+export const buildSchemaFingerprintSql = (schemas: string[]): string => `
+    with relations as (
+      select c.oid, c.relkind, c.relname
+      from pg_class c
+      join pg_namespace n on n.oid = c.relnamespace
+      where n.nspname in (${schemas.map(quoteLiteral).join(", ")})
+        and c.relkind in ('r', 'p', 'f', 'v', 'm', 'i')
+    ),
+    entries as (
+      select r.oid::text || r.relkind || r.relname ||
+        coalesce(obj_description(r.oid, 'pg_class'), '') as entry
+      from relations r
+      union all
+      select a.attrelid::text || ':' || a.attnum || a.attname || a.atttypid ||
+        a.atttypmod || a.attnotnull ||
+        coalesce(col_description(a.attrelid, a.attnum), '')
+      from pg_attribute a
+      join relations r on r.oid = a.attrelid
+      where a.attnum > 0 and not a.attisdropped
+      union all
+      select con.conrelid::text || con.conname || con.contype
+      from pg_constraint con
+      join relations r on r.oid = con.conrelid
+      union all
+      select e.enumtypid::text || e.enumsortorder || e.enumlabel
+      from pg_enum e
+    )
+    select md5(coalesce(string_agg(entry, ',' order by entry), '')) as fingerprint
+    from entries;
+  `;
+
+const parseJsonValue = (value: unknown): unknown => {
+  if (typeof value !== "string") {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const asRecords = (value: unknown): Record<string, unknown>[] => {
+  const parsed = parseJsonValue(value);
+  return Array.isArray(parsed)
+    ? parsed.filter(
+        (item): item is Record<string, unknown> =>
+          Boolean(item) && typeof item === "object" && !Array.isArray(item)
+      )
+    : [];
+};
+
+const asStrings = (value: unknown): string[] => {
+  const parsed = parseJsonValue(value);
+  return Array.isArray(parsed)
+    ? parsed.filter((item): item is string => typeof item === "string")
+    : [];
+};
+
+const asOptionalString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value : undefined;
+
+const toSchemaColumn = (raw: Record<string, unknown>): SchemaColumn => {
+  const enumValues = asStrings(raw.enumValues);
+  return {
+    name: String(raw.name ?? ""),
+    type: String(raw.type ?? ""),
+    nullable: raw.nullable !== false,
+    default: asOptionalString(raw.default),
+    comment: asOptionalString(raw.comment),
+    enumValues: enumValues.length > 0 ? enumValues : undefined,
+  };
+};
+
+const toSchemaRelation = (raw: Record<string, unknown>): SchemaRelation => {
+  const constraints = asRecords(raw.constraints) as RawConstraint[];
+  const primaryKey = constraints.find((constraint) => constraint.type === "p");
+  return {
+    schema: String(raw.schema ?? ""),
+    name: String(raw.name ?? ""),
+    kind:
+      raw.kind === "view" || raw.kind === "materialized_view"
+        ? raw.kind
+        : "table",
+    comment: asOptionalString(raw.comment),
+    columns: asRecords(raw.columns).map(toSchemaColumn),
+    primaryKey: primaryKey ? asStrings(primaryKey.columns) : undefined,
+    uniqueConstraints: constraints
+      .filter((constraint) => constraint.type === "u")
+      .map((constraint) => asStrings(constraint.columns)),
+    foreignKeys: constraints
+      .filter((constraint) => constraint.type === "f")
+      .map((constraint) => ({
+        name: String(constraint.name ?? ""),
+        columns: asStrings(constraint.columns),
+        referencedSchema: String(constraint.foreignSchema ?? ""),
+        referencedTable: String(constraint.foreignTable ?? ""),
+        referencedColumns: asStrings(constraint.foreignColumns),
+      })),
+    indexes: asRecords(raw.indexes).map((index) => ({
+      name: String(index.name ?? ""),
+      unique: index.unique === true,
+      primary: index.primary === true,
+      definition: String(index.definition ?? ""),
+    })),
+  };
+};
+
+const formatColumn = (
+  relation: SchemaRelation,
+  column: SchemaColumn
+): string => {
+  let text = `${column.name} ${column.type}`;
+  if (column.enumValues) {
+    text += `{${column.enumValues.join("|")}}`;
+  }
+  if (column.nullable) {
+    text += "?";
+  }
+  if (relation.primaryKey?.includes(column.name)) {
+    text += " pk";
+  }
+  const foreignKey = relation.foreignKeys.find(
+    (key) => key.columns.length === 1 && key.columns[0] === column.name
+  );
+  if (foreignKey) {
+    text += ` -> ${foreignKey.referencedSchema}.${foreignKey.referencedTable}.${foreignKey.referencedColumns[0]}`;
+  }
+  if (column.comment) {
+    text += ` "${column.comment.replace(/\s+/g, " ")}"`;
+  }
+  return text;
+};
+
+/**
+ * Renders one relation per block:
+ *
+ * ```
+ * public.orders (table) "Customer orders"
+ *   id int8 pk, status order_status{paid|void}, customer_id int8 -> public.customers.id
+ *   fk (a, b) -> public.other(x, y)
+ *   idx orders_created_at_idx (created_at)
+ * ```
+ *
+ * `?` marks nullable columns; single-column foreign keys are inlined.
+ */
+export const summarizeSchemaRelation = (relation: SchemaRelation): string => {
+  const header = `${relation.schema}.${relation.name} (${relation.kind.replace(
+    "_",
+    " "
+  )})${relation.comment ? ` "${relation.comment.replace(/\s+/g, " ")}"` : ""}`;
+  const lines = [
+    header,
+    `  ${relation.columns
+      .map((column) => formatColumn(relation, column))
+      .join(", ")}`,
+  ];
+  for (const foreignKey of relation.foreignKeys) {
+    if (foreignKey.columns.length > 1) {
+      lines.push(
+        `  fk (${foreignKey.columns.join(", ")}) -> ${foreignKey.referencedSchema}.${foreignKey.referencedTable}(${foreignKey.referencedColumns.join(", ")})`
+      );
+    }
+  }
+  for (const index of relation.indexes) {
+    if (index.primary) {
+      continue;
+    }
+    const columns = index.definition.match(
+      /USING \w+ \((.*?)\)(?: INCLUDE| WHERE|$)/
+    )?.[1];
+    lines.push(
+      `  ${index.unique ? "unique " : ""}idx ${index.name}${
+        columns ? ` (${columns})` : ""
+      }`
+    );
+  }
+  return lines.join("\n");
+};
+
+export const summarizeSchemaRelations = (relations: SchemaRelation[]) =>
+  relations.map(summarizeSchemaRelation).join("\n");
+
+export const readSchemaFingerprint = (rows: unknown): string | undefined => {
+  const firstRow = Array.isArray(rows) ? rows[0] : undefined;
+  return firstRow && typeof firstRow === "object"
+    ? asOptionalString((firstRow as Record<string, unknown>).fingerprint)
+    : undefined;
+};
+
+export const toSchemaSnapshot = (
+  rows: unknown,
+  schemas: string[]
+): SchemaSnapshot => {
+  const firstRow = Array.isArray(rows) ? rows[0] : undefined;
+  const relations = asRecords(
+    firstRow && typeof firstRow === "object"
+      ? (firstRow as Record<string, unknown>).relations
+      : undefined
+  ).map(toSchemaRelation);
+
+  return {
+    schemas,
+    tables: relations.filter((relation) => relation.kind === "table"),
+    views: relations.filter((relation) => relation.kind === "view"),
+    materializedViews: relations.filter(
+      (relation) => relation.kind === "materialized_view"
+    ),
+    summary: summarizeSchemaRelations(relations),
+  };
+};
+
+export const outlineSchemaSnapshot = (
+  snapshot: SchemaSnapshot
+): SchemaOutline => ({
+  schemas: snapshot.schemas,
+  relations: [
+    ...snapshot.tables,
+    ...snapshot.views,
+    ...snapshot.materializedViews,
+  ].map((relation) => ({
+    schema: relation.schema,
+    name: relation.name,
+    kind: relation.kind,
+    columns: relation.columns.map(({ name, type }) => ({ name, type })),
+  })),
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  compileMetricQuery,
+  SemanticLayerError,
+  type SemanticLayer,
+} from "./semantic-layer";
+import { validateReadOnlySql } from "./sql-validator";
+
+const layer: SemanticLayer = {
+  metrics: {
+    active_customers: {
+      table: "public.orders",
+      expression: "count(distinct orders.customer_id)",
+      timeColumn: "orders.created_at",
+      filters: ["paid_orders"],
+    },
+    mrr: {
+      table: "billing.subscriptions",
+      expression: "sum(subscriptions.monthly_amount_cents) / 100.0",
+    },
+  },
+  dimensions: {
+    customer_country: {
+      table: "public.customers",
+      expression: "customers.country",
+    },
+    plan: { table: "billing.plans", expression: "plans.name" },
+  },
+  filters: {
+    paid_orders: {
+      table: "public.orders",
+      expression: "orders.status = 'paid'",
+    },
+  },
+  joins: [
+    {
+      from: "public.orders",
+      to: "public.customers",
+      on: "orders.customer_id = customers.id",
+    },
+    {
+      from: "billing.subscriptions",
+      to: "public.customers",
+      on: "subscriptions.customer_id = customers.id",
+    },
+    {
+      from: "billing.subscriptions",
+      to: "billing.plans",
+      on: "subscriptions.plan_id = plans.id",
+      type: "inner",
+    },
+  ],
+};
+
+describe("compileMetricQuery", () => {
+  it("compiles filters, a time grain, a dimension and a date range", () => {
+    expect(
+      compileMetricQuery(layer, {
+        metric: "active_customers",
+        dimensions: ["customer_country"],
+        timeGrain: "month",
+        from: "2026-01-01",
+        to: "2026-04-01",
+      })
+    ).toBe(
+      [
+        "select date_trunc('month', orders.created_at) as period, customers.country as customer_country, count(distinct orders.customer_id) as active_customers",
+        "from public.orders as orders",
+        "left join public.customers as customers on orders.customer_id = customers.id",
+        "where (orders.status = 'paid') and orders.created_at >= '2026-01-01' and orders.created_at < '2026-04-01'",
+        "group by 1, 2",
+        "order by 1, 2",
+      ].join("\n")
+    );
+  });
+
+  it("walks joins in both directions", () => {
+    const sql = compileMetricQuery(layer, {
+      metric: "active_customers",
+      dimensions: ["plan"],
+    });
+    expect(sql).toContain(
+      "left join billing.subscriptions as subscriptions on subscriptions.customer_id = customers.id"
+    );
+    expect(sql).toContain(
+      "join billing.plans as plans on subscriptions.plan_id = plans.id"
+    );
+  });
+
+  it("compiles to SQL the validator accepts", async () => {
+    const sql = compileMetricQuery(layer, {
+      metric: "mrr",
+      dimensions: ["plan", "customer_country"],
+    });
+    const validation = await validateReadOnlySql(sql, {
+      allowedSchemas: ["public", "billing"],
+    });
+    expect(validation.ok).toBe(true);
+  });
+
+  it("rejects unknown names, dates and time grains it cannot apply", () => {
+    expect(() => compileMetricQuery(layer, { metric: "revenue" })).toThrow(
+      SemanticLayerError
+    );
+    expect(() =>
+      compileMetricQuery(layer, {
+        metric: "active_customers",
+        from: "2026-01-01'; drop table orders; --",
+      })
+    ).toThrow(/ISO date/);
+    expect(() =>
+      compileMetricQuery(layer, { metric: "mrr", timeGrain: "month" })
+    ).toThrow(/no time column/);
+  });
+});
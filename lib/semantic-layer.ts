@@ -0,0 +1,326 @@
+import fs from "node:fs";
+import path from "node:path";
+
+export type SemanticMetric = {
+  description?: string;
+  /** Table the metric is computed over, as `schema.name`. */
+  table: string;
+  /** Aggregate SQL expression, referencing tables by their bare name. */
+  expression: string;
+  /** Column used for time grains and ranges, e.g. `orders.created_at`. */
+  timeColumn?: string;
+  /** Named filters that are always part of the definition. */
+  filters?: string[];
+};
+
+export type SemanticDimension = {
+  description?: string;
+  table: string;
+  expression: string;
+};
+
+export type SemanticFilter = {
+  description?: string;
+  table: string;
+  /** Boolean SQL condition, referencing tables by their bare name. */
+  expression: string;
+};
+
+export type SemanticJoin = {
+  from: string;
+  to: string;
+  on: string;
+  type?: "inner" | "left";
+};
+
+export type SemanticLayer = {
+  metrics: Record<string, SemanticMetric>;
+  dimensions: Record<string, SemanticDimension>;
+  filters: Record<string, SemanticFilter>;
+  joins: SemanticJoin[];
+};
+
+export const TIME_GRAINS = ["day", "week", "month", "quarter", "year"] as const;
+
+export type TimeGrain = (typeof TIME_GRAINS)[number];
+
+export type MetricRequest = {
+  metric: string;
+  dimensions?: string[];
+  filters?: string[];
+  timeGrain?: TimeGrain;
+  /** Inclusive lower bound on the metric's time column (ISO date). */
+  from?: string;
+  /** Exclusive upper bound on the metric's time column (ISO date). */
+  to?: string;
+};
+
+const SEMANTIC_LAYER_PATH = path.join(process.cwd(), "semantic-layer.json");
+
+const TABLE_PATTERN = /^[a-z_][a-z0-9_$]*(\.[a-z_][a-z0-9_$]*)?$/i;
+const NAME_PATTERN = /^[a-z_][a-z0-9_]*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ][0-9:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export class SemanticLayerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SemanticLayerError";
+  }
+}
+
+const tableAlias = (table: string): string =>
+  table.slice(table.lastIndexOf(".") + 1);
+
+const quoteLiteral = (value: string): string =>
+  `'${value.replace(/'/g, "''")}'`;
+
+const checkDefinitions = (
+  kind: string,
+  definitions: Record<string, { table?: unknown; expression?: unknown }>,
+  aliases: Map<string, string>
+) => {
+  for (const [name, definition] of Object.entries(definitions)) {
+    if (!NAME_PATTERN.test(name)) {
+      throw new SemanticLayerError(
+        `Semantic layer ${kind} "${name}" must be a lowercase identifier`
+      );
+    }
+    if (
+      typeof definition.table !== "string" ||
+      !TABLE_PATTERN.test(definition.table) ||
+      typeof definition.expression !== "string" ||
+      !definition.expression.trim()
+    ) {
+      throw new SemanticLayerError(
+        `Semantic layer ${kind} "${name}" needs a "table" (schema.name) and an "expression"`
+      );
+    }
+    const alias = tableAlias(definition.table);
+    const existing = aliases.get(alias);
+    if (existing && existing !== definition.table) {
+      throw new SemanticLayerError(
+        `Semantic layer tables ${existing} and ${definition.table} share the name "${alias}"; table names must be unique across schemas`
+      );
+    }
+    aliases.set(alias, definition.table);
+  }
+};
+
+const parseSemanticLayer = (raw: unknown): SemanticLayer => {
+  const value = (raw ?? {}) as Partial<SemanticLayer>;
+  const layer: SemanticLayer = {
+    metrics: value.metrics ?? {},
+    dimensions: value.dimensions ?? {},
+    filters: value.filters ?? {},
+    joins: value.joins ?? [],
+  };
+  const aliases = new Map<string, string>();
+  checkDefinitions("metric", layer.metrics, aliases);
+  checkDefinitions("dimension", layer.dimensions, aliases);
+  checkDefinitions("filter", layer.filters, aliases);
+  for (const join of layer.joins) {
+    if (
+      !TABLE_PATTERN.test(String(join.from)) ||
+      !TABLE_PATTERN.test(String(join.to)) ||
+      typeof join.on !== "string"
+    ) {
+      throw new SemanticLayerError(
+        `Semantic layer joins need "from", "to" (schema.name) and "on"`
+      );
+    }
+  }
+  for (const [name, metric] of Object.entries(layer.metrics)) {
+    const unknown = (metric.filters ?? []).filter(
+      (filter) => !layer.filters[filter]
+    );
+    if (unknown.length > 0) {
+      throw new SemanticLayerError(
+        `Semantic layer metric "${name}" uses unknown filters: ${unknown.join(", ")}`
+      );
+    }
+  }
+  return layer;
+};
+
+/**
+ * Reads `semantic-layer.json` next to `mcp.config.json`. Returns undefined
+ * when the project has no semantic layer.
+ */
+export const loadSemanticLayer = (): SemanticLayer | undefined => {
+  if (!fs.existsSync(SEMANTIC_LAYER_PATH)) {
+    return undefined;
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(SEMANTIC_LAYER_PATH, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Unable to read semantic layer at ${SEMANTIC_LAYER_PATH}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+  return parseSemanticLayer(raw);
+};
+
+const describeEntries = (
+  entries: Record<string, { description?: string }>
+): string[] =>
+  Object.entries(entries).map(
+    ([name, entry]) => `- ${name}${entry.description ? `: ${entry.description}` : ""}`
+  );
+
+export const summarizeSemanticLayer = (layer: SemanticLayer): string =>
+  [
+    "Metrics:",
+    ...Object.entries(layer.metrics).map(
+      ([name, metric]) =>
+        `- ${name}${metric.description ? `: ${metric.description}` : ""}${
+          metric.timeColumn ? " (supports time grains)" : ""
+        }`
+    ),
+    "Dimensions:",
+    ...describeEntries(layer.dimensions),
+    "Filters:",
+    ...describeEntries(layer.filters),
+  ].join("\n");
+
+// Breadth-first search over the join graph, which is walked in both
+// directions. Returns the joins that connect `target` to the tables already
+// reached, in the order they have to be emitted.
+const findJoinPath = (
+  layer: SemanticLayer,
+  reached: Set<string>,
+  target: string
+): SemanticJoin[] => {
+  const queue: { table: string; path: SemanticJoin[] }[] = [...reached].map(
+    (table) => ({ table, path: [] })
+  );
+  const visited = new Set(reached);
+  while (queue.length > 0) {
+    const { table, path: joinPath } = queue.shift()!;
+    if (table === target) {
+      return joinPath;
+    }
+    for (const join of layer.joins) {
+      const next =
+        join.from === table ? join.to : join.to === table ? join.from : undefined;
+      if (next && !visited.has(next)) {
+        visited.add(next);
+        queue.push({
+          table: next,
+          path: [...joinPath, { ...join, from: table, to: next }],
+        });
+      }
+    }
+  }
+  throw new SemanticLayerError(
+    `No join path connects ${target} to ${[...reached].join(", ")}. Add it to the semantic layer joins.`
+  );
+};
+
+const resolveEntries = <T>(
+  kind: string,
+  entries: Record<string, T>,
+  names: string[]
+): [string, T][] =>
+  names.map((name) => {
+    const entry = entries[name];
+    if (!entry) {
+      throw new SemanticLayerError(
+        `Unknown ${kind} "${name}". Available: ${
+          Object.keys(entries).join(", ") || "none"
+        }.`
+      );
+    }
+    return [name, entry];
+  });
+
+const checkDate = (label: string, value: string): string => {
+  if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new SemanticLayerError(
+      `"${label}" must be an ISO date such as 2024-01-31, got "${value}".`
+    );
+  }
+  return quoteLiteral(value);
+};
+
+/**
+ * Compiles a metric request into a single SELECT: the metric aggregated over
+ * its table, joined along the configured join paths to every table the
+ * requested dimensions and filters live on, grouped by time grain and
+ * dimensions.
+ */
+export const compileMetricQuery = (
+  layer: SemanticLayer,
+  request: MetricRequest
+): string => {
+  const [[metricName, metric]] = resolveEntries("metric", layer.metrics, [
+    request.metric,
+  ]);
+  const dimensions = resolveEntries(
+    "dimension",
+    layer.dimensions,
+    request.dimensions ?? []
+  );
+  const filters = resolveEntries("filter", layer.filters, [
+    ...new Set([...(metric.filters ?? []), ...(request.filters ?? [])]),
+  ]);
+
+  if ((request.timeGrain || request.from || request.to) && !metric.timeColumn) {
+    throw new SemanticLayerError(
+      `Metric "${metricName}" has no time column, so it cannot be split by time grain or date range.`
+    );
+  }
+  if (request.timeGrain && !TIME_GRAINS.includes(request.timeGrain)) {
+    throw new SemanticLayerError(
+      `Unknown time grain "${request.timeGrain}". Use one of: ${TIME_GRAINS.join(", ")}.`
+    );
+  }
+
+  const reached = new Set([metric.table]);
+  const joins: SemanticJoin[] = [];
+  for (const [, entry] of [...dimensions, ...filters]) {
+    if (reached.has(entry.table)) {
+      continue;
+    }
+    for (const join of findJoinPath(layer, reached, entry.table)) {
+      if (!reached.has(join.to)) {
+        reached.add(join.to);
+        joins.push(join);
+      }
+    }
+  }
+
+  const groupColumns = [
+    ...(request.timeGrain
+      ? [`date_trunc('${request.timeGrain}', ${metric.timeColumn}) as period`]
+      : []),
+    ...dimensions.map(([name, dimension]) => `${dimension.expression} as ${name}`),
+  ];
+  const conditions = [
+    ...filters.map(([, filter]) => `(${filter.expression})`),
+    ...(request.from
+      ? [`${metric.timeColumn} >= ${checkDate("from", request.from)}`]
+      : []),
+    ...(request.to
+      ? [`${metric.timeColumn} < ${checkDate("to", request.to)}`]
+      : []),
+  ];
+  const groupPositions = groupColumns.map((_, index) => index + 1).join(", ");
+
+  return [
+    `select ${[...groupColumns, `${metric.expression} as ${metricName}`].join(", ")}`,
+    `from ${metric.table} as ${tableAlias(metric.table)}`,
+    ...joins.map(
+      (join) =>
+        `${join.type === "inner" ? "join" : "left join"} ${join.to} as ${tableAlias(
+          join.to
+        )} on ${join.on}`
+    ),
+    ...(conditions.length > 0 ? [`where ${conditions.join(" and ")}`] : []),
+    ...(groupColumns.length > 0
+      ? [`group by ${groupPositions}`, `order by ${groupPositions}`]
+      : []),
+  ].join("\n");
+};
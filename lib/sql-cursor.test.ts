@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { decodeSqlCursor, encodeSqlCursor, SqlCursorError } from "./sql-cursor";
+
+const cursor = {
+  project: "supabase",
+  sql: "select * from orders order by id",
+  offset: 100,
+  confirmed: true,
+};
+
+describe("sql cursors", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("round-trips the query, project and offset", () => {
+    expect(decodeSqlCursor(encodeSqlCursor(cursor))).toMatchObject(cursor);
+  });
+
+  it("rejects a tampered payload", () => {
+    const [, signature] = encodeSqlCursor(cursor).split(".");
+    const forged = Buffer.from(
+      JSON.stringify({
+        ...cursor,
+        sql: "select * from auth.users",
+        expiresAt: Date.now() + 60_000,
+      })
+    ).toString("base64url");
+    expect(() => decodeSqlCursor(`${forged}.${signature}`)).toThrow(
+      "Invalid pagination cursor signature."
+    );
+  });
+
+  it("rejects malformed tokens", () => {
+    expect(() => decodeSqlCursor("not-a-cursor")).toThrow(SqlCursorError);
+  });
+
+  it("expires after an hour", () => {
+    vi.useFakeTimers();
+    const token = encodeSqlCursor(cursor);
+    vi.advanceTimersByTime(60 * 60 * 1000 + 1);
+    expect(() => decodeSqlCursor(token)).toThrow(/expired/);
+  });
+});
@@ -0,0 +1,87 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+export type SqlCursor = {
+  /** MCP server the query ran against. */
+  project?: string;
+  /** The validated query before the row cap was applied. */
+  sql: string;
+  /** Rows of the query already handed out to the client. */
+  offset: number;
+  /** The user confirmed the query past the cost guard. */
+  confirmed?: boolean;
+  expiresAt: number;
+};
+
+const CURSOR_TTL_MS = 60 * 60 * 1000;
+
+export class SqlCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SqlCursorError";
+  }
+}
+
+// Without a configured secret cursors are signed with a per-process key, so
+// they stop working after a restart instead of becoming forgeable.
+let fallbackSecret: Buffer | null = null;
+
+const resolveCursorSecret = (): Buffer | string => {
+  const configured = process.env.SUPABASE_SQL_CURSOR_SECRET;
+  if (configured) {
+    return configured;
+  }
+  if (!fallbackSecret) {
+    fallbackSecret = randomBytes(32);
+  }
+  return fallbackSecret;
+};
+
+const sign = (payload: string): string =>
+  createHmac("sha256", resolveCursorSecret())
+    .update(payload)
+    .digest("base64url");
+
+export const encodeSqlCursor = (
+  cursor: Omit<SqlCursor, "expiresAt">
+): string => {
+  const payload = Buffer.from(
+    JSON.stringify({ ...cursor, expiresAt: Date.now() + CURSOR_TTL_MS })
+  ).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+};
+
+export const decodeSqlCursor = (token: string): SqlCursor => {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) {
+    throw new SqlCursorError("Malformed pagination cursor.");
+  }
+  const expected = Buffer.from(sign(payload));
+  const received = Buffer.from(signature);
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    throw new SqlCursorError("Invalid pagination cursor signature.");
+  }
+  let cursor: SqlCursor;
+  try {
+    cursor = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf-8")
+    ) as SqlCursor;
+  } catch {
+    throw new SqlCursorError("Malformed pagination cursor.");
+  }
+  if (
+    typeof cursor.sql !== "string" ||
+    !Number.isInteger(cursor.offset) ||
+    cursor.offset < 0
+  ) {
+    throw new SqlCursorError("Malformed pagination cursor.");
+  }
+  if (cursor.expiresAt < Date.now()) {
+    throw new SqlCursorError(
+      "Pagination cursor has expired. Run the query again."
+    );
+  }
+  return cursor;
+};
@@ -0,0 +1,161 @@
+import type { PlanEstimate } from "./sql-guard";
+import type { SqlRejectionReason } from "./sql-validator";
+
+export type SqlErrorKind = "validation" | "database" | "cost" | "timeout";
+
+const QUERY_CANCELED_SQLSTATE = "57014";
+
+export type SqlExecutionError = {
+  kind: SqlErrorKind;
+  /** Postgres SQLSTATE code, e.g. `42703` for an undefined column. */
+  code?: string;
+  message: string;
+  detail?: string;
+  hint?: string;
+  /** 1-based character offset into the executed SQL, as reported by Postgres. */
+  position?: number;
+  /** Column, relation or function named in the error message. */
+  identifier?: string;
+  reasons?: SqlRejectionReason[];
+  /** Planner estimate that tripped the cost guard. */
+  estimate?: PlanEstimate;
+  /** Set when the query may run once the user explicitly confirms it. */
+  requiresConfirmation?: boolean;
+};
+
+const IDENTIFIER_PATTERNS = [
+  /column "([^"]+)"/i,
+  /relation "([^"]+)"/i,
+  /table "([^"]+)"/i,
+  /schema "([^"]+)"/i,
+  /function ([\w."]+)\(/i,
+  /operator does not exist: ([^\n]+)/i,
+  /type "([^"]+)"/i,
+];
+
+const extractIdentifier = (message: string): string | undefined => {
+  for (const pattern of IDENTIFIER_PATTERNS) {
+    const match = message.match(pattern);
+    if (match) {
+      return match[1].replace(/"/g, "").trim();
+    }
+  }
+  return undefined;
+};
+
+// Postgres renders the failing line as `LINE n: <text>` followed by a caret
+// under the offending character. Long lines are elided with `...`, in which
+// case the column cannot be mapped back onto the SQL.
+const extractCaretPosition = (
+  text: string,
+  sql: string | undefined
+): number | undefined => {
+  if (!sql) {
+    return undefined;
+  }
+  const match = text.match(/LINE (\d+): ([^\n]*)\n(\s*)\^/);
+  if (!match) {
+    return undefined;
+  }
+  const [, lineNumberText, lineText, caretPadding] = match;
+  if (lineText.startsWith("...")) {
+    return undefined;
+  }
+  const prefixLength = `LINE ${lineNumberText}: `.length;
+  const column = caretPadding.length - prefixLength;
+  const lineNumber = Number(lineNumberText);
+  if (column < 0 || !Number.isFinite(lineNumber)) {
+    return undefined;
+  }
+  const lines = sql.split("\n");
+  const lineOffset = lines
+    .slice(0, lineNumber - 1)
+    .reduce((total, line) => total + line.length + 1, 0);
+  return lineOffset + column + 1;
+};
+
+const readStringField = (
+  record: Record<string, unknown>,
+  key: string
+): string | undefined => {
+  const value = record[key];
+  if (typeof value === "string" && value.trim()) {
+    return value.trim();
+  }
+  if (typeof value === "number") {
+    return String(value);
+  }
+  return undefined;
+};
+
+/**
+ * Turns a Postgres error, either as a structured object (`code`, `message`,
+ * `hint`, `position`, ...) or as the text rendered by psql-style clients
+ * (`ERROR:  42703: column "x" does not exist\nLINE 1: ...\nHINT:  ...`),
+ * into a {@link SqlExecutionError}.
+ */
+export const parsePostgresError = (
+  error: unknown,
+  sql?: string
+): SqlExecutionError => {
+  if (error && typeof error === "object" && !Array.isArray(error)) {
+    const record = error as Record<string, unknown>;
+    const nested = record.error;
+    if (nested && typeof nested === "object") {
+      return parsePostgresError(nested, sql);
+    }
+    const message = readStringField(record, "message");
+    if (message) {
+      const parsed = parsePostgresError(message, sql);
+      const position = Number(readStringField(record, "position"));
+      const code = readStringField(record, "code") ?? parsed.code;
+      return {
+        ...parsed,
+        kind: code === QUERY_CANCELED_SQLSTATE ? "timeout" : parsed.kind,
+        code,
+        detail: readStringField(record, "detail") ?? parsed.detail,
+        hint: readStringField(record, "hint") ?? parsed.hint,
+        position: Number.isFinite(position) ? position : parsed.position,
+      };
+    }
+    return { kind: "database", message: JSON.stringify(error) };
+  }
+
+  const text = error instanceof Error ? error.message : String(error ?? "");
+  const errorMatch = text.match(/ERROR:\s+(?:([0-9A-Z]{5}):\s+)?([^\n]+)/);
+  const message = (errorMatch ? errorMatch[2] : text.split("\n")[0]).trim();
+  const detailMatch = text.match(/DETAIL:\s+([^\n]+)/);
+  const hintMatch = text.match(/HINT:\s+([^\n]+)/);
+  const positionMatch = text.match(/\bposition:?\s+(\d+)/i);
+  const code = errorMatch?.[1];
+  const isTimeout =
+    code === QUERY_CANCELED_SQLSTATE || /statement timeout/i.test(message);
+
+  return {
+    kind: isTimeout ? "timeout" : "database",
+    code,
+    message: message || "Unknown database error.",
+    detail: detailMatch?.[1].trim(),
+    hint: hintMatch?.[1].trim(),
+    position: positionMatch
+      ? Number(positionMatch[1])
+      : extractCaretPosition(text, sql),
+    identifier: extractIdentifier(message),
+  };
+};
+
+export const formatSqlExecutionError = (error: SqlExecutionError): string => {
+  const lines = [
+    error.code ? `${error.code}: ${error.message}` : error.message,
+  ];
+  if (error.detail) {
+    lines.push(`Detail: ${error.detail}`);
+  }
+  if (error.hint) {
+    lines.push(`Hint: ${error.hint}`);
+  }
+  if (error.position !== undefined) {
+    lines.push(`Position: ${error.position}`);
+  }
+  return lines.join("\n");
+};
@@ -0,0 +1,144 @@
+import type { SqlExecutionError } from "./sql-errors";
+
+export type SqlGuardConfig = {
+  /** Planner cost above which the user has to confirm the query first. */
+  confirmCost: number;
+  /** Estimated row count above which the user has to confirm the query first. */
+  confirmRows: number;
+  /** Planner cost above which the query is rejected even when confirmed. */
+  maxCost: number;
+  statementTimeoutMs: number;
+};
+
+export type PlanEstimate = {
+  totalCost: number;
+  planRows: number;
+};
+
+const DEFAULT_GUARD_CONFIG: SqlGuardConfig = {
+  confirmCost: 100_000,
+  confirmRows: 1_000_000,
+  maxCost: 10_000_000,
+  statementTimeoutMs: 15_000,
+};
+
+const readPositiveNumber = (name: string, fallback: number): number => {
+  const configured = Number(process.env[name]);
+  return Number.isFinite(configured) && configured > 0 ? configured : fallback;
+};
+
+export const resolveSqlGuardConfig = (): SqlGuardConfig => ({
+  confirmCost: readPositiveNumber(
+    "SUPABASE_SQL_CONFIRM_COST",
+    DEFAULT_GUARD_CONFIG.confirmCost
+  ),
+  confirmRows: readPositiveNumber(
+    "SUPABASE_SQL_CONFIRM_ROWS",
+    DEFAULT_GUARD_CONFIG.confirmRows
+  ),
+  maxCost: readPositiveNumber(
+    "SUPABASE_SQL_MAX_COST",
+    DEFAULT_GUARD_CONFIG.maxCost
+  ),
+  statementTimeoutMs: Math.round(
+    readPositiveNumber(
+      "SUPABASE_SQL_STATEMENT_TIMEOUT_MS",
+      DEFAULT_GUARD_CONFIG.statementTimeoutMs
+    )
+  ),
+});
+
+export const buildExplainSql = (sql: string): string =>
+  `EXPLAIN (ANALYZE false, FORMAT JSON) ${sql}`;
+
+// All statements run in the implicit transaction of a single query string, so
+// the timeout only applies to this query and the transaction rejects writes
+// even when the validator misses a side-effecting function.
+export const withQueryGuards = (sql: string, timeoutMs: number): string =>
+  `SET TRANSACTION READ ONLY;\nSET LOCAL statement_timeout = ${timeoutMs};\n${sql}`;
+
+const parsePlanDocument = (value: unknown): unknown => {
+  if (typeof value !== "string") {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Reads the root plan node from the rows of an `EXPLAIN (FORMAT JSON)` query,
+ * which come back as a single `QUERY PLAN` column holding a one-element array.
+ */
+export const readPlanRoot = (
+  rows: unknown
+): Record<string, unknown> | undefined => {
+  const firstRow = Array.isArray(rows) ? rows[0] : undefined;
+  if (!firstRow || typeof firstRow !== "object") {
+    return undefined;
+  }
+  const document = parsePlanDocument(
+    (firstRow as Record<string, unknown>)["QUERY PLAN"] ??
+      Object.values(firstRow)[0]
+  );
+  const entry = Array.isArray(document) ? document[0] : document;
+  const plan =
+    entry && typeof entry === "object"
+      ? (entry as Record<string, unknown>).Plan
+      : undefined;
+  return plan && typeof plan === "object"
+    ? (plan as Record<string, unknown>)
+    : undefined;
+};
+
+export const readPlanEstimate = (rows: unknown): PlanEstimate | undefined => {
+  const plan = readPlanRoot(rows);
+  if (!plan) {
+    return undefined;
+  }
+  const totalCost = Number(plan["Total Cost"]);
+  const planRows = Number(plan["Plan Rows"]);
+  if (!Number.isFinite(totalCost) || !Number.isFinite(planRows)) {
+    return undefined;
+  }
+  return { totalCost, planRows };
+};
+
+/**
+ * Checks a plan estimate against the configured thresholds and returns the
+ * error to report, or undefined when the query may run.
+ */
+export const evaluatePlanEstimate = (
+  estimate: PlanEstimate,
+  config: SqlGuardConfig,
+  confirmed: boolean
+): SqlExecutionError | undefined => {
+  if (estimate.totalCost > config.maxCost) {
+    return {
+      kind: "cost",
+      message: `Estimated query cost ${Math.round(
+        estimate.totalCost
+      )} exceeds the maximum of ${config.maxCost}. Add filters, aggregate earlier or avoid cross joins.`,
+      estimate,
+    };
+  }
+  if (
+    !confirmed &&
+    (estimate.totalCost > config.confirmCost ||
+      estimate.planRows > config.confirmRows)
+  ) {
+    return {
+      kind: "cost",
+      message: `Query is expensive (estimated cost ${Math.round(
+        estimate.totalCost
+      )}, ~${Math.round(
+        estimate.planRows
+      )} rows). Ask the user to confirm before running it.`,
+      estimate,
+      requiresConfirmation: true,
+    };
+  }
+  return undefined;
+};
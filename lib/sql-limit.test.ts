@@ -0,0 +1,98 @@
+import { parse } from "libpg-query";
+import { describe, expect, it } from "vitest";
+import { applyRowCap, hasOuterOrderBy, removeRowCap } from "./sql-limit";
+
+const cap = async (sql: string, maxRows: number, offset = 0) =>
+  applyRowCap(sql, await parse(sql), maxRows, offset);
+
+const outerLimit = (sql: string) =>
+  sql.match(/\blimit\s+(\d+)\s*(?:offset\s+\d+\s*)?$/i)?.[1];
+
+describe("applyRowCap", () => {
+  it("injects maxRows + 1 when the query has no limit", async () => {
+    const capped = await cap("select * from orders;", 100);
+    expect(capped.rewritten).toBe(true);
+    expect(outerLimit(capped.sql)).toBe("101");
+  });
+
+  it("keeps a constant limit within the cap", async () => {
+    const capped = await cap("select * from orders limit 10", 100);
+    expect(capped).toEqual({
+      sql: "select * from orders limit 10",
+      maxRows: 100,
+      rewritten: false,
+    });
+  });
+
+  it("lowers a limit above the cap", async () => {
+    const capped = await cap(
+      "select * from orders fetch first 500 rows only",
+      100
+    );
+    expect(outerLimit(capped.sql)).toBe("101");
+  });
+
+  it("leaves limits inside subqueries alone", async () => {
+    const capped = await cap(
+      "select * from (select * from orders limit 1000) as recent",
+      100
+    );
+    expect(capped.sql).toMatch(/limit 1000/i);
+    expect(outerLimit(capped.sql)).toBe("101");
+  });
+
+  it("pages within the query's own limit and offset", async () => {
+    const capped = await cap(
+      "select * from orders limit 250 offset 5",
+      100,
+      200
+    );
+    expect(capped.sql).toMatch(/limit 50\s+offset 205$/i);
+  });
+
+  it("caps FETCH FIRST ... WITH TIES from outside", async () => {
+    const capped = await cap(
+      "select * from orders order by total fetch first 5 rows with ties -- top",
+      100
+    );
+    expect(capped.sql).toMatch(/with ties\s*-- top\n\) as capped_rows/);
+    expect(outerLimit(capped.sql)).toBe("101");
+    expect((await cap(capped.sql, 100)).sql).toMatch(/limit 101$/i);
+  });
+});
+
+describe("hasOuterOrderBy", () => {
+  it("only looks at the outermost statement", async () => {
+    expect(hasOuterOrderBy(await parse("select * from t order by id"))).toBe(
+      true
+    );
+    expect(
+      hasOuterOrderBy(
+        await parse("select * from (select * from t order by id) as sorted")
+      )
+    ).toBe(false);
+  });
+});
+
+describe("removeRowCap", () => {
+  it("drops the injected limit and keeps the query's own", async () => {
+    const capped = await cap("select * from orders order by id", 100);
+    const uncapped = await removeRowCap(capped.sql, 100);
+    expect(outerLimit(uncapped)).toBeUndefined();
+    expect(uncapped).toMatch(/order by\s+id$/i);
+    expect(await removeRowCap("select * from orders limit 50", 100)).toBe(
+      "select * from orders limit 50"
+    );
+    expect(await removeRowCap("select * from t limit 101 offset 3", 100)).toBe(
+      "select * from t limit 101 offset 3"
+    );
+  });
+
+  it("lets a capped query be exported in full again", async () => {
+    const capped = await cap("select * from orders order by id", 100);
+    // Reusing the capped SQL as the source keeps the export at 101 rows.
+    expect(outerLimit((await cap(capped.sql, 5_000)).sql)).toBe("101");
+    const source = await removeRowCap(capped.sql, 100);
+    expect(outerLimit((await cap(source, 5_000)).sql)).toBe("5001");
+  });
+});
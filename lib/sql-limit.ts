@@ -0,0 +1,188 @@
+import {
+  parse,
+  type Node,
+  type ParseResult,
+  type SelectStmt,
+} from "libpg-query";
+import { deparse } from "pgsql-deparser";
+
+export const DEFAULT_MAX_ROWS = 100;
+export const DEFAULT_EXPORT_BATCH_ROWS = 5_000;
+export const DEFAULT_EXPORT_MAX_ROWS = 1_000_000;
+
+export type RowCapResult = {
+  sql: string;
+  /** Rows the caller may return; anything beyond this is truncated. */
+  maxRows: number;
+  /** Whether the outer LIMIT was injected or lowered by the cap. */
+  rewritten: boolean;
+};
+
+const readPositiveInteger = (name: string, fallback: number): number => {
+  const configured = Number(process.env[name]);
+  return Number.isInteger(configured) && configured > 0 ? configured : fallback;
+};
+
+export const resolveMaxRows = (): number =>
+  readPositiveInteger("SUPABASE_SQL_MAX_ROWS", DEFAULT_MAX_ROWS);
+
+/** Batch size and overall row limit for full (uncapped) exports. */
+export const resolveExportLimits = () => ({
+  batchRows: readPositiveInteger(
+    "SUPABASE_SQL_EXPORT_BATCH_ROWS",
+    DEFAULT_EXPORT_BATCH_ROWS
+  ),
+  maxRows: readPositiveInteger(
+    "SUPABASE_SQL_EXPORT_MAX_ROWS",
+    DEFAULT_EXPORT_MAX_ROWS
+  ),
+});
+
+// Returns the constant value of a LIMIT / FETCH FIRST / OFFSET clause, or null
+// when the clause is absent, `LIMIT ALL`, a parameter or any other expression.
+const readConstantInteger = (node: Node | undefined): number | null => {
+  const constant = (
+    node as { A_Const?: { ival?: { ival?: number }; isnull?: boolean } } | undefined
+  )?.A_Const;
+  if (!constant || constant.isnull || !constant.ival) {
+    return null;
+  }
+  return constant.ival.ival ?? 0;
+};
+
+const integerConstant = (value: number): Node =>
+  ({ A_Const: { ival: { ival: value } } }) as Node;
+
+const stripTrailingTerminators = (sql: string): string =>
+  sql.replace(/;+\s*$/g, "");
+
+/**
+ * Whether the outermost statement has an ORDER BY. Pages read with OFFSET only
+ * line up when it does.
+ */
+export const hasOuterOrderBy = (parseResult: ParseResult): boolean => {
+  const node = parseResult.stmts?.[0]?.stmt as
+    | { SelectStmt?: SelectStmt }
+    | undefined;
+  return (node?.SelectStmt?.sortClause?.length ?? 0) > 0;
+};
+
+/**
+ * Enforces `maxRows` on the outermost statement of an already validated query.
+ * Limits inside subqueries and CTEs are left alone; the top-level LIMIT (or
+ * FETCH FIRST) is kept when it is a constant no larger than the cap and
+ * otherwise replaced with `maxRows + 1`, so the caller can tell from the extra
+ * row that results were truncated.
+ *
+ * A non-zero `offset` selects a later page of the same query: it is added to
+ * the query's own OFFSET and the page never reads past the query's own LIMIT.
+ * A `FETCH FIRST ... WITH TIES` query is wrapped in a capped outer SELECT.
+ */
+export const applyRowCap = async (
+  sql: string,
+  parseResult: ParseResult,
+  maxRows: number,
+  offset = 0
+): Promise<RowCapResult> => {
+  const rawStatement = parseResult.stmts?.[0];
+  const node = rawStatement?.stmt as { SelectStmt?: SelectStmt } | undefined;
+  const statement = node?.SelectStmt;
+  if (!rawStatement || !statement) {
+    return { sql: stripTrailingTerminators(sql), maxRows, rewritten: false };
+  }
+
+  // FETCH FIRST ... WITH TIES can return more rows than it names, so the
+  // query is capped from outside instead. The deparser drops WITH TIES, so the
+  // statement keeps its original text (located in bytes).
+  if (statement.limitOption === "LIMIT_OPTION_WITH_TIES") {
+    const start = rawStatement.stmt_location ?? 0;
+    const end = rawStatement.stmt_len
+      ? start + rawStatement.stmt_len
+      : undefined;
+    const innerSql = Buffer.from(sql).subarray(start, end).toString();
+    return {
+      sql: [
+        "select * from (",
+        stripTrailingTerminators(innerSql.trim()),
+        ") as capped_rows",
+        `limit ${maxRows + 1}${offset > 0 ? ` offset ${offset}` : ""}`,
+      ].join("\n"),
+      maxRows,
+      rewritten: true,
+    };
+  }
+
+  const existingLimit = readConstantInteger(statement.limitCount);
+  if (offset === 0 && existingLimit !== null && existingLimit <= maxRows) {
+    return { sql: stripTrailingTerminators(sql), maxRows, rewritten: false };
+  }
+
+  const remaining =
+    existingLimit === null ? Infinity : Math.max(existingLimit - offset, 0);
+  const existingOffset = readConstantInteger(statement.limitOffset) ?? 0;
+  const cappedStatement: SelectStmt = {
+    ...statement,
+    limitCount: integerConstant(Math.min(maxRows + 1, remaining)),
+    limitOffset:
+      offset > 0
+        ? integerConstant(existingOffset + offset)
+        : statement.limitOffset,
+    limitOption: "LIMIT_OPTION_COUNT",
+  };
+  const cappedSql = await deparse({
+    ...parseResult,
+    stmts: [{ ...rawStatement, stmt: { SelectStmt: cappedStatement } }],
+  });
+  return {
+    sql: stripTrailingTerminators(cappedSql.trim()),
+    maxRows,
+    rewritten: true,
+  };
+};
+
+/**
+ * Drops the outer `LIMIT maxRows + 1` that {@link applyRowCap} adds, so a query
+ * saved or pinned as it ran can be counted or exported in full again. Any
+ * other LIMIT is the query's own and is kept.
+ */
+export const removeRowCap = async (
+  sql: string,
+  maxRows = resolveMaxRows()
+): Promise<string> => {
+  let parseResult: ParseResult;
+  try {
+    parseResult = await parse(sql);
+  } catch {
+    return sql;
+  }
+  const rawStatement = parseResult.stmts?.[0];
+  const node = rawStatement?.stmt as { SelectStmt?: SelectStmt } | undefined;
+  const statement = node?.SelectStmt;
+  if (
+    !rawStatement ||
+    !statement ||
+    parseResult.stmts?.length !== 1 ||
+    statement.limitOffset ||
+    statement.limitOption !== "LIMIT_OPTION_COUNT" ||
+    readConstantInteger(statement.limitCount) !== maxRows + 1
+  ) {
+    return sql;
+  }
+
+  const uncappedSql = await deparse({
+    ...parseResult,
+    stmts: [
+      {
+        ...rawStatement,
+        stmt: {
+          SelectStmt: {
+            ...statement,
+            limitCount: undefined,
+            limitOption: "LIMIT_OPTION_DEFAULT",
+          },
+        },
+      },
+    ],
+  });
+  return stripTrailingTerminators(uncappedSql.trim());
+};
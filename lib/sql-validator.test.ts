@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { validateReadOnlySql } from "./sql-validator";
+
+const rejectionCodes = async (sql: string, allowedSchemas?: string[]) => {
+  const result = await validateReadOnlySql(sql, { allowedSchemas });
+  return result.ok ? [] : result.reasons.map((reason) => reason.code);
+};
+
+describe("validateReadOnlySql", () => {
+  it("accepts plain selects and CTEs", async () => {
+    expect(await rejectionCodes("select id, total from orders")).toEqual([]);
+    expect(
+      await rejectionCodes(
+        "with recent as (select * from orders) select count(*) from recent"
+      )
+    ).toEqual([]);
+  });
+
+  it("strips a markdown code fence", async () => {
+    const result = await validateReadOnlySql("```sql\nselect 1\n```");
+    expect(result).toMatchObject({ ok: true, sql: "select 1" });
+  });
+
+  it("rejects empty input and parse errors", async () => {
+    expect(await rejectionCodes("  ")).toEqual(["empty"]);
+    expect(await rejectionCodes("select from where")).toEqual(["parse_error"]);
+  });
+
+  it("rejects writes, multiple statements and locking", async () => {
+    expect(await rejectionCodes("delete from orders")).toEqual([
+      "statement_not_allowed",
+    ]);
+    expect(await rejectionCodes("select 1; select 2")).toContain(
+      "multiple_statements"
+    );
+    expect(
+      await rejectionCodes(
+        "with gone as (delete from orders returning id) select * from gone"
+      )
+    ).toContain("data_modifying_cte");
+    expect(await rejectionCodes("select * into copy from orders")).toEqual([
+      "select_into",
+    ]);
+    expect(await rejectionCodes("select * from orders for update")).toEqual([
+      "locking_clause",
+    ]);
+  });
+
+  it("denies functions with side effects", async () => {
+    for (const sql of [
+      "select pg_sleep(10)",
+      "select pg_terminate_backend(42)",
+      "select pg_stat_reset()",
+      "select pg_stat_statements_reset()",
+      "select set_config('role', 'postgres', false)",
+    ]) {
+      expect(await rejectionCodes(sql)).toEqual(["function_denied"]);
+    }
+  });
+
+  it("only allows the public schema by default", async () => {
+    expect(await rejectionCodes("select * from auth.users")).toEqual([
+      "schema_not_allowed",
+    ]);
+    expect(await rejectionCodes("select * from pg_stat_activity")).toEqual([
+      "schema_not_allowed",
+    ]);
+    expect(await rejectionCodes("select * from public.orders")).toEqual([]);
+    expect(await rejectionCodes("select now(), pg_catalog.now()")).toEqual([]);
+  });
+
+  it("uses the configured schemas instead of the default", async () => {
+    const schemas = ["analytics"];
+    expect(
+      await rejectionCodes("select * from analytics.events", schemas)
+    ).toEqual([]);
+    expect(
+      await rejectionCodes("select * from public.orders", schemas)
+    ).toEqual(["schema_not_allowed"]);
+  });
+});
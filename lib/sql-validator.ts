@@ -0,0 +1,411 @@
+import { parse, type ParseResult } from "libpg-query";
+
+export type SqlRejectionCode =
+  | "empty"
+  | "parse_error"
+  | "multiple_statements"
+  | "statement_not_allowed"
+  | "data_modifying_cte"
+  | "select_into"
+  | "locking_clause"
+  | "function_denied"
+  | "function_not_allowed"
+  | "schema_not_allowed";
+
+export type SqlRejectionReason = {
+  code: SqlRejectionCode;
+  message: string;
+  position?: number;
+  identifier?: string;
+};
+
+export type SqlValidationOptions = {
+  /**
+   * When set, only functions matching one of these patterns may be called.
+   * Patterns are `name`, `schema.name`, `schema.*` or `prefix*`.
+   */
+  allowedFunctions?: string[];
+  /** Functions that can never be called. Takes precedence over the allow list. */
+  deniedFunctions?: string[];
+  /**
+   * Schemas tables, views and functions may be referenced from; defaults to
+   * {@link DEFAULT_ALLOWED_SCHEMAS}. Unqualified names are assumed to resolve
+   * through the search path, except `pg_*` relations, which always resolve to
+   * `pg_catalog`.
+   */
+  allowedSchemas?: string[];
+};
+
+export type SqlValidationResult =
+  | { ok: true; sql: string; parseResult: ParseResult }
+  | { ok: false; sql: string; reasons: SqlRejectionReason[] };
+
+type AstNode = Record<string, unknown>;
+
+// System catalogs and other schemas (auth, storage, ...) stay out of reach
+// unless a caller lists them.
+export const DEFAULT_ALLOWED_SCHEMAS = ["public"];
+
+// Functions with side effects (session/server control, statistics resets,
+// transaction ids, replication, file and network access, sequences, locks) or
+// that execute arbitrary SQL strings. The MCP path also runs every query in a
+// read-only transaction, so this list is not the only guard.
+export const DEFAULT_DENIED_FUNCTIONS = [
+  "pg_terminate_backend",
+  "pg_cancel_backend",
+  "pg_reload_conf",
+  "pg_rotate_logfile",
+  "pg_sleep*",
+  "set_config",
+  "pg_stat_reset*",
+  "pg_stat_statements_reset",
+  "pg_log_backend_memory_contexts",
+  "txid_current*",
+  "pg_current_xact_id*",
+  "pg_export_snapshot",
+  "pg_read_file",
+  "pg_read_binary_file",
+  "pg_ls_*",
+  "pg_stat_file",
+  "pg_file_*",
+  "lo_*",
+  "dblink*",
+  "pg_advisory_*",
+  "pg_try_advisory_*",
+  "nextval",
+  "setval",
+  "pg_switch_wal",
+  "pg_create_restore_point",
+  "pg_backup_*",
+  "pg_promote",
+  "pg_wal_replay_*",
+  "pg_create_*_replication_slot",
+  "pg_drop_replication_slot",
+  "pg_copy_*_replication_slot",
+  "pg_replication_slot_advance",
+  "pg_logical_slot_*",
+  "pg_replication_origin_*",
+  "pg_logical_emit_message",
+  "pg_notify",
+  "pg_import_system_collations",
+  "query_to_xml*",
+  "cursor_to_xml*",
+  "http*",
+  "net.*",
+  "vault.*",
+];
+
+const DATA_MODIFYING_STATEMENTS = new Set([
+  "InsertStmt",
+  "UpdateStmt",
+  "DeleteStmt",
+  "MergeStmt",
+]);
+
+const isAstNode = (value: unknown): value is AstNode =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNodeTypeKey = (key: string): boolean => /^[A-Z]/.test(key);
+
+// libpg-query wraps nodes as `{ TypeName: {...} }`, except for a few fields
+// that are typed directly (e.g. the branches of a set operation).
+const walkAst = (
+  value: unknown,
+  visit: (type: string, node: AstNode) => void
+) => {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      walkAst(item, visit);
+    }
+    return;
+  }
+  if (!isAstNode(value)) {
+    return;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    if (!isAstNode(child) && !Array.isArray(child)) {
+      continue;
+    }
+    if (isAstNode(child) && isNodeTypeKey(key)) {
+      visit(key, child);
+    } else if (isAstNode(child) && (key === "larg" || key === "rarg")) {
+      visit("SelectStmt", child);
+    }
+    walkAst(child, visit);
+  }
+};
+
+const readFunctionName = (node: AstNode): string[] => {
+  const parts = Array.isArray(node.funcname) ? node.funcname : [];
+  return parts
+    .map((part) =>
+      isAstNode(part) && isAstNode(part.String)
+        ? String(part.String.sval ?? "")
+        : ""
+    )
+    .filter(Boolean)
+    .map((part) => part.toLowerCase());
+};
+
+const matchesFunctionPattern = (parts: string[], pattern: string): boolean => {
+  const normalized = pattern.trim().toLowerCase();
+  if (!normalized) {
+    return false;
+  }
+  const name = parts[parts.length - 1] ?? "";
+  const schema = parts.length > 1 ? parts[parts.length - 2] : undefined;
+  const patternParts = normalized.split(".");
+  const namePattern = patternParts[patternParts.length - 1];
+  const schemaPattern =
+    patternParts.length > 1 ? patternParts[patternParts.length - 2] : undefined;
+  if (schemaPattern !== undefined && schemaPattern !== schema) {
+    return false;
+  }
+  if (namePattern.includes("*")) {
+    const regex = new RegExp(
+      `^${namePattern
+        .split("*")
+        .map((segment) => segment.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*")}$`
+    );
+    return regex.test(name);
+  }
+  return namePattern === name;
+};
+
+// Built-in functions are always reachable through the implicit pg_catalog
+// search path entry, so qualifying them explicitly is harmless.
+const IMPLICIT_FUNCTION_SCHEMA = "pg_catalog";
+
+const collectCteNames = (statement: AstNode): Set<string> => {
+  const names = new Set<string>();
+  walkAst(statement, (type, node) => {
+    if (type === "CommonTableExpr" && typeof node.ctename === "string") {
+      names.add(node.ctename.toLowerCase());
+    }
+  });
+  return names;
+};
+
+// Resolves the schema a relation reference reads from, or undefined when it
+// goes through the search path (or names a CTE).
+const readRelationSchema = (
+  node: AstNode,
+  cteNames: Set<string>
+): string | undefined => {
+  if (typeof node.schemaname === "string") {
+    return node.schemaname.toLowerCase();
+  }
+  const name = String(node.relname ?? "").toLowerCase();
+  if (cteNames.has(name)) {
+    return undefined;
+  }
+  return name.startsWith("pg_") ? "pg_catalog" : undefined;
+};
+
+const readLocation = (node: AstNode): number | undefined =>
+  typeof node.location === "number" ? node.location : undefined;
+
+const stripCodeFence = (candidate: string): string => {
+  let text = candidate.trim();
+  if (text.startsWith("```")) {
+    text = text.replace(/^```sql\s*/i, "").replace(/```$/g, "").trim();
+  }
+  return text;
+};
+
+const collectRejections = (
+  parseResult: ParseResult,
+  options: SqlValidationOptions
+): SqlRejectionReason[] => {
+  const reasons: SqlRejectionReason[] = [];
+  const statements = parseResult.stmts ?? [];
+  const deniedFunctions = options.deniedFunctions ?? DEFAULT_DENIED_FUNCTIONS;
+  const allowedFunctions = options.allowedFunctions;
+  const allowedSchemas = (
+    options.allowedSchemas ?? DEFAULT_ALLOWED_SCHEMAS
+  ).map((schema) => schema.toLowerCase());
+
+  if (statements.length > 1) {
+    reasons.push({
+      code: "multiple_statements",
+      message: `Expected a single statement but found ${statements.length}. Send one query per call.`,
+    });
+  }
+
+  for (const rawStatement of statements) {
+    const statement = (rawStatement.stmt ?? {}) as AstNode;
+    const [statementType] = Object.keys(statement);
+    if (statementType !== "SelectStmt") {
+      reasons.push({
+        code: "statement_not_allowed",
+        message: `Only read-only SELECT queries (optionally with WITH) are allowed, got ${
+          statementType ?? "an empty statement"
+        }.`,
+        position: rawStatement.stmt_location,
+        identifier: statementType,
+      });
+      continue;
+    }
+
+    const cteNames = collectCteNames(statement);
+    walkAst(statement, (type, node) => {
+      if (DATA_MODIFYING_STATEMENTS.has(type)) {
+        reasons.push({
+          code: "data_modifying_cte",
+          message: `Data-modifying statements (${type}) are not allowed inside WITH clauses.`,
+          identifier: type,
+        });
+        return;
+      }
+      if (type === "SelectStmt") {
+        if (node.intoClause) {
+          reasons.push({
+            code: "select_into",
+            message:
+              "SELECT ... INTO creates a table and is not allowed. Remove the INTO clause.",
+          });
+        }
+        if (Array.isArray(node.lockingClause) && node.lockingClause.length > 0) {
+          reasons.push({
+            code: "locking_clause",
+            message:
+              "Row locking clauses (FOR UPDATE/SHARE) are not allowed. Remove the FOR ... clause.",
+          });
+        }
+        return;
+      }
+      if (type === "RangeVar") {
+        const schema = readRelationSchema(node, cteNames);
+        if (schema !== undefined && !allowedSchemas.includes(schema)) {
+          const identifier = `${schema}.${String(node.relname ?? "")}`;
+          reasons.push({
+            code: "schema_not_allowed",
+            message: `Relation ${identifier} is in schema "${schema}", which is not queryable. Allowed schemas: ${allowedSchemas.join(", ")}.`,
+            position: readLocation(node),
+            identifier,
+          });
+        }
+        return;
+      }
+      if (type === "FuncCall") {
+        const parts = readFunctionName(node);
+        const identifier = parts.join(".");
+        const schema = parts.length > 1 ? parts[parts.length - 2] : undefined;
+        if (
+          schema !== undefined &&
+          schema !== IMPLICIT_FUNCTION_SCHEMA &&
+          !allowedSchemas.includes(schema)
+        ) {
+          reasons.push({
+            code: "schema_not_allowed",
+            message: `Function ${identifier}() is in schema "${schema}", which is not queryable. Allowed schemas: ${allowedSchemas.join(", ")}.`,
+            position: readLocation(node),
+            identifier,
+          });
+          return;
+        }
+        if (
+          deniedFunctions.some((pattern) =>
+            matchesFunctionPattern(parts, pattern)
+          )
+        ) {
+          reasons.push({
+            code: "function_denied",
+            message: `Function ${identifier}() has side effects and cannot be called.`,
+            position: readLocation(node),
+            identifier,
+          });
+          return;
+        }
+        if (
+          allowedFunctions &&
+          !allowedFunctions.some((pattern) =>
+            matchesFunctionPattern(parts, pattern)
+          )
+        ) {
+          reasons.push({
+            code: "function_not_allowed",
+            message: `Function ${identifier}() is not in the list of allowed functions.`,
+            position: readLocation(node),
+            identifier,
+          });
+        }
+      }
+    });
+  }
+
+  return reasons;
+};
+
+export const validateReadOnlySql = async (
+  candidate: string,
+  options: SqlValidationOptions = {}
+): Promise<SqlValidationResult> => {
+  const text = stripCodeFence(candidate);
+  if (!text) {
+    return {
+      ok: false,
+      sql: text,
+      reasons: [{ code: "empty", message: "SQL input cannot be empty." }],
+    };
+  }
+
+  let parseResult: ParseResult;
+  try {
+    parseResult = (await parse(text)) as ParseResult;
+  } catch (error) {
+    const details = (
+      error as { sqlDetails?: { message?: string; cursorPosition?: number } }
+    ).sqlDetails;
+    return {
+      ok: false,
+      sql: text,
+      reasons: [
+        {
+          code: "parse_error",
+          message:
+            details?.message ??
+            (error instanceof Error ? error.message : String(error)),
+          position: details?.cursorPosition,
+        },
+      ],
+    };
+  }
+
+  if (!parseResult.stmts || parseResult.stmts.length === 0) {
+    return {
+      ok: false,
+      sql: text,
+      reasons: [{ code: "empty", message: "SQL input contains no statements." }],
+    };
+  }
+
+  const reasons = collectRejections(parseResult, options);
+  if (reasons.length > 0) {
+    return { ok: false, sql: text, reasons };
+  }
+  return { ok: true, sql: text, parseResult };
+};
+
+export const formatRejectionReasons = (
+  reasons: SqlRejectionReason[]
+): string =>
+  reasons
+    .map(
+      (reason) =>
+        `[${reason.code}] ${reason.message}${
+          reason.position !== undefined ? ` (at position ${reason.position})` : ""
+        }`
+    )
+    .join("\n");
+
+export class SqlValidationError extends Error {
+  readonly reasons: SqlRejectionReason[];
+
+  constructor(reasons: SqlRejectionReason[]) {
+    super(`SQL rejected by the read-only validator:\n${formatRejectionReasons(reasons)}`);
+    this.name = "SqlValidationError";
+    this.reasons = reasons;
+  }
+}
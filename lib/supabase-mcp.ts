@@ -1,7 +1,61 @@
 import { Client } from "@modelcontextprotocol/sdk/client";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import {
+  getDefaultEnvironment,
+  StdioClientTransport,
+} from "@modelcontextprotocol/sdk/client/stdio.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { createHash } from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
+import {
+  DataSourceQueryError,
+  toNamedRows,
+  type DataSourceQueryResult,
+  type SqlDataSource,
+} from "./data-source";
+import {
+  createPostgresDataSource,
+  type PostgresDataSourceConfig,
+} from "./postgres-data-source";
+import { parsePostgresError, type SqlExecutionError } from "./sql-errors";
+import { decodeSqlCursor, encodeSqlCursor } from "./sql-cursor";
+import {
+  isSchemaCacheFresh,
+  readSchemaCache,
+  resolveSchemaCacheTtlMs,
+  writeSchemaCache,
+} from "./schema-cache";
+import {
+  buildSchemaFingerprintSql,
+  buildSchemaIntrospectionSql,
+  readSchemaFingerprint,
+  toSchemaSnapshot,
+  type SchemaSnapshot,
+} from "./schema-snapshot";
+import { toQueryPlanTree, type QueryPlanNode } from "./query-plan";
+import {
+  buildExplainSql,
+  evaluatePlanEstimate,
+  readPlanEstimate,
+  readPlanRoot,
+  resolveSqlGuardConfig,
+  withQueryGuards,
+} from "./sql-guard";
+import { describeResultColumns, type ResultColumn } from "./result-columns";
+import {
+  applyRowCap,
+  hasOuterOrderBy,
+  resolveExportLimits,
+  resolveMaxRows,
+  type RowCapResult,
+} from "./sql-limit";
+import {
+  DEFAULT_ALLOWED_SCHEMAS,
+  SqlValidationError,
+  validateReadOnlySql,
+} from "./sql-validator";
 
 type McpContent =
   | { type: "text"; text?: string }
@@ -18,12 +72,55 @@ type McpConfig = {
   mcpServers?: Record<string, McpServerDefinition>;
 };
 
-type McpServerDefinition = {
-  type?: "http";
+type McpRemoteServerDefinition = {
+  /** Streamable HTTP (the default) or the older HTTP+SSE transport. */
+  type?: "http" | "sse";
   url: string;
   headers?: Record<string, string>;
 };
 
+type McpStdioServerDefinition = {
+  /** Runs the server as a subprocess speaking MCP over stdin/stdout. */
+  type: "stdio";
+  command: string;
+  args?: string[];
+  /** Added to the minimal default environment (PATH, HOME, ...). */
+  env?: Record<string, string>;
+  cwd?: string;
+};
+
+type PostgresServerDefinition = {
+  /** Connects to Postgres directly instead of going through an MCP server. */
+  type: "postgres";
+  connectionString: string;
+  maxConnections?: number;
+};
+
+type McpServerDefinition = (
+  | McpRemoteServerDefinition
+  | McpStdioServerDefinition
+  | PostgresServerDefinition
+) & {
+  /** Name shown in the project picker. Defaults to the server key. */
+  label?: string;
+  /** Schemas that are introspected and may be queried. Defaults to `public`. */
+  schemas?: string[];
+};
+
+type McpTransportConfig =
+  | { type: "http" | "sse"; url: string; headers?: Record<string, string> }
+  | {
+      type: "stdio";
+      command: string;
+      args: string[];
+      env?: Record<string, string>;
+      cwd?: string;
+    };
+
+type ConnectionConfig =
+  | McpTransportConfig
+  | ({ type: "postgres" } & PostgresDataSourceConfig);
+
 type ToolDefinition = {
   name: string;
   inputSchema?: {
@@ -37,23 +134,93 @@ type ToolArgumentContext = {
   prompt: string;
 };
  
-export type SchemaSnapshot = {
-  summary?: string;
-  rows?: unknown;
-  rawResult?: unknown;
+export type { SchemaSnapshot };
+
+export type SupabaseProject = {
+  /** Key of the server in `mcpServers`. */
+  name: string;
+  label: string;
 };
 
 export type SupabaseSqlExecutionResult = {
+  ok: true;
+  project: string;
   sql: string;
+  /** The validated query before the row cap; reuse this to save or export. */
+  sourceSql: string;
   rows: unknown;
+  /** Result columns in select-list order. */
+  columns: ResultColumn[];
+  /** True when the row cap was hit and `rows` holds only the first `maxRows`. */
+  truncated: boolean;
+  maxRows: number;
+  /** Rows of the query skipped before this page. */
+  offset: number;
+  /**
+   * Opaque token for {@link fetchSupabaseSqlPage} when more rows exist. Only
+   * ordered queries get one: without an ORDER BY, OFFSET pages may overlap.
+   */
+  nextCursor?: string;
   raw: unknown;
 };
 
+export type SupabaseSqlExplainResult = {
+  ok: true;
+  project: string;
+  sql: string;
+  plan: QueryPlanNode;
+};
+
+export type SupabaseSqlExport = {
+  ok: true;
+  project: string;
+  sql: string;
+  columns: ResultColumn[];
+  /** Row batches of the full result, up to the configured export limit. */
+  batches: AsyncGenerator<Record<string, unknown>[]>;
+};
+
+export type SupabaseSqlExecutionOptions = {
+  /** Key in `mcpServers`; defaults to the `supabase` entry or the first one. */
+  project?: string;
+  offset?: number;
+  /** The user confirmed running a query the cost guard flagged as expensive. */
+  confirmed?: boolean;
+};
+
+export type SupabaseSchemaOptions = {
+  project?: string;
+  /** Skip the cache and introspect the database again. */
+  refresh?: boolean;
+};
+
+export type SupabaseSqlExecutionFailure = {
+  ok: false;
+  project: string;
+  sql: string;
+  error: SqlExecutionError;
+  raw?: unknown;
+};
+
 const MCP_CONFIG_PATH = path.join(process.cwd(), "mcp.config.json");
-const SUPABASE_SERVER_NAME = "supabase";
-const SCHEMA_NAME = "public";
+// Used when a request names no project and the config defines this server.
+const DEFAULT_SERVER_NAME = "supabase";
+
+const clientPromises = new Map<string, Promise<Client>>();
+const dataSources = new Map<string, SqlDataSource>();
+const schemaRequests = new Map<string, Promise<SchemaSnapshot>>();
 
-let clientPromise: Promise<Client> | null = null;
+class McpToolError extends Error {
+  readonly toolName: string;
+  readonly payload: unknown;
+
+  constructor(toolName: string, payload: unknown, detail: string) {
+    super(`Supabase MCP tool "${toolName}" returned an error: ${detail}`);
+    this.name = "McpToolError";
+    this.toolName = toolName;
+    this.payload = payload;
+  }
+}
 
 const decodeEscapedJson = (text: string): string | null => {
   try {
@@ -180,27 +347,160 @@ const applyEnvTemplatesToRecord = (
   return resolved;
 };
 
-const resolveSupabaseServerConfig = () => {
+const resolveServerName = (config: McpConfig, project?: string): string => {
+  const names = Object.keys(config.mcpServers ?? {});
+  if (project) {
+    if (!names.includes(project)) {
+      throw new Error(
+        `MCP configuration is missing the "${project}" server definition`
+      );
+    }
+    return project;
+  }
+  if (names.includes(DEFAULT_SERVER_NAME)) {
+    return DEFAULT_SERVER_NAME;
+  }
+  if (names.length === 0) {
+    throw new Error("MCP configuration does not define any servers");
+  }
+  return names[0];
+};
+
+export const listSupabaseProjects = (): {
+  projects: SupabaseProject[];
+  defaultProject: string;
+} => {
   const config = readMcpConfig();
-  const server = config.mcpServers?.[SUPABASE_SERVER_NAME];
-  if (!server) {
+  return {
+    projects: Object.entries(config.mcpServers ?? {}).map(([name, server]) => ({
+      name,
+      label: server.label ?? name,
+    })),
+    defaultProject: resolveServerName(config),
+  };
+};
+
+/** Whether `project` names a server in the MCP configuration. */
+export const isKnownSupabaseProject = (project: string): boolean =>
+  Object.hasOwn(readMcpConfig().mcpServers ?? {}, project);
+
+/**
+ * The 400 response for a request that names a project missing from the MCP
+ * configuration, or undefined when the project is known or left out.
+ */
+export const rejectUnknownProject = (project: unknown): Response | undefined =>
+  typeof project === "string" && project && !isKnownSupabaseProject(project)
+    ? Response.json(
+        { error: { message: `Unknown project "${project}".` } },
+        { status: 400 }
+      )
+    : undefined;
+
+const resolveConnectionConfig = (
+  name: string,
+  server: McpServerDefinition
+): ConnectionConfig => {
+  if (server.type === "postgres") {
+    if (!server.connectionString) {
+      throw new Error(
+        `Supabase MCP server "${name}" is missing the "connectionString" property for postgres configuration`
+      );
+    }
+    return {
+      type: "postgres",
+      connectionString: applyEnvTemplates(server.connectionString),
+      maxConnections: server.maxConnections,
+    };
+  }
+  if (server.type === "stdio") {
+    if (!server.command) {
+      throw new Error(
+        `Supabase MCP server "${name}" is missing the "command" property for stdio configuration`
+      );
+    }
+    return {
+      type: "stdio",
+      command: applyEnvTemplates(server.command),
+      args: (server.args ?? []).map(applyEnvTemplates),
+      env: applyEnvTemplatesToRecord(server.env),
+      cwd: server.cwd ? applyEnvTemplates(server.cwd) : undefined,
+    };
+  }
+  if (
+    server.type !== undefined &&
+    server.type !== "http" &&
+    server.type !== "sse"
+  ) {
     throw new Error(
-      `MCP configuration is missing the "${SUPABASE_SERVER_NAME}" server definition`
+      `Supabase MCP server "${name}" has an unsupported type "${String(
+        server.type
+      )}"; expected "http", "sse", "stdio" or "postgres"`
     );
   }
   if (!server.url) {
     throw new Error(
-      `Supabase MCP server "${SUPABASE_SERVER_NAME}" is missing the "url" property for HTTP configuration`
+      `Supabase MCP server "${name}" is missing the "url" property for ${
+        server.type === "sse" ? "SSE" : "HTTP"
+      } configuration`
     );
   }
   return {
+    type: server.type ?? "http",
     url: applyEnvTemplates(server.url),
     headers: applyEnvTemplatesToRecord(server.headers),
   };
 };
 
-const createClient = async (): Promise<Client> => {
-  const server = resolveSupabaseServerConfig();
+const resolveSupabaseServerConfig = (project?: string) => {
+  const config = readMcpConfig();
+  const name = resolveServerName(config, project);
+  const server = config.mcpServers![name];
+  if (
+    server.schemas !== undefined &&
+    (!Array.isArray(server.schemas) ||
+      server.schemas.length === 0 ||
+      server.schemas.some((schema) => typeof schema !== "string" || !schema))
+  ) {
+    throw new Error(
+      `Supabase MCP server "${name}" has an invalid "schemas" property; expected a non-empty array of schema names`
+    );
+  }
+  return {
+    name,
+    connection: resolveConnectionConfig(name, server),
+    schemas: server.schemas ?? DEFAULT_ALLOWED_SCHEMAS,
+  };
+};
+
+type SupabaseServerConfig = ReturnType<typeof resolveSupabaseServerConfig>;
+
+type McpServerConfig = SupabaseServerConfig & {
+  connection: McpTransportConfig;
+};
+
+const createTransport = (config: McpTransportConfig): Transport => {
+  switch (config.type) {
+    case "stdio":
+      return new StdioClientTransport({
+        command: config.command,
+        args: config.args,
+        env: config.env
+          ? { ...getDefaultEnvironment(), ...config.env }
+          : undefined,
+        cwd: config.cwd,
+      });
+    case "sse":
+      return new SSEClientTransport(new URL(config.url), {
+        requestInit: config.headers ? { headers: config.headers } : undefined,
+      });
+    default:
+      return new StreamableHTTPClientTransport(new URL(config.url), {
+        requestInit: config.headers ? { headers: config.headers } : undefined,
+      });
+  }
+};
+
+const createClient = async (server: McpServerConfig): Promise<Client> => {
   const client = new Client(
     {
       name: "obelis-supa-queries",
@@ -210,30 +510,30 @@ const createClient = async (): Promise<Client> => {
       capabilities: {},
     }
   );
-  const transport = new StreamableHTTPClientTransport(new URL(server.url), {
-    requestInit: server.headers ? { headers: server.headers } : undefined,
-  });
+  const transport = createTransport(server.connection);
   client.onclose = () => {
-    clientPromise = null;
+    clientPromises.delete(server.name);
   };
   client.onerror = (error: any) => {
-    console.error("Supabase MCP client error:", error);
+    console.error(`Supabase MCP client error (${server.name}):`, error);
   };
   await client.connect(transport);
   return client;
 };
 
-const getClient = async (): Promise<Client> => {
-  if (!clientPromise) {
-    clientPromise = createClient().catch((error) => {
-      clientPromise = null;
+// Each server gets its own client, created on first use.
+const getClient = async (server: McpServerConfig): Promise<Client> => {
+  let promise = clientPromises.get(server.name);
+  if (!promise) {
+    promise = createClient(server).catch((error) => {
+      clientPromises.delete(server.name);
       throw error;
     });
+    clientPromises.set(server.name, promise);
   }
-  return clientPromise;
+  return promise;
 };
 
-
 // SUPABASE MCP AVAILABLE TOOLS
 // 0  -  search_docs
 // 1  -  list_organizations
@@ -374,104 +674,53 @@ const callSupabaseTool = async (
   });
   if ("isError" in result && result.isError) {
     console.error("Supabase MCP tool error:", result);
-    throw new Error(`Supabase MCP tool "${tool.name}" returned an error`);
+    const content = Array.isArray((result as { content?: McpContent[] }).content)
+      ? (result as { content?: McpContent[] }).content
+      : undefined;
+    const parsed = parseContentPayload(content);
+    const payload = parsed.error ?? parsed.rows ?? parsed;
+    const detail =
+      typeof payload === "string"
+        ? payload
+        : typeof (payload as { message?: unknown }).message === "string"
+          ? ((payload as { message: string }).message)
+          : JSON.stringify(payload);
+    throw new McpToolError(tool.name, payload, detail);
   }
 
   return result;
 };
 
-const sanitizeReadOnlySql = (candidate: string): string => {
-  let text = candidate.trim();
-  if (!text) {
-    throw new Error("SQL input cannot be empty.");
-  }
-  if (text.startsWith("```")) {
-    text = text.replace(/^```sql\s*/i, "").replace(/```$/g, "").trim();
-  }
-  if (!/^(select|with)\b/i.test(text)) {
-    throw new Error("Only read-only SELECT or WITH statements are allowed.");
-  }
-  if (
-    /\b(insert|update|delete|alter|drop|create|grant|revoke|truncate)\b/i.test(
-      text
-    )
-  ) {
-    throw new Error("Only read-only SQL statements are allowed.");
-  }
-  text = text.replace(/;+\s*$/g, "");
-  if (!/limit\s+\d+/i.test(text)) {
-    text = `${text} LIMIT 100`;
-  }
-  return text;
-};
-
-
-
-
-
-
-const coerceString = (value: unknown): string | undefined => {
-  if (typeof value === "string") {
-    const trimmed = value.trim();
-    return trimmed ? trimmed : undefined;
+const sanitizeReadOnlySql = async (
+  candidate: string,
+  schemas: string[],
+  offset = 0,
+  maxRows = resolveMaxRows()
+): Promise<RowCapResult & { validatedSql: string; isOrdered: boolean }> => {
+  const validation = await validateReadOnlySql(candidate, {
+    allowedSchemas: schemas,
+  });
+  if (!validation.ok) {
+    throw new SqlValidationError(validation.reasons);
   }
-  return undefined;
+  const capped = await applyRowCap(
+    validation.sql,
+    validation.parseResult,
+    maxRows,
+    offset
+  );
+  return {
+    ...capped,
+    validatedSql: validation.sql,
+    isOrdered: hasOuterOrderBy(validation.parseResult),
+  };
 };
 
-const pickFirstField = (
-  row: Record<string, unknown>,
-  candidates: string[]
-): string | undefined => {
-  for (const candidate of candidates) {
-    const value = row[candidate];
-    const coerced = coerceString(value);
-    if (coerced) {
-      return coerced;
-    }
+const capRows = (rows: unknown, maxRows: number) => {
+  if (!Array.isArray(rows) || rows.length <= maxRows) {
+    return { rows, truncated: false };
   }
-  return undefined;
-};
-
-const summarizeSchemaRows = (rows: unknown): string | undefined => {
-  if (!Array.isArray(rows)) {
-    return undefined;
-  }
-  const grouped = new Map<string, string[]>();
-  for (const rawRow of rows) {
-    if (!rawRow || typeof rawRow !== "object") {
-      continue;
-    }
-    const row = rawRow as Record<string, unknown>;
-    const table = pickFirstField(row, ["table_name", "table", "name"]);
-    const column = pickFirstField(row, ["column_name", "column"]);
-    const type =
-      pickFirstField(row, ["data_type", "udt_name", "type"]) ?? undefined;
-    if (!table || !column) {
-      continue;
-    }
-    if (!grouped.has(table)) {
-      grouped.set(table, []);
-    }
-    const columns = grouped.get(table)!;
-    columns.push(type ? `${column}:${type}` : column);
-  }
-
-  const summaryLines: string[] = [];
-  for (const [table, columns] of Array.from(grouped.entries())) {
-    summaryLines.push(`${table}(${columns.join(", ")})`);
-  }
-  return summaryLines.join("\n");
-};
-
-const buildSchemaIntrospectionSql = (): string => {
-  const limit = 400;
-  return `
-    select table_name, column_name, data_type
-    from information_schema.columns
-    where table_schema = '${SCHEMA_NAME}'
-    order by table_name, ordinal_position
-    limit ${limit};
-  `;
+  return { rows: rows.slice(0, maxRows), truncated: true };
 };
 
 const unwrapToolResult = (result: unknown) => {
@@ -498,44 +747,488 @@ const unwrapToolResult = (result: unknown) => {
   };
 };
 
+// Runs SQL through the server's MCP execute_sql tool and digs the rows out of
+// the tool's text payload.
+const createMcpDataSource = (server: McpServerConfig): SqlDataSource => ({
+  query: async (sql) => {
+    const client = await getClient(server);
+    let result: Awaited<ReturnType<typeof callSupabaseTool>>;
+    try {
+      result = await callSupabaseTool(client, "execute_sql", { prompt: sql });
+    } catch (error) {
+      if (error instanceof McpToolError) {
+        throw new DataSourceQueryError(error.message, error.payload);
+      }
+      throw error;
+    }
+    const { rawRows, sql: resolvedSql } = unwrapToolResult(result);
+    return {
+      rows: normalizeRowsPayload(rawRows),
+      sql: resolvedSql,
+      raw: result,
+    };
+  },
+});
+
+const getDataSource = (server: SupabaseServerConfig): SqlDataSource => {
+  let source = dataSources.get(server.name);
+  if (!source) {
+    const { connection } = server;
+    source =
+      connection.type === "postgres"
+        ? createPostgresDataSource(connection)
+        : createMcpDataSource({ ...server, connection });
+    dataSources.set(server.name, source);
+  }
+  return source;
+};
+
+const fetchSchemaFingerprint = async (
+  source: SqlDataSource,
+  schemas: string[]
+): Promise<string | undefined> => {
+  const { rows } = await source.query(buildSchemaFingerprintSql(schemas));
+  return readSchemaFingerprint(rows);
+};
+
 const fetchSchemaSnapshot = async (
-  client: Client
+  source: SqlDataSource,
+  schemas: string[]
 ): Promise<SchemaSnapshot> => {
-  const schemaSql = buildSchemaIntrospectionSql();
-  const introspectionContext: ToolArgumentContext = {
-    prompt: schemaSql,
-  };
-  const result = await callSupabaseTool(client, "execute_sql", introspectionContext);
-  const { rawRows } = unwrapToolResult(result);
-  const normalizedRows = normalizeRowsPayload(rawRows);
+  const { rows } = await source.query(buildSchemaIntrospectionSql(schemas));
+  return toSchemaSnapshot(rows, schemas);
+};
+
+// The project ref lives in the server URL, stdio command line or connection
+// string, so together with the schemas it identifies the snapshot. Only a hash
+// is kept, so credentials never end up in the cache file.
+const resolveSchemaCacheKey = (server: SupabaseServerConfig): string => {
+  const { connection } = server;
+  const target =
+    connection.type === "stdio"
+      ? [connection.command, connection.args, connection.env, connection.cwd]
+      : connection.type === "postgres"
+        ? connection.connectionString
+        : connection.url;
+  return `${server.name}:${createHash("sha256")
+    .update(JSON.stringify([target, server.schemas]))
+    .digest("hex")
+    .slice(0, 16)}`;
+};
+
+const loadSchemaSnapshot = async (
+  server: SupabaseServerConfig,
+  key: string,
+  refresh: boolean
+): Promise<SchemaSnapshot> => {
+  const cached = refresh ? undefined : readSchemaCache(key);
+  if (cached && isSchemaCacheFresh(cached, resolveSchemaCacheTtlMs())) {
+    return cached.snapshot;
+  }
+
+  const source = getDataSource(server);
+  const fingerprint = await fetchSchemaFingerprint(source, server.schemas);
+  const now = Date.now();
+  if (cached && fingerprint && cached.fingerprint === fingerprint) {
+    writeSchemaCache(key, { ...cached, checkedAt: now });
+    return cached.snapshot;
+  }
+
+  const snapshot = await fetchSchemaSnapshot(source, server.schemas);
+  writeSchemaCache(key, { snapshot, fingerprint, fetchedAt: now, checkedAt: now });
+  return snapshot;
+};
+
+/**
+ * Returns the schema snapshot, reusing the cached one while it is within the
+ * TTL or its catalog fingerprint is unchanged.
+ */
+export const getSupabaseSchema = async (
+  options: SupabaseSchemaOptions = {}
+): Promise<SchemaSnapshot> => {
+  const server = resolveSupabaseServerConfig(options.project);
+  const key = resolveSchemaCacheKey(server);
+  const pending = schemaRequests.get(key);
+  if (pending && !options.refresh) {
+    return pending;
+  }
+  const request = loadSchemaSnapshot(
+    server,
+    key,
+    options.refresh ?? false
+  ).finally(() => {
+    if (schemaRequests.get(key) === request) {
+      schemaRequests.delete(key);
+    }
+  });
+  schemaRequests.set(key, request);
+  return request;
+};
+
+const toValidationFailure = (
+  project: string,
+  sql: string,
+  error: SqlValidationError
+): SupabaseSqlExecutionFailure => ({
+  ok: false,
+  project,
+  sql,
+  error: {
+    kind: "validation",
+    message: error.message,
+    reasons: error.reasons,
+    position: error.reasons.find((reason) => reason.position !== undefined)
+      ?.position,
+    identifier: error.reasons.find((reason) => reason.identifier)?.identifier,
+  },
+});
+
+// Runs `executedSql` against the server's data source. Error positions are
+// reported relative to `displayedSql`, which `executedSql` wraps.
+const runExecuteSql = async (
+  server: SupabaseServerConfig,
+  executedSql: string,
+  displayedSql: string
+): Promise<
+  { ok: true; result: DataSourceQueryResult } | SupabaseSqlExecutionFailure
+> => {
+  try {
+    const result = await getDataSource(server).query(executedSql);
+    return { ok: true, result };
+  } catch (error) {
+    if (error instanceof DataSourceQueryError) {
+      const parsed = parsePostgresError(error.payload, executedSql);
+      const prefixLength = executedSql.indexOf(displayedSql);
+      return {
+        ok: false,
+        project: server.name,
+        sql: displayedSql,
+        error: {
+          ...parsed,
+          position:
+            parsed.position !== undefined && prefixLength > 0
+              ? Math.max(parsed.position - prefixLength, 1)
+              : parsed.position,
+        },
+      };
+    }
+    throw error;
+  }
+};
+
+// execute_sql hands rows back as JSON objects, which put integer-like column
+// names first and keep one value per name. Queries run for their rows ask the
+// database for the column names and each row's values in order instead.
+const withOrderedColumns = (sql: string): string =>
+  [
+    "with result_rows as (",
+    sql,
+    ")",
+    "select",
+    "  (",
+    "    select json_agg(field.key order by field.ordinality)",
+    "    from json_each(",
+    "      (select row_to_json(r.*) from result_rows as r limit 1)",
+    "    ) with ordinality as field",
+    "  ) as column_names,",
+    "  (",
+    "    select json_agg(",
+    "      (",
+    "        select json_agg(field.value order by field.ordinality)",
+    "        from json_each(row_to_json(r.*)) with ordinality as field",
+    "      )",
+    "    )",
+    "    from result_rows as r",
+    "  ) as row_values",
+  ].join("\n");
+
+const readOrderedColumns = (
+  result: DataSourceQueryResult
+): DataSourceQueryResult => {
+  const [payload] = Array.isArray(result.rows) ? result.rows : [];
+  const { column_names: columnNames, row_values: rowValues } = (payload ??
+    {}) as { column_names?: string[] | null; row_values?: unknown[][] | null };
+  const { names, rows } = toNamedRows(columnNames ?? [], rowValues ?? []);
+  return { ...result, rows, fields: names.map((name) => ({ name })) };
+};
+
+// Runs a validated query for its rows, with the statement guards applied.
+const runResultSql = async (
+  server: SupabaseServerConfig,
+  sql: string,
+  statementTimeoutMs: number
+): ReturnType<typeof runExecuteSql> => {
+  const viaMcp = server.connection.type !== "postgres";
+  const executed = await runExecuteSql(
+    server,
+    withQueryGuards(viaMcp ? withOrderedColumns(sql) : sql, statementTimeoutMs),
+    sql
+  );
+  return executed.ok && viaMcp
+    ? { ok: true, result: readOrderedColumns(executed.result) }
+    : executed;
+};
+
+export const executeSupabaseSql = async (
+  sql: string,
+  options: SupabaseSqlExecutionOptions = {}
+): Promise<SupabaseSqlExecutionResult | SupabaseSqlExecutionFailure> => {
+  const server = resolveSupabaseServerConfig(options.project);
+  const offset = options.offset ?? 0;
+  let capped: Awaited<ReturnType<typeof sanitizeReadOnlySql>>;
+  try {
+    capped = await sanitizeReadOnlySql(sql, server.schemas, offset);
+  } catch (error) {
+    if (error instanceof SqlValidationError) {
+      return toValidationFailure(server.name, sql, error);
+    }
+    throw error;
+  }
+
+  const sanitizedSql = capped.sql;
+  const guard = resolveSqlGuardConfig();
+
+  const explained = await runExecuteSql(
+    server,
+    buildExplainSql(sanitizedSql),
+    sanitizedSql
+  );
+  if (!explained.ok) {
+    return explained;
+  }
+  const estimate = readPlanEstimate(explained.result.rows);
+  if (estimate) {
+    const guardError = evaluatePlanEstimate(
+      estimate,
+      guard,
+      options.confirmed ?? false
+    );
+    if (guardError) {
+      return {
+        ok: false,
+        project: server.name,
+        sql: sanitizedSql,
+        error: guardError,
+      };
+    }
+  } else {
+    console.warn("Unable to read the EXPLAIN estimate for:", sanitizedSql);
+  }
+
+  const executed = await runResultSql(
+    server,
+    sanitizedSql,
+    guard.statementTimeoutMs
+  );
+  if (!executed.ok) {
+    if (executed.error.kind === "timeout") {
+      executed.error.hint ??= `The query ran longer than the ${guard.statementTimeoutMs} ms statement timeout. Filter to a smaller range or aggregate before joining.`;
+    }
+    return executed;
+  }
+  const result = executed.result;
+  const { rows, truncated } = capRows(result.rows, capped.maxRows);
+
   return {
-    summary: summarizeSchemaRows(normalizedRows),
-    rows: normalizedRows,
-    rawResult: result,
+    ok: true,
+    project: server.name,
+    sql: result.sql ?? sanitizedSql,
+    sourceSql: capped.validatedSql,
+    rows,
+    columns: describeResultColumns(rows, result.fields),
+    truncated,
+    maxRows: capped.maxRows,
+    offset,
+    nextCursor:
+      truncated && capped.isOrdered
+        ? encodeSqlCursor({
+            project: server.name,
+            sql: capped.validatedSql,
+            offset: offset + capped.maxRows,
+            confirmed: options.confirmed,
+          })
+        : undefined,
+    raw: result.raw,
   };
 };
 
-export const getSupabaseSchema = async (): Promise<SchemaSnapshot> => {
-  const client = await getClient();
-  return fetchSchemaSnapshot(client);
+export const fetchSupabaseSqlPage = async (
+  cursor: string
+): Promise<SupabaseSqlExecutionResult | SupabaseSqlExecutionFailure> => {
+  const { project, sql, offset, confirmed } = decodeSqlCursor(cursor);
+  return executeSupabaseSql(sql, { project, offset, confirmed });
 };
 
-export const executeSupabaseSql = async (
-  sql: string
-): Promise<SupabaseSqlExecutionResult> => {
-  const client = await getClient();
-  const sanitizedSql = sanitizeReadOnlySql(sql);
-  const executionContext: ToolArgumentContext = {
-    prompt: sanitizedSql,
+export const explainSupabaseSql = async (
+  sql: string,
+  project?: string
+): Promise<SupabaseSqlExplainResult | SupabaseSqlExecutionFailure> => {
+  const server = resolveSupabaseServerConfig(project);
+  let capped: Awaited<ReturnType<typeof sanitizeReadOnlySql>>;
+  try {
+    capped = await sanitizeReadOnlySql(sql, server.schemas);
+  } catch (error) {
+    if (error instanceof SqlValidationError) {
+      return toValidationFailure(server.name, sql, error);
+    }
+    throw error;
+  }
+
+  const explained = await runExecuteSql(
+    server,
+    buildExplainSql(capped.sql),
+    capped.sql
+  );
+  if (!explained.ok) {
+    return explained;
+  }
+  const planRoot = readPlanRoot(explained.result.rows);
+  if (!planRoot) {
+    return {
+      ok: false,
+      project: server.name,
+      sql: capped.sql,
+      error: {
+        kind: "database",
+        message: "EXPLAIN did not return a query plan.",
+      },
+    };
+  }
+  return {
+    ok: true,
+    project: server.name,
+    sql: capped.sql,
+    plan: toQueryPlanTree(planRoot),
   };
+};
+
+const toRecordRows = (rows: unknown): Record<string, unknown>[] =>
+  Array.isArray(rows)
+    ? rows.filter(
+        (row): row is Record<string, unknown> =>
+          typeof row === "object" && row !== null && !Array.isArray(row)
+      )
+    : [];
+
+/**
+ * Re-runs a query without the interactive row cap for a full export. Rows are
+ * read in batches of `SUPABASE_SQL_EXPORT_BATCH_ROWS`, each one a separate
+ * paged query, until the result or `SUPABASE_SQL_EXPORT_MAX_ROWS` runs out.
+ * The first batch runs before this resolves so that validation, cost and
+ * database errors are reported instead of surfacing mid-download.
+ *
+ * Batches are separate statements paged with OFFSET, so a result larger than
+ * one batch is only exported when the query has an ORDER BY; its columns
+ * should identify each row, or ties may still shift between batches.
+ */
+export const exportSupabaseSql = async (
+  sql: string,
+  project?: string
+): Promise<SupabaseSqlExport | SupabaseSqlExecutionFailure> => {
+  const server = resolveSupabaseServerConfig(project);
+  const limits = resolveExportLimits();
+  const guard = resolveSqlGuardConfig();
 
-  const result = await callSupabaseTool(client, "execute_sql", executionContext);
-  const { rawRows, sql: resolvedSql } = unwrapToolResult(result);
-  const normalizedRows = normalizeRowsPayload(rawRows);
+  const runBatch = async (validatedSql: string, offset: number) => {
+    const capped = await sanitizeReadOnlySql(
+      validatedSql,
+      server.schemas,
+      offset,
+      Math.min(limits.batchRows, limits.maxRows - offset)
+    );
+    const executed = await runResultSql(
+      server,
+      capped.sql,
+      guard.statementTimeoutMs
+    );
+    if (!executed.ok) {
+      return executed;
+    }
+    const { rows, truncated } = capRows(
+      executed.result.rows,
+      capped.maxRows
+    );
+    return {
+      ok: true as const,
+      rows: toRecordRows(rows),
+      fields: executed.result.fields,
+      hasMore: truncated && offset + capped.maxRows < limits.maxRows,
+    };
+  };
+
+  let validatedSql: string;
+  let isOrdered: boolean;
+  try {
+    ({ validatedSql, isOrdered } = await sanitizeReadOnlySql(
+      sql,
+      server.schemas
+    ));
+  } catch (error) {
+    if (error instanceof SqlValidationError) {
+      return toValidationFailure(server.name, sql, error);
+    }
+    throw error;
+  }
+
+  // The user asked for the whole result, so only the hard cost limit applies.
+  const explained = await runExecuteSql(
+    server,
+    buildExplainSql(validatedSql),
+    validatedSql
+  );
+  if (!explained.ok) {
+    return explained;
+  }
+  const estimate = readPlanEstimate(explained.result.rows);
+  const guardError = estimate
+    ? evaluatePlanEstimate(estimate, guard, true)
+    : undefined;
+  if (guardError) {
+    return {
+      ok: false,
+      project: server.name,
+      sql: validatedSql,
+      error: guardError,
+    };
+  }
+
+  const first = await runBatch(validatedSql, 0);
+  if (!first.ok) {
+    return first;
+  }
+  if (first.hasMore && !isOrdered) {
+    return {
+      ok: false,
+      project: server.name,
+      sql: validatedSql,
+      error: {
+        kind: "validation",
+        message: `The result has more than ${limits.batchRows} rows, which are exported in batches, and without an ORDER BY the batches may skip or repeat rows.`,
+        hint: "Add an ORDER BY on columns that identify each row, such as the primary key.",
+      },
+    };
+  }
+
+  const batches = async function* () {
+    let { rows, hasMore } = first;
+    let offset = 0;
+    yield rows;
+    while (hasMore) {
+      offset += rows.length;
+      const next = await runBatch(validatedSql, offset);
+      if (!next.ok) {
+        throw new Error(next.error.message);
+      }
+      ({ rows, hasMore } = next);
+      yield rows;
+    }
+  };
 
   return {
-    sql: resolvedSql ?? sanitizedSql,
-    rows: normalizedRows,
-    raw: result,
+    ok: true,
+    project: server.name,
+    sql: validatedSql,
+    columns: describeResultColumns(first.rows, first.fields),
+    batches: batches(),
   };
 };
@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // libpg-query loads its WebAssembly parser from disk at runtime.
+  serverExternalPackages: ["libpg-query"],
 };
 
 export default nextConfig;